@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { MemoryLruCacheStore, estimateBytes } from './cache';
+import { Clock } from './clock';
+
+function createFakeClock(): Clock & { advance(ms: number): void } {
+  let now = 0;
+  return {
+    now: () => now,
+    sleep: async ms => {
+      now += ms;
+    },
+    advance: ms => {
+      now += ms;
+    },
+  };
+}
+
+describe('MemoryLruCacheStore', () => {
+  it('evicts the least recently used entry when maxEntries is exceeded', async () => {
+    const store = new MemoryLruCacheStore({ maxEntries: 2 });
+    await store.set('a', 1, 1000);
+    await store.set('b', 2, 1000);
+    await store.get('a'); // "b" is now least recently used
+    await store.set('c', 3, 1000);
+
+    expect(await store.get('a')).toBe(1);
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('c')).toBe(3);
+    expect(store.stats().evictions).toBe(1);
+  });
+
+  it('evicts until the byte budget is respected', async () => {
+    const value = 'x'.repeat(100);
+    const store = new MemoryLruCacheStore({ maxBytes: estimateBytes(value) * 2 });
+    await store.set('a', value, 1000);
+    await store.set('b', value, 1000);
+    await store.set('c', value, 1000);
+
+    expect(store.stats()).toMatchObject({ entries: 2, evictions: 1, bytes: estimateBytes(value) * 2 });
+  });
+
+  it('expires entries after their TTL', async () => {
+    const clock = createFakeClock();
+    const store = new MemoryLruCacheStore({ clock });
+    await store.set('a', 'value', 1000);
+
+    clock.advance(999);
+    expect(await store.get('a')).toBe('value');
+    clock.advance(1);
+    expect(await store.get('a')).toBeUndefined();
+    expect(store.stats()).toMatchObject({ hits: 1, misses: 1, expirations: 1, entries: 0 });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Cache Stores for Stripe Data
+ *
+ * INTERVIEW TOPIC: "How would you implement caching for this app?"
+ *
+ * DESIGN: One small async interface, several backends
+ * - MemoryLruCacheStore: bounded in-process cache (entries AND bytes), the default
+ * - FileCacheStore (./fileCacheStore.ts): survives restarts, for the app backend
+ * - Could add: Redis / Memcached for multiple backend instances
+ *
+ * WHY BOUNDED? An unbounded Map grows with every customer ever viewed.
+ * LRU keeps the customers merchants are actually looking at.
+ *
+ * OBSERVABILITY: Every store reports hits / misses / evictions so we can
+ * tune TTLs and capacity from real numbers instead of guesses.
+ */
+
+import { Clock, systemClock } from './clock';
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  evictions: number; // Removed to make room (capacity), not because they expired
+  expirations: number; // Found past their TTL
+  entries: number;
+  bytes: number; // Approximate (serialized JSON length)
+}
+
+export interface CacheStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  stats(): CacheStats;
+}
+
+export interface MemoryLruCacheOptions {
+  maxEntries?: number;
+  maxBytes?: number;
+  clock?: Clock;
+}
+
+interface MemoryEntry {
+  value: unknown;
+  expiresAt: number;
+  bytes: number;
+}
+
+/**
+ * Approximate in-memory size of a value
+ *
+ * NOTE: Serialized length is a proxy, not exact heap usage - good enough
+ * to keep the cache from growing without limit.
+ */
+export function estimateBytes(value: unknown): number {
+  return JSON.stringify(value)?.length ?? 0;
+}
+
+/**
+ * In-memory LRU cache with TTL
+ *
+ * IMPLEMENTATION: A Map iterates in insertion order, so re-inserting on
+ * every read keeps the least recently used entry first - evict from the front.
+ */
+export class MemoryLruCacheStore implements CacheStore {
+  private readonly entries = new Map<string, MemoryEntry>();
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  private readonly clock: Clock;
+  private totalBytes = 0;
+  private counters = { hits: 0, misses: 0, evictions: 0, expirations: 0 };
+
+  constructor(options: MemoryLruCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 500;
+    this.maxBytes = options.maxBytes ?? 50 * 1024 * 1024; // 50 MB
+    this.clock = options.clock ?? systemClock;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      this.counters.misses++;
+      return undefined;
+    }
+
+    if (entry.expiresAt <= this.clock.now()) {
+      this.remove(key, entry);
+      this.counters.expirations++;
+      this.counters.misses++;
+      return undefined;
+    }
+
+    // Mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.counters.hits++;
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    const existing = this.entries.get(key);
+    if (existing) this.remove(key, existing);
+
+    const bytes = estimateBytes(value);
+    // A single value larger than the whole budget would evict everything - skip it
+    if (bytes > this.maxBytes) return;
+
+    this.entries.set(key, { value, expiresAt: this.clock.now() + ttlMs, bytes });
+    this.totalBytes += bytes;
+
+    while (this.entries.size > this.maxEntries || this.totalBytes > this.maxBytes) {
+      const [oldestKey, oldestEntry] = this.entries.entries().next().value as [string, MemoryEntry];
+      this.remove(oldestKey, oldestEntry);
+      this.counters.evictions++;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const entry = this.entries.get(key);
+    if (entry) this.remove(key, entry);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.totalBytes = 0;
+  }
+
+  stats(): CacheStats {
+    return { ...this.counters, entries: this.entries.size, bytes: this.totalBytes };
+  }
+
+  private remove(key: string, entry: MemoryEntry): void {
+    this.entries.delete(key);
+    this.totalBytes -= entry.bytes;
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Injectable Time Source
+ *
+ * TESTABILITY: Retry backoff and cache TTLs depend on time. Passing a Clock
+ * instead of calling Date.now() / setTimeout directly lets tests control
+ * time and run instantly.
+ */
+
+export interface Clock {
+  now(): number;
+  /**
+   * Wait `ms`; rejects with the signal's reason as soon as it aborts
+   */
+  sleep(ms: number, signal?: AbortSignal): Promise<void>;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms, signal) =>
+    new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(signal.reason);
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }),
+};
@@ -0,0 +1,108 @@
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Clock } from './clock';
+import { FileCacheStore } from './fileCacheStore';
+
+let directory: string;
+let now: number;
+const clock: Clock = { now: () => now, sleep: async () => {} };
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), 'file-cache-'));
+  now = 0;
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe('FileCacheStore', () => {
+  it('round-trips values and expires them after their TTL', async () => {
+    const store = new FileCacheStore({ directory, clock });
+    await store.set('cus_1:charges', { items: [1, 2] }, 1000);
+
+    expect(await store.get('cus_1:charges')).toEqual({ items: [1, 2] });
+
+    now = 1000;
+    expect(await store.get('cus_1:charges')).toBeUndefined();
+    expect(store.stats()).toMatchObject({ hits: 1, misses: 1, expirations: 1, entries: 0, bytes: 0 });
+    expect(await readdir(directory)).toEqual([]);
+  });
+
+  it('survives a restart', async () => {
+    await new FileCacheStore({ directory, clock }).set('key', 'value', 1000);
+
+    expect(await new FileCacheStore({ directory, clock }).get('key')).toBe('value');
+  });
+
+  it('keeps entries and bytes up to date on set and delete', async () => {
+    const store = new FileCacheStore({ directory, clock });
+    await store.set('a', 'x'.repeat(100), 1000);
+    await store.set('b', 'y', 1000);
+    const { bytes } = store.stats();
+    expect(store.stats().entries).toBe(2);
+    expect(bytes).toBeGreaterThan(100);
+
+    // Overwriting replaces the old size instead of adding to it
+    await store.set('a', 'x', 1000);
+    expect(store.stats()).toMatchObject({ entries: 2, bytes: bytes - 99 });
+
+    await store.delete('a');
+    await store.delete('missing');
+    expect(store.stats().entries).toBe(1);
+
+    await store.clear();
+    expect(store.stats()).toMatchObject({ entries: 0, bytes: 0 });
+  });
+
+  it('counts files already on disk from the first use', async () => {
+    await new FileCacheStore({ directory, clock }).set('a', 1, 1000);
+    const store = new FileCacheStore({ directory, clock });
+
+    // Not scanned yet
+    expect(store.stats().entries).toBe(0);
+
+    await store.get('a');
+    expect(store.stats().entries).toBe(1);
+  });
+
+  it('evicts the least recently used entry when maxEntries is exceeded', async () => {
+    const store = new FileCacheStore({ directory, clock, maxEntries: 2 });
+    await store.set('a', 1, 1000);
+    await store.set('b', 2, 1000);
+    await store.get('a'); // "b" is now least recently used
+    await store.set('c', 3, 1000);
+
+    expect(await store.get('a')).toBe(1);
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('c')).toBe(3);
+    expect(store.stats()).toMatchObject({ evictions: 1, entries: 2 });
+  });
+
+  it('evicts to stay under maxBytes and skips values larger than the budget', async () => {
+    const store = new FileCacheStore({ directory, clock, maxBytes: 150 });
+    await store.set('a', 'x'.repeat(50), 1000);
+    await store.set('b', 'y'.repeat(50), 1000);
+
+    expect(await store.get('a')).toBeUndefined();
+    expect(store.stats()).toMatchObject({ evictions: 1, entries: 1 });
+
+    await store.set('huge', 'z'.repeat(500), 1000);
+    expect(await store.get('huge')).toBeUndefined();
+    expect(store.stats().evictions).toBe(1);
+  });
+
+  it('prunes expired and corrupt files', async () => {
+    const store = new FileCacheStore({ directory, clock });
+    await store.set('short', 1, 100);
+    await store.set('long', 2, 10_000);
+    await writeFile(path.join(directory, 'corrupt.json'), '{"val', 'utf8');
+
+    now = 500;
+    expect(await store.prune()).toBe(2);
+    expect(await readdir(directory)).toEqual([`${encodeURIComponent('long')}.json`]);
+    expect(store.stats().entries).toBe(1);
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * File-Backed Cache Store (App Backend Only)
+ *
+ * USE CASE: The in-memory cache is lost on every deploy/restart, so the
+ * first dashboard view after a deploy re-downloads everything. Persisting
+ * to disk keeps the cache warm across restarts of a single backend instance.
+ *
+ * LAYOUT: One JSON file per key: { value, expiresAt }
+ * - Writes go to a temp file then rename() → readers never see half a file
+ * - Expired files are deleted lazily on read, or in bulk via prune()
+ *
+ * BOUNDED like the memory store: past maxEntries / maxBytes the least
+ * recently used file is evicted. Recency is tracked in memory, seeded from
+ * file mtimes when the directory is first scanned (first get/set/delete).
+ *
+ * NOT FOR: Multiple backend instances (use a shared store like Redis) or
+ * the browser bundle (uses Node's fs).
+ */
+
+import { mkdir, readFile, readdir, rename, rm, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { CacheStats, CacheStore } from './cache';
+import { Clock, systemClock } from './clock';
+
+export interface FileCacheOptions {
+  directory?: string;
+  maxEntries?: number;
+  maxBytes?: number; // Size of the JSON files on disk
+  clock?: Clock;
+}
+
+interface FileEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+export class FileCacheStore implements CacheStore {
+  private readonly directory: string;
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  private readonly clock: Clock;
+  private counters = { hits: 0, misses: 0, evictions: 0, expirations: 0 };
+  // File → size in bytes, least recently used first (see IMPLEMENTATION in cache.ts)
+  private files: Map<string, number> | null = null;
+  private scan: Promise<Map<string, number>> | null = null;
+  private totalBytes = 0;
+
+  constructor(options: FileCacheOptions = {}) {
+    this.directory = options.directory ?? path.join('.cache', 'customer-insights');
+    this.maxEntries = options.maxEntries ?? 5000;
+    this.maxBytes = options.maxBytes ?? 250 * 1024 * 1024; // 250 MB
+    this.clock = options.clock ?? systemClock;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const file = this.filePath(key);
+    const files = await this.loadFiles();
+    const entry = await this.readEntry(file);
+
+    if (!entry) {
+      this.counters.misses++;
+      return undefined;
+    }
+
+    if (entry.expiresAt <= this.clock.now()) {
+      await this.delete(key);
+      this.counters.expirations++;
+      this.counters.misses++;
+      return undefined;
+    }
+
+    // Mark as most recently used
+    const bytes = files.get(file);
+    if (bytes !== undefined) {
+      files.delete(file);
+      files.set(file, bytes);
+    }
+    this.counters.hits++;
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const files = await this.loadFiles();
+
+    const entry: FileEntry = { value, expiresAt: this.clock.now() + ttlMs };
+    const json = JSON.stringify(entry);
+    const bytes = Buffer.byteLength(json, 'utf8');
+    const target = this.filePath(key);
+
+    // A single value larger than the whole budget would evict everything - skip it
+    if (bytes > this.maxBytes) {
+      await this.removeFile(target);
+      return;
+    }
+
+    const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+    await writeFile(temp, json, 'utf8');
+    await rename(temp, target);
+    this.forget(target);
+    files.set(target, bytes);
+    this.totalBytes += bytes;
+
+    while (files.size > this.maxEntries || this.totalBytes > this.maxBytes) {
+      const oldest = files.keys().next().value as string;
+      await this.removeFile(oldest);
+      this.counters.evictions++;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.loadFiles();
+    await this.removeFile(this.filePath(key));
+  }
+
+  async clear(): Promise<void> {
+    await rm(this.directory, { recursive: true, force: true });
+    this.files = new Map();
+    this.scan = Promise.resolve(this.files);
+    this.totalBytes = 0;
+  }
+
+  /**
+   * Delete every expired entry (run periodically, e.g. on startup)
+   *
+   * Returns the number of files removed.
+   */
+  async prune(): Promise<number> {
+    let removed = 0;
+    for (const file of await this.listFiles()) {
+      const entry = await this.readEntry(file);
+      if (!entry || entry.expiresAt <= this.clock.now()) {
+        await this.removeFile(file);
+        removed++;
+      }
+    }
+    this.counters.expirations += removed;
+    return removed;
+  }
+
+  /**
+   * Counters are per process. entries/bytes are kept up to date by every
+   * set/delete, starting from a scan of the directory on first use - so
+   * they read 0 until the store has been used once.
+   */
+  stats(): CacheStats {
+    return { ...this.counters, entries: this.files?.size ?? 0, bytes: this.totalBytes };
+  }
+
+  /**
+   * Rescan the directory, e.g. when another process writes to it too
+   */
+  async refreshSizeStats(): Promise<CacheStats> {
+    this.scan = null;
+    await this.loadFiles();
+    return this.stats();
+  }
+
+  private filePath(key: string): string {
+    // Keys contain ":" (customerId:charges) - encode to a safe file name
+    return path.join(this.directory, `${encodeURIComponent(key)}.json`);
+  }
+
+  private async listFiles(): Promise<string[]> {
+    try {
+      const names = await readdir(this.directory);
+      return names.filter(name => name.endsWith('.json')).map(name => path.join(this.directory, name));
+    } catch {
+      return []; // Directory not created yet
+    }
+  }
+
+  /**
+   * Sizes of the files on disk, oldest (by mtime) first - scanned once
+   */
+  private loadFiles(): Promise<Map<string, number>> {
+    this.scan ??= (async () => {
+      const found = await Promise.all(
+        (await this.listFiles()).map(file =>
+          stat(file).then(
+            info => ({ file, size: info.size, modified: info.mtimeMs }),
+            () => null // Deleted since readdir
+          )
+        )
+      );
+      const existing = found
+        .filter(entry => entry !== null)
+        .sort((a, b) => a.modified - b.modified);
+
+      this.files = new Map(existing.map(({ file, size }) => [file, size]));
+      this.totalBytes = existing.reduce((sum, { size }) => sum + size, 0);
+      return this.files;
+    })();
+    return this.scan;
+  }
+
+  private async removeFile(file: string): Promise<void> {
+    await rm(file, { force: true });
+    this.forget(file);
+  }
+
+  private forget(file: string): void {
+    const bytes = this.files?.get(file);
+    if (bytes === undefined) return;
+    this.files!.delete(file);
+    this.totalBytes -= bytes;
+  }
+
+  private async readEntry(file: string): Promise<FileEntry | null> {
+    try {
+      return JSON.parse(await readFile(file, 'utf8')) as FileEntry;
+    } catch {
+      // Missing or corrupt file - treat as a miss
+      return null;
+    }
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * File-Backed Idempotency Store (App Backend Only)
+ *
+ * USE CASE: Remember processed webhook events across deploys/restarts, so a
+ * Stripe retry that lands after a restart isn't handled twice.
+ *
+ * LAYOUT: One JSON file per event id: { status, expiresAt }
+ *
+ * ATOMIC CLAIM: The record is created with open(..., 'wx') - exclusive
+ * create, which the OS guarantees succeeds for exactly one caller, even
+ * across processes sharing the directory.
+ *
+ * EXPIRED RECORDS (crashed worker's lease, or past the 30-day TTL) are taken
+ * over under a short-lived `.lock` file, also created with 'wx', so two
+ * retries can't both take over the same stale claim.
+ *
+ * UNREADABLE RECORDS: A crash between the exclusive create and the write
+ * leaves an empty (or partial) file. For a moment that's a claim being
+ * written; once it's older than the lease (by mtime) it's treated as an
+ * expired claim - otherwise the event would be locked out for good.
+ *
+ * NOT FOR: Multiple hosts (use a shared store with atomic inserts, e.g.
+ * Redis SET NX or a unique-keyed database table).
+ */
+
+import { mkdir, open, readFile, readdir, rename, rm, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { Clock, systemClock } from './clock';
+import {
+  DEFAULT_CLAIM_LEASE_MS,
+  DEFAULT_IDEMPOTENCY_TTL_MS,
+  IdempotencyOptions,
+  IdempotencyRecord,
+  IdempotencyStore,
+} from './idempotency';
+
+export interface FileIdempotencyOptions extends IdempotencyOptions {
+  directory?: string;
+}
+
+/**
+ * A takeover holds its lock for a few milliseconds; an older lock was left
+ * behind by a crash and is removed
+ */
+const STALE_LOCK_MS = 30 * 1000;
+
+/**
+ * NodeJS.ErrnoException for a file that isn't there - anything else (EACCES,
+ * EISDIR, EMFILE...) is a real failure and must not pass for "no record"
+ */
+function isMissing(error: unknown): boolean {
+  return error instanceof Error && 'code' in error && error.code === 'ENOENT';
+}
+
+export class FileIdempotencyStore implements IdempotencyStore {
+  private readonly directory: string;
+  private readonly ttlMs: number;
+  private readonly leaseMs: number;
+  private readonly clock: Clock;
+
+  constructor(options: FileIdempotencyOptions = {}) {
+    this.directory = options.directory ?? path.join('.data', 'webhook-events');
+    this.ttlMs = options.ttlMs ?? DEFAULT_IDEMPOTENCY_TTL_MS;
+    this.leaseMs = options.leaseMs ?? DEFAULT_CLAIM_LEASE_MS;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  async claim(eventId: string): Promise<boolean> {
+    await mkdir(this.directory, { recursive: true });
+    const file = this.filePath(eventId);
+
+    if (await this.createExclusive(file, this.processingRecord())) return true;
+    if (!(await this.isExpired(file))) return false;
+
+    return this.takeOver(file);
+  }
+
+  async complete(eventId: string): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await this.writeRecord(this.filePath(eventId), {
+      status: 'completed',
+      expiresAt: this.clock.now() + this.ttlMs,
+    });
+  }
+
+  async release(eventId: string): Promise<void> {
+    const file = this.filePath(eventId);
+    if ((await this.readRecord(file))?.status === 'processing') {
+      await rm(file, { force: true });
+    }
+  }
+
+  async isProcessed(eventId: string): Promise<boolean> {
+    const record = await this.readRecord(this.filePath(eventId));
+    return record?.status === 'completed' && record.expiresAt > this.clock.now();
+  }
+
+  /**
+   * Delete every expired record (run periodically, e.g. on startup)
+   *
+   * Returns the number of files removed.
+   */
+  async prune(): Promise<number> {
+    let removed = 0;
+    for (const file of await this.listFiles()) {
+      if (await this.isExpired(file)) {
+        await rm(file, { force: true });
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Replace an expired record with a fresh claim, at most one caller at a time
+   */
+  private async takeOver(file: string): Promise<boolean> {
+    const lock = `${file}.lock`;
+
+    if (!(await this.createExclusive(lock, null))) {
+      await this.removeStaleLock(lock);
+      return false; // Someone else is taking over; Stripe will retry us
+    }
+
+    try {
+      // Re-check under the lock: the record may have been completed or
+      // re-claimed since we read it
+      if (!(await this.isExpired(file))) return false;
+
+      await this.writeRecord(file, this.processingRecord());
+      return true;
+    } finally {
+      await rm(lock, { force: true });
+    }
+  }
+
+  /**
+   * Whether the record at `file` can be taken over or pruned
+   *
+   * false when it's live, or when there is no file at all.
+   */
+  private async isExpired(file: string): Promise<boolean> {
+    const record = await this.readRecord(file);
+    if (record) return record.expiresAt <= this.clock.now();
+
+    try {
+      // Unreadable: a claim still being written, or one abandoned by a crash
+      const { mtimeMs } = await stat(file);
+      return this.clock.now() - mtimeMs > this.leaseMs;
+    } catch (error: unknown) {
+      if (isMissing(error)) return false; // Released or pruned meanwhile
+      throw error;
+    }
+  }
+
+  private async removeStaleLock(lock: string): Promise<void> {
+    try {
+      const { mtimeMs } = await stat(lock);
+      if (this.clock.now() - mtimeMs > STALE_LOCK_MS) await rm(lock, { force: true });
+    } catch (error: unknown) {
+      if (!isMissing(error)) throw error; // Otherwise the lock was already released
+    }
+  }
+
+  private processingRecord(): IdempotencyRecord {
+    return { status: 'processing', expiresAt: this.clock.now() + this.leaseMs };
+  }
+
+  /**
+   * Create a file only if it doesn't exist yet - false if it does
+   */
+  private async createExclusive(file: string, record: IdempotencyRecord | null): Promise<boolean> {
+    try {
+      const handle = await open(file, 'wx');
+      try {
+        if (record) await handle.writeFile(JSON.stringify(record), 'utf8');
+      } finally {
+        await handle.close();
+      }
+      return true;
+    } catch (error: unknown) {
+      // NodeJS.ErrnoException
+      if (error instanceof Error && 'code' in error && error.code === 'EEXIST') return false;
+      throw error;
+    }
+  }
+
+  private async writeRecord(file: string, record: IdempotencyRecord): Promise<void> {
+    // Unique per write: two takeovers in one process can land in the same millisecond
+    const temp = `${file}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`;
+    await writeFile(temp, JSON.stringify(record), 'utf8');
+    await rename(temp, file);
+  }
+
+  private filePath(eventId: string): string {
+    return path.join(this.directory, `${encodeURIComponent(eventId)}.json`);
+  }
+
+  private async listFiles(): Promise<string[]> {
+    try {
+      const names = await readdir(this.directory);
+      return names.filter(name => name.endsWith('.json')).map(name => path.join(this.directory, name));
+    } catch (error: unknown) {
+      if (isMissing(error)) return []; // Directory not created yet
+      throw error;
+    }
+  }
+
+  private async readRecord(file: string): Promise<IdempotencyRecord | null> {
+    let contents: string;
+    try {
+      contents = await readFile(file, 'utf8');
+    } catch (error: unknown) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+
+    try {
+      return JSON.parse(contents) as IdempotencyRecord;
+    } catch {
+      return null; // Empty or partial: see UNREADABLE RECORDS
+    }
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * File-Backed Webhook Queue (App Backend Only)
+ *
+ * USE CASE: Events acknowledged to Stripe (200) must not be lost if the
+ * process restarts before the worker handles them.
+ *
+ * LAYOUT: One JSON file per event id, in two directories:
+ *   pending/      - waiting to be processed (or waiting for a retry)
+ *   dead-letter/  - gave up after maxAttempts, waiting for an operator
+ *
+ * CORRUPT FILES (not valid JSON - e.g. truncated by a full disk) can't be
+ * retried or replayed; they're moved to dead-letter/ as `<id>.json.corrupt`
+ * for an operator to inspect, rather than silently skipped forever.
+ *
+ * - enqueue() writes a temp file then link()s it into place: link fails if
+ *   the event is already queued, so duplicates are rejected atomically and
+ *   readers never see half a file
+ * - update() writes a temp file then rename()s it over the old one
+ * - sequence numbers continue from the highest one on disk (pending and
+ *   dead letters), read on the first enqueue after startup
+ *
+ * NOT FOR: Multiple backend instances (use a real queue, e.g. SQS).
+ */
+
+import { link, mkdir, readFile, readdir, rename, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { QueuedWebhookEvent, WebhookQueueStore, compareQueueEntries } from './webhookQueue';
+
+/**
+ * NodeJS.ErrnoException for a file or directory that isn't there
+ */
+function isMissing(error: unknown): boolean {
+  return error instanceof Error && 'code' in error && error.code === 'ENOENT';
+}
+
+export interface FileWebhookQueueOptions {
+  directory?: string;
+}
+
+export class FileWebhookQueueStore implements WebhookQueueStore {
+  private readonly pendingDirectory: string;
+  private readonly deadLetterDirectory: string;
+  private nextSequence: Promise<number> | null = null;
+
+  constructor(options: FileWebhookQueueOptions = {}) {
+    const directory = options.directory ?? path.join('.data', 'webhook-queue');
+    this.pendingDirectory = path.join(directory, 'pending');
+    this.deadLetterDirectory = path.join(directory, 'dead-letter');
+  }
+
+  async enqueue(entry: QueuedWebhookEvent): Promise<boolean> {
+    await mkdir(this.pendingDirectory, { recursive: true });
+
+    const target = this.filePath(this.pendingDirectory, entry.event.id);
+    const temp = this.tempPath(target);
+    const sequence = await this.takeSequence();
+    await writeFile(temp, JSON.stringify({ ...entry, sequence }), 'utf8');
+
+    try {
+      await link(temp, target);
+      return true;
+    } catch (error: unknown) {
+      // NodeJS.ErrnoException
+      if (error instanceof Error && 'code' in error && error.code === 'EEXIST') return false;
+      throw error;
+    } finally {
+      await rm(temp, { force: true });
+    }
+  }
+
+  async pending(): Promise<QueuedWebhookEvent[]> {
+    return (await this.readAll(this.pendingDirectory)).sort(compareQueueEntries);
+  }
+
+  async update(entry: QueuedWebhookEvent): Promise<void> {
+    await this.write(this.pendingDirectory, entry);
+  }
+
+  async remove(eventId: string): Promise<void> {
+    await rm(this.filePath(this.pendingDirectory, eventId), { force: true });
+  }
+
+  async moveToDeadLetter(entry: QueuedWebhookEvent): Promise<void> {
+    // Write the dead letter before removing the pending file, so a crash in
+    // between leaves the event in both places rather than in neither
+    await this.write(this.deadLetterDirectory, entry);
+    await this.remove(entry.event.id);
+  }
+
+  async deadLetters(): Promise<QueuedWebhookEvent[]> {
+    return (await this.readAll(this.deadLetterDirectory)).sort(compareQueueEntries);
+  }
+
+  async getDeadLetter(eventId: string): Promise<QueuedWebhookEvent | undefined> {
+    return (await this.readEntry(this.filePath(this.deadLetterDirectory, eventId))) ?? undefined;
+  }
+
+  async removeDeadLetter(eventId: string): Promise<void> {
+    await rm(this.filePath(this.deadLetterDirectory, eventId), { force: true });
+  }
+
+  /**
+   * Next sequence number; the chain of promises hands each caller its own
+   */
+  private takeSequence(): Promise<number> {
+    const previous =
+      this.nextSequence ??
+      Promise.all([this.readAll(this.pendingDirectory), this.readAll(this.deadLetterDirectory)]).then(
+        ([pending, dead]) => [...pending, ...dead].reduce((max, entry) => Math.max(max, entry.sequence), -1)
+      );
+    const taken = previous.then(sequence => sequence + 1);
+    this.nextSequence = taken;
+    return taken;
+  }
+
+  private async write(directory: string, entry: QueuedWebhookEvent): Promise<void> {
+    await mkdir(directory, { recursive: true });
+
+    const target = this.filePath(directory, entry.event.id);
+    const temp = this.tempPath(target);
+    await writeFile(temp, JSON.stringify(entry), 'utf8');
+    await rename(temp, target);
+  }
+
+  private filePath(directory: string, eventId: string): string {
+    return path.join(directory, `${encodeURIComponent(eventId)}.json`);
+  }
+
+  private tempPath(target: string): string {
+    return `${target}.${process.pid}.${Date.now()}.${Math.random().toString(36).slice(2)}.tmp`;
+  }
+
+  private async readAll(directory: string): Promise<QueuedWebhookEvent[]> {
+    let names: string[];
+    try {
+      names = await readdir(directory);
+    } catch (error: unknown) {
+      if (isMissing(error)) return []; // Directory not created yet
+      throw error;
+    }
+
+    const entries = await Promise.all(
+      names.filter(name => name.endsWith('.json')).map(name => this.readEntry(path.join(directory, name)))
+    );
+    return entries.filter((entry): entry is QueuedWebhookEvent => entry !== null);
+  }
+
+  private async readEntry(file: string): Promise<QueuedWebhookEvent | null> {
+    let contents: string;
+    try {
+      contents = await readFile(file, 'utf8');
+    } catch (error: unknown) {
+      if (isMissing(error)) return null; // Removed by the worker while listing
+      throw error;
+    }
+
+    try {
+      return JSON.parse(contents) as QueuedWebhookEvent;
+    } catch (error: unknown) {
+      if (!(error instanceof SyntaxError)) throw error;
+      await this.quarantine(file, error);
+      return null;
+    }
+  }
+
+  /**
+   * Move a corrupt file out of the way, into dead-letter/ under a name that
+   * readAll() skips
+   */
+  private async quarantine(file: string, error: SyntaxError): Promise<void> {
+    console.error(`Corrupt webhook queue file ${file}, moving it to the dead-letter store:`, error);
+    await mkdir(this.deadLetterDirectory, { recursive: true });
+    try {
+      await rename(file, path.join(this.deadLetterDirectory, `${path.basename(file)}.corrupt`));
+    } catch (renameError: unknown) {
+      if (!isMissing(renameError)) throw renameError; // Otherwise already moved by a concurrent read
+    }
+  }
+}
@@ -0,0 +1,168 @@
+import { mkdir, mkdtemp, rm, utimes, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { Clock } from './clock';
+import { FileIdempotencyStore } from './fileIdempotencyStore';
+import { DEFAULT_IDEMPOTENCY_TTL_MS, IdempotencyOptions, IdempotencyStore, InMemoryIdempotencyStore } from './idempotency';
+
+function createFakeClock(): Clock & { advance(ms: number): void } {
+  let now = 0;
+  return {
+    now: () => now,
+    sleep: async ms => {
+      now += ms;
+    },
+    advance: ms => {
+      now += ms;
+    },
+  };
+}
+
+const directories: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(directories.splice(0).map(dir => rm(dir, { recursive: true, force: true })));
+});
+
+const implementations: Array<[string, (options: IdempotencyOptions) => Promise<IdempotencyStore>]> = [
+  ['InMemoryIdempotencyStore', async options => new InMemoryIdempotencyStore(options)],
+  [
+    'FileIdempotencyStore',
+    async options => {
+      const directory = await mkdtemp(path.join(os.tmpdir(), 'idempotency-'));
+      directories.push(directory);
+      return new FileIdempotencyStore({ ...options, directory });
+    },
+  ],
+];
+
+describe.each(implementations)('%s', (_name, createStore) => {
+  it('lets exactly one of several concurrent deliveries claim an event', async () => {
+    const store = await createStore({});
+
+    const claims = await Promise.all(Array.from({ length: 5 }, () => store.claim('evt_1')));
+
+    expect(claims.filter(Boolean)).toHaveLength(1);
+  });
+
+  it('rejects claims for completed events until the TTL expires', async () => {
+    const clock = createFakeClock();
+    const store = await createStore({ clock });
+
+    expect(await store.claim('evt_1')).toBe(true);
+    await store.complete('evt_1');
+    expect(await store.isProcessed('evt_1')).toBe(true);
+    expect(await store.claim('evt_1')).toBe(false);
+
+    clock.advance(DEFAULT_IDEMPOTENCY_TTL_MS);
+    expect(await store.isProcessed('evt_1')).toBe(false);
+    expect(await store.claim('evt_1')).toBe(true);
+  });
+
+  it('allows a retry to claim after the handler failed and released', async () => {
+    const store = await createStore({});
+
+    expect(await store.claim('evt_1')).toBe(true);
+    await store.release('evt_1');
+
+    expect(await store.claim('evt_1')).toBe(true);
+  });
+
+  it('lets a retry take over a claim whose lease expired (crashed worker)', async () => {
+    const clock = createFakeClock();
+    const store = await createStore({ clock, leaseMs: 1000 });
+
+    expect(await store.claim('evt_1')).toBe(true);
+    clock.advance(500);
+    expect(await store.claim('evt_1')).toBe(false);
+
+    clock.advance(500);
+    expect(await store.claim('evt_1')).toBe(true);
+  });
+
+  it('prunes expired records', async () => {
+    const clock = createFakeClock();
+    const store = await createStore({ clock, ttlMs: 1000 });
+
+    await store.claim('evt_1');
+    await store.complete('evt_1');
+    clock.advance(1000);
+    await store.claim('evt_2');
+    await store.complete('evt_2');
+
+    expect(await store.prune()).toBe(1);
+    expect(await store.isProcessed('evt_2')).toBe(true);
+  });
+});
+
+describe('FileIdempotencyStore', () => {
+  it('remembers processed events across instances (restarts)', async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), 'idempotency-'));
+    directories.push(directory);
+
+    const before = new FileIdempotencyStore({ directory });
+    await before.claim('evt_1');
+    await before.complete('evt_1');
+
+    const after = new FileIdempotencyStore({ directory });
+    expect(await after.isProcessed('evt_1')).toBe(true);
+    expect(await after.claim('evt_1')).toBe(false);
+  });
+
+  it('takes over a claim left unwritten by a crash once it is older than the lease', async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), 'idempotency-'));
+    directories.push(directory);
+    const store = new FileIdempotencyStore({ directory, leaseMs: 60_000 });
+    // Created with 'wx', then the process died before writing the record
+    const orphan = path.join(directory, 'evt_crashed.json');
+    await writeFile(orphan, '', 'utf8');
+
+    // Could still be a claim being written
+    expect(await store.claim('evt_crashed')).toBe(false);
+    expect(await store.prune()).toBe(0);
+
+    const pastLease = new Date(Date.now() - 2 * 60_000);
+    await utimes(orphan, pastLease, pastLease);
+    expect(await store.claim('evt_crashed')).toBe(true);
+    expect(await store.isProcessed('evt_crashed')).toBe(false);
+  });
+
+  it('prunes unreadable records older than the lease', async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), 'idempotency-'));
+    directories.push(directory);
+    const store = new FileIdempotencyStore({ directory, leaseMs: 60_000 });
+    const orphan = path.join(directory, 'evt_corrupt.json');
+    await writeFile(orphan, '{"status":"proc', 'utf8');
+    const pastLease = new Date(Date.now() - 2 * 60_000);
+    await utimes(orphan, pastLease, pastLease);
+
+    expect(await store.prune()).toBe(1);
+    expect(await store.claim('evt_corrupt')).toBe(true);
+  });
+
+  it('ages unreadable records by the injected clock', async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), 'idempotency-'));
+    directories.push(directory);
+    const clock = createFakeClock();
+    clock.advance(Date.now());
+    const store = new FileIdempotencyStore({ directory, leaseMs: 60_000, clock });
+    await writeFile(path.join(directory, 'evt_crashed.json'), '', 'utf8');
+
+    expect(await store.claim('evt_crashed')).toBe(false);
+
+    clock.advance(2 * 60_000);
+    expect(await store.claim('evt_crashed')).toBe(true);
+  });
+
+  it('surfaces read failures other than a missing file instead of treating them as no record', async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), 'idempotency-'));
+    directories.push(directory);
+    const store = new FileIdempotencyStore({ directory });
+    // readFile fails with EISDIR
+    await mkdir(path.join(directory, 'evt_unreadable.json'));
+
+    await expect(store.claim('evt_unreadable')).rejects.toThrow(/EISDIR/);
+    await expect(store.isProcessed('evt_unreadable')).rejects.toThrow(/EISDIR/);
+  });
+});
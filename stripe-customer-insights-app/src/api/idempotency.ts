@@ -0,0 +1,112 @@
+/**
+ * Idempotency Store for Webhook Events
+ *
+ * INTERVIEW TOPIC: "Stripe delivers a webhook twice. What happens?"
+ *
+ * STRIPE GUARANTEE: At-least-once delivery. The same event can arrive
+ * - again after a timeout or 5xx (retry)
+ * - twice at the same time (rare, but it happens)
+ * - again after our deploy/restart wiped in-memory state
+ *
+ * CLAIM SEMANTICS (atomic):
+ *   claim(id)    → true for exactly ONE caller; everyone else gets false
+ *   complete(id) → remember as processed for `ttlMs` (default 30 days)
+ *   release(id)  → processing failed, let Stripe's retry claim it again
+ *
+ * A claim is a lease: if the process dies mid-handler, the claim expires
+ * after `leaseMs` and a retry can take over.
+ *
+ * IMPLEMENTATIONS:
+ * - InMemoryIdempotencyStore: tests and single-process development
+ * - FileIdempotencyStore (./fileIdempotencyStore.ts): durable, survives restarts
+ */
+
+import { Clock, systemClock } from './clock';
+
+/**
+ * Stripe retries for up to 3 days; 30 days leaves a wide safety margin
+ * (and matches how long Stripe keeps events retrievable)
+ */
+export const DEFAULT_IDEMPOTENCY_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Stripe expects a response within ~30s; a claim older than this is
+ * assumed to belong to a crashed worker
+ */
+export const DEFAULT_CLAIM_LEASE_MS = 5 * 60 * 1000;
+
+export interface IdempotencyStore {
+  claim(eventId: string): Promise<boolean>;
+  complete(eventId: string): Promise<void>;
+  release(eventId: string): Promise<void>;
+  isProcessed(eventId: string): Promise<boolean>;
+  prune(): Promise<number>;
+}
+
+export interface IdempotencyOptions {
+  ttlMs?: number;
+  leaseMs?: number;
+  clock?: Clock;
+}
+
+/**
+ * Stored state for one event
+ */
+export interface IdempotencyRecord {
+  status: 'processing' | 'completed';
+  expiresAt: number; // Lease end while processing, TTL end once completed
+}
+
+/**
+ * In-memory implementation
+ *
+ * ATOMICITY: claim() checks and writes without awaiting in between, so
+ * JavaScript's single thread makes it atomic within one process.
+ */
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private readonly records = new Map<string, IdempotencyRecord>();
+  private readonly ttlMs: number;
+  private readonly leaseMs: number;
+  private readonly clock: Clock;
+
+  constructor(options: IdempotencyOptions = {}) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_IDEMPOTENCY_TTL_MS;
+    this.leaseMs = options.leaseMs ?? DEFAULT_CLAIM_LEASE_MS;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  async claim(eventId: string): Promise<boolean> {
+    const existing = this.records.get(eventId);
+    if (existing && existing.expiresAt > this.clock.now()) return false;
+
+    this.records.set(eventId, { status: 'processing', expiresAt: this.clock.now() + this.leaseMs });
+    return true;
+  }
+
+  async complete(eventId: string): Promise<void> {
+    this.records.set(eventId, { status: 'completed', expiresAt: this.clock.now() + this.ttlMs });
+  }
+
+  async release(eventId: string): Promise<void> {
+    if (this.records.get(eventId)?.status === 'processing') {
+      this.records.delete(eventId);
+    }
+  }
+
+  async isProcessed(eventId: string): Promise<boolean> {
+    const record = this.records.get(eventId);
+    return record?.status === 'completed' && record.expiresAt > this.clock.now();
+  }
+
+  async prune(): Promise<number> {
+    const now = this.clock.now();
+    let removed = 0;
+    this.records.forEach((record, eventId) => {
+      if (record.expiresAt <= now) {
+        this.records.delete(eventId);
+        removed++;
+      }
+    });
+    return removed;
+  }
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it, vi } from 'vitest';
+import Stripe from 'stripe';
+import { ListPageParams, PageInfo, paginateList } from './pagination';
+
+interface Item {
+  id: string;
+}
+
+const ITEMS: Item[] = Array.from({ length: 7 }, (_, index) => ({ id: `obj_${index + 1}` }));
+
+// A list endpoint over `items`, honoring limit and starting_after like Stripe does
+function fakeList(items: Item[] = ITEMS) {
+  return vi.fn(async (params: ListPageParams): Promise<Stripe.ApiList<Item>> => {
+    const start = params.starting_after ? items.findIndex(item => item.id === params.starting_after) + 1 : 0;
+    const data = items.slice(start, start + params.limit);
+    return { object: 'list', data, has_more: start + data.length < items.length, url: '' };
+  });
+}
+
+describe('paginateList', () => {
+  it('follows the cursor to the end of the list', async () => {
+    const listPage = fakeList();
+
+    const result = await paginateList(listPage, { pageSize: 3 });
+
+    expect(result).toEqual({ items: ITEMS, truncated: false, pagesFetched: 3 });
+    expect(listPage.mock.calls.map(([params]) => params.starting_after)).toEqual([undefined, 'obj_3', 'obj_6']);
+  });
+
+  it('stops at the item budget without downloading past it', async () => {
+    const listPage = fakeList();
+
+    const result = await paginateList(listPage, { pageSize: 3, maxItems: 4 });
+
+    expect(result.items.map(item => item.id)).toEqual(['obj_1', 'obj_2', 'obj_3', 'obj_4']);
+    expect(result.truncated).toBe(true);
+    // The second page only asks for the 1 item left in the budget
+    expect(listPage.mock.calls.map(([params]) => params.limit)).toEqual([3, 1]);
+  });
+
+  it('stops at the page budget', async () => {
+    const result = await paginateList(fakeList(), { pageSize: 2, maxPages: 2 });
+
+    expect(result).toMatchObject({ truncated: true, pagesFetched: 2 });
+    expect(result.items).toHaveLength(4);
+  });
+
+  it('is not truncated when the budget ends exactly at the end of the list', async () => {
+    const result = await paginateList(fakeList(), { maxItems: ITEMS.length });
+
+    expect(result).toMatchObject({ truncated: false, pagesFetched: 1 });
+  });
+
+  it('clamps the page size to what Stripe allows', async () => {
+    const listPage = fakeList();
+
+    await paginateList(listPage, { pageSize: 500 });
+    await paginateList(listPage, { pageSize: 0 });
+
+    expect(listPage.mock.calls[0][0].limit).toBe(100);
+    expect(listPage.mock.calls[1][0].limit).toBe(1);
+  });
+
+  it('passes the created window only when one is set', async () => {
+    const listPage = fakeList();
+
+    await paginateList(listPage, { created: { gte: 1000 } });
+    await paginateList(listPage);
+
+    expect(listPage.mock.calls[0][0]).toMatchObject({ created: { gte: 1000 } });
+    expect(listPage.mock.calls[1][0]).not.toHaveProperty('created');
+  });
+
+  it('stops on an empty page even if has_more is set', async () => {
+    const listPage = vi.fn(async () => ({ object: 'list' as const, data: [], has_more: true, url: '' }));
+
+    const result = await paginateList<Item>(listPage);
+
+    expect(result).toEqual({ items: [], truncated: false, pagesFetched: 1 });
+    expect(listPage).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports each page and waits for the callback before the next one', async () => {
+    const events: string[] = [];
+    const listPage = vi.fn(async (params: ListPageParams) => {
+      events.push(`fetch ${params.starting_after ?? 'start'}`);
+      return fakeList()(params);
+    });
+    const onPage = async (page: PageInfo<Item>) => {
+      await Promise.resolve();
+      events.push(`page ${page.pageNumber}: ${page.items.length} items, ${page.totalItems} total`);
+    };
+
+    await paginateList(listPage, { pageSize: 4, onPage });
+
+    expect(events).toEqual([
+      'fetch start',
+      'page 1: 4 items, 4 total',
+      'fetch obj_4',
+      'page 2: 3 items, 7 total',
+    ]);
+  });
+
+  it('stops requesting pages once the signal is aborted', async () => {
+    const controller = new AbortController();
+    const listPage = fakeList();
+
+    const result = paginateList(listPage, {
+      pageSize: 2,
+      signal: controller.signal,
+      onPage: () => controller.abort(),
+    });
+
+    await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+    expect(listPage).toHaveBeenCalledTimes(1);
+  });
+});
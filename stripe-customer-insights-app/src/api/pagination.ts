@@ -0,0 +1,105 @@
+/**
+ * Generic Auto-Pagination for Stripe List Endpoints
+ *
+ * STRIPE API DETAIL: Every list endpoint (charges, invoices, customers, ...)
+ * uses the same cursor scheme:
+ * - Request up to `limit` (max 100) objects
+ * - Response includes `has_more`
+ * - Pass the last object's id as `starting_after` to get the next page
+ *
+ * WHY A SHARED HELPER?
+ * - One loop instead of a copy per resource
+ * - Budgets (max items / pages) so a customer with 100,000 charges can't
+ *   stall the dashboard or exhaust memory
+ * - `created` windows ("last 12 months only")
+ * - Cancellation via AbortSignal when the user navigates away
+ * - Per-page callback for progress UIs
+ */
+
+import Stripe from 'stripe';
+
+/**
+ * Parameters the paginator adds to every list request
+ */
+export interface ListPageParams {
+  limit: number;
+  starting_after?: string;
+  created?: Stripe.RangeQueryParam | number;
+}
+
+/**
+ * A single list call, e.g. `params => stripe.charges.list({ customer, ...params })`
+ */
+export type ListPageFn<T> = (params: ListPageParams) => Promise<Stripe.ApiList<T>>;
+
+export interface PageInfo<T> {
+  items: T[];
+  pageNumber: number; // 1-based
+  totalItems: number; // Items collected so far, including this page
+}
+
+export interface PaginateOptions<T> {
+  pageSize?: number; // 1-100, defaults to 100 (Stripe's max)
+  maxItems?: number;
+  maxPages?: number;
+  created?: Stripe.RangeQueryParam | number;
+  signal?: AbortSignal;
+  // Awaited before the next page is requested, so async callbacks apply backpressure
+  onPage?: (page: PageInfo<T>) => void | Promise<void>;
+}
+
+export interface PaginatedResult<T> {
+  items: T[];
+  truncated: boolean; // true when a budget stopped us before the end of the list
+  pagesFetched: number;
+}
+
+const STRIPE_MAX_PAGE_SIZE = 100;
+
+/**
+ * Walk a Stripe list endpoint until it's exhausted or a budget is hit
+ *
+ * CANCELLATION: Throws the signal's abort reason (an AbortError by default)
+ * before requesting the next page once the signal is aborted.
+ */
+export async function paginateList<T extends { id: string }>(
+  listPage: ListPageFn<T>,
+  options: PaginateOptions<T> = {}
+): Promise<PaginatedResult<T>> {
+  const { maxItems = Infinity, maxPages = Infinity, created, signal, onPage } = options;
+  const pageSize = Math.min(Math.max(options.pageSize ?? STRIPE_MAX_PAGE_SIZE, 1), STRIPE_MAX_PAGE_SIZE);
+
+  const items: T[] = [];
+  let pagesFetched = 0;
+  let hasMore = true;
+  let startingAfter: string | undefined;
+
+  while (hasMore && items.length < maxItems && pagesFetched < maxPages) {
+    signal?.throwIfAborted();
+
+    const response = await listPage({
+      // Don't download more than the remaining item budget
+      limit: Math.min(pageSize, maxItems - items.length),
+      starting_after: startingAfter,
+      ...(created !== undefined && { created }),
+    });
+    pagesFetched++;
+
+    items.push(...response.data);
+    hasMore = response.has_more;
+    if (response.data.length > 0) {
+      startingAfter = response.data[response.data.length - 1].id;
+    } else {
+      // Defensive: an empty page with has_more would loop forever
+      hasMore = false;
+    }
+
+    await onPage?.({ items: response.data, pageNumber: pagesFetched, totalItems: items.length });
+  }
+
+  return {
+    items,
+    truncated: hasMore,
+    pagesFetched,
+  };
+}
@@ -0,0 +1,196 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Clock, systemClock } from './clock';
+import {
+  ConcurrencyLimiter,
+  RetryPolicy,
+  computeBackoffDelay,
+  getRetryAfterMs,
+  isRetryableStripeError,
+  withRetry,
+} from './retry';
+
+function createFakeClock(): Clock & { sleeps: number[] } {
+  let now = 0;
+  const sleeps: number[] = [];
+  return {
+    sleeps,
+    now: () => now,
+    sleep: async ms => {
+      sleeps.push(ms);
+      now += ms;
+    },
+  };
+}
+
+const policy: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 100,
+  maxDelayMs: 1000,
+  random: () => 0.5,
+};
+
+function stripeError(type: string, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(type), { type, headers });
+}
+
+describe('isRetryableStripeError', () => {
+  it('retries rate limits, connection errors and API errors', () => {
+    expect(isRetryableStripeError(stripeError('StripeRateLimitError'))).toBe(true);
+    expect(isRetryableStripeError(stripeError('StripeConnectionError'))).toBe(true);
+    expect(isRetryableStripeError(stripeError('StripeAPIError'))).toBe(true);
+  });
+
+  it('does not retry client errors', () => {
+    expect(isRetryableStripeError(stripeError('StripeInvalidRequestError'))).toBe(false);
+    expect(isRetryableStripeError(stripeError('StripeAuthenticationError'))).toBe(false);
+  });
+
+  it('lets the Stripe-Should-Retry header override the error type', () => {
+    expect(
+      isRetryableStripeError(stripeError('StripeAPIError', { 'stripe-should-retry': 'false' }))
+    ).toBe(false);
+    expect(
+      isRetryableStripeError(stripeError('StripeInvalidRequestError', { 'stripe-should-retry': 'true' }))
+    ).toBe(true);
+  });
+
+  it('falls back to the HTTP status for errors without a known type', () => {
+    expect(isRetryableStripeError(Object.assign(new Error('Bad gateway'), { statusCode: 502 }))).toBe(true);
+    expect(isRetryableStripeError(Object.assign(new Error('Too many'), { statusCode: 429 }))).toBe(true);
+    expect(isRetryableStripeError(Object.assign(new Error('Not found'), { statusCode: 404 }))).toBe(false);
+  });
+
+  it('does not retry values that are not errors', () => {
+    expect(isRetryableStripeError(undefined)).toBe(false);
+    expect(isRetryableStripeError('StripeAPIError')).toBe(false);
+  });
+});
+
+describe('getRetryAfterMs', () => {
+  it('converts seconds to milliseconds', () => {
+    expect(getRetryAfterMs(stripeError('StripeRateLimitError', { 'retry-after': '2' }))).toBe(2000);
+  });
+
+  it('returns null when the header is missing or invalid', () => {
+    expect(getRetryAfterMs(stripeError('StripeRateLimitError'))).toBeNull();
+    expect(getRetryAfterMs(stripeError('StripeRateLimitError', { 'retry-after': 'soon' }))).toBeNull();
+    expect(getRetryAfterMs(null)).toBeNull();
+  });
+});
+
+describe('computeBackoffDelay', () => {
+  it('grows exponentially and is capped at maxDelayMs', () => {
+    const maxJitter = { ...policy, random: () => 0.999999 };
+    expect(computeBackoffDelay(1, maxJitter)).toBe(99);
+    expect(computeBackoffDelay(2, maxJitter)).toBe(199);
+    expect(computeBackoffDelay(3, maxJitter)).toBe(399);
+    expect(computeBackoffDelay(10, maxJitter)).toBe(999);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries transient failures with jittered backoff', async () => {
+    const clock = createFakeClock();
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(stripeError('StripeRateLimitError'))
+      .mockRejectedValueOnce(stripeError('StripeConnectionError'))
+      .mockResolvedValue('ok');
+
+    await expect(withRetry(operation, policy, clock)).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(clock.sleeps).toEqual([50, 100]);
+  });
+
+  it('waits at least as long as Retry-After', async () => {
+    const clock = createFakeClock();
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(stripeError('StripeRateLimitError', { 'retry-after': '0.75' }))
+      .mockResolvedValue('ok');
+
+    await withRetry(operation, policy, clock);
+    expect(clock.sleeps).toEqual([750]);
+  });
+
+  it('fails fast when Retry-After exceeds maxDelayMs', async () => {
+    const clock = createFakeClock();
+    const error = stripeError('StripeRateLimitError', { 'retry-after': '30' });
+    const operation = vi.fn().mockRejectedValue(error);
+
+    await expect(withRetry(operation, policy, clock)).rejects.toBe(error);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('rethrows the last error after maxAttempts', async () => {
+    const clock = createFakeClock();
+    const error = stripeError('StripeAPIError');
+    const operation = vi.fn().mockRejectedValue(error);
+
+    await expect(withRetry(operation, policy, clock)).rejects.toBe(error);
+    expect(operation).toHaveBeenCalledTimes(4);
+    expect(clock.sleeps).toHaveLength(3);
+  });
+
+  it('does not retry non-retryable errors', async () => {
+    const clock = createFakeClock();
+    const operation = vi.fn().mockRejectedValue(stripeError('StripeInvalidRequestError'));
+
+    await expect(withRetry(operation, policy, clock)).rejects.toThrow();
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(clock.sleeps).toEqual([]);
+  });
+
+  it('stops waiting for the next attempt when the signal aborts', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const controller = new AbortController();
+    const operation = vi.fn().mockRejectedValue(stripeError('StripeRateLimitError'));
+    const slowPolicy = { ...policy, baseDelayMs: 60_000, maxDelayMs: 60_000 };
+
+    const result = withRetry(operation, slowPolicy, systemClock, controller.signal);
+    await new Promise(resolve => setTimeout(resolve, 0)); // Now in the 30s backoff sleep
+    const started = Date.now();
+    controller.abort(new Error('Unmounted'));
+
+    await expect(result).rejects.toThrow('Unmounted');
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry once the signal has aborted, whatever the clock', async () => {
+    const clock = createFakeClock();
+    const controller = new AbortController();
+    const operation = vi.fn().mockImplementation(async () => {
+      controller.abort(new Error('Unmounted'));
+      throw stripeError('StripeConnectionError');
+    });
+
+    await expect(withRetry(operation, policy, clock, controller.signal)).rejects.toThrow('Unmounted');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('ConcurrencyLimiter', () => {
+  it('never runs more than maxConcurrent tasks at once', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    let running = 0;
+    let peak = 0;
+
+    const task = async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      running--;
+    };
+
+    await Promise.all(Array.from({ length: 6 }, () => limiter.run(task)));
+    expect(peak).toBe(2);
+    expect(limiter.activeCount).toBe(0);
+  });
+
+  it('releases the slot when a task fails', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    await expect(limiter.run(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    await expect(limiter.run(() => Promise.resolve('next'))).resolves.toBe('next');
+  });
+});
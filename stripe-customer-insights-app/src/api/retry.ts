@@ -0,0 +1,178 @@
+/**
+ * Retry Policy & Concurrency Limiting for Stripe API Calls
+ *
+ * INTERVIEW TOPIC: Reliability Engineering (client side)
+ *
+ * PROBLEM: fetchCustomerData fans out into several paginated lists in
+ * parallel. One 429 (rate limit) or dropped connection used to fail the
+ * whole dashboard.
+ *
+ * SOLUTION:
+ * 1. Retry only errors that are safe and likely to succeed later
+ *    (rate limits, connection errors, Stripe 5xx) - reads are idempotent
+ * 2. Exponential backoff with "full jitter" so parallel requests that failed
+ *    together don't all retry at the same instant (thundering herd)
+ * 3. Honor Retry-After when Stripe tells us how long to wait
+ * 4. Cap total attempts so the UI eventually shows an error
+ * 5. Share one concurrency limiter across all requests, so fewer requests
+ *    hit the rate limit in the first place
+ *
+ * TESTABILITY: Time is injected through a Clock, randomness through
+ * policy.random - tests run instantly and deterministically.
+ */
+
+import { Clock, systemClock } from './clock';
+
+export interface RetryPolicy {
+  maxAttempts: number; // Including the first attempt
+  baseDelayMs: number; // Backoff before the 1st retry (before jitter)
+  maxDelayMs: number; // Cap on any single wait, including Retry-After
+  random: () => number; // [0, 1) - injectable for deterministic tests
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  random: Math.random,
+};
+
+/**
+ * Stripe error types worth retrying
+ *
+ * NOT retried: card errors, invalid requests, auth/permission errors -
+ * repeating those gives the same answer.
+ */
+const RETRYABLE_ERROR_TYPES = new Set([
+  'StripeRateLimitError',
+  'StripeConnectionError',
+  'StripeAPIError',
+]);
+
+/**
+ * Decide whether a failed request should be retried
+ *
+ * Stripe also sends a `Stripe-Should-Retry` header, which wins when present.
+ */
+export function isRetryableStripeError(error: unknown): boolean {
+  const shouldRetry = errorHeader(error, 'stripe-should-retry');
+  if (shouldRetry === 'true') return true;
+  if (shouldRetry === 'false') return false;
+
+  if (!isObject(error)) return false;
+  if ('type' in error && typeof error.type === 'string' && RETRYABLE_ERROR_TYPES.has(error.type)) return true;
+  if (!('statusCode' in error) || typeof error.statusCode !== 'number') return false;
+  return error.statusCode === 429 || error.statusCode >= 500;
+}
+
+/**
+ * Read the Retry-After header (seconds) as milliseconds
+ */
+export function getRetryAfterMs(error: unknown): number | null {
+  const header = errorHeader(error, 'retry-after');
+  if (typeof header !== 'string' && typeof header !== 'number') return null;
+  if (header === '') return null;
+
+  const seconds = Number(header);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : null;
+}
+
+function isObject(value: unknown): value is object {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * A response header from a Stripe error (StripeError.headers, lowercase names)
+ */
+function errorHeader(error: unknown, name: string): unknown {
+  if (!isObject(error) || !('headers' in error) || !isObject(error.headers)) return undefined;
+  return (error.headers as Record<string, unknown>)[name];
+}
+
+/**
+ * Backoff before retry number `retry` (1 = first retry)
+ *
+ * Full jitter: random value in [0, min(maxDelay, base * 2^(retry-1)))
+ */
+export function computeBackoffDelay(retry: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+  return Math.floor(policy.random() * ceiling);
+}
+
+/**
+ * Run an operation, retrying transient failures according to the policy
+ *
+ * On final failure the LAST error is rethrown unchanged, so callers can
+ * still map it with handleStripeError.
+ *
+ * CANCELLATION: An aborted signal ends the backoff sleep early and rejects
+ * with the signal's reason, instead of waiting out the delay first.
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  clock: Clock = systemClock,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !isRetryableStripeError(error)) throw error;
+
+      const retryAfterMs = getRetryAfterMs(error);
+      // Server asked for a longer pause than we're willing to block the UI for
+      if (retryAfterMs !== null && retryAfterMs > policy.maxDelayMs) throw error;
+
+      const delayMs = Math.max(retryAfterMs ?? 0, computeBackoffDelay(attempt, policy));
+      console.warn(
+        `Stripe request failed (attempt ${attempt}/${policy.maxAttempts}), retrying in ${delayMs}ms`
+      );
+      signal?.throwIfAborted();
+      await clock.sleep(delayMs, signal);
+      signal?.throwIfAborted(); // For clocks that don't watch the signal
+    }
+  }
+}
+
+/**
+ * Concurrency limiter (counting semaphore)
+ *
+ * Caps how many Stripe requests are in flight at once across ALL callers.
+ * Tasks beyond the limit wait in FIFO order.
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private readonly waiting: Array<() => void> = [];
+
+  constructor(private readonly maxConcurrent: number) {
+    if (maxConcurrent < 1) {
+      throw new Error('maxConcurrent must be at least 1');
+    }
+  }
+
+  get activeCount(): number {
+    return this.active;
+  }
+
+  get pendingCount(): number {
+    return this.waiting.length;
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active < this.maxConcurrent) {
+      this.active++;
+    } else {
+      // The finishing task hands its slot straight to us (active stays the same)
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) next();
+      else this.active--;
+    }
+  }
+}
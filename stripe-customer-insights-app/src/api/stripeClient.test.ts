@@ -0,0 +1,360 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import Stripe from 'stripe';
+import {
+  configureStripeClient,
+  fetchCustomerData,
+  fetchCustomerDataWithCache,
+  getCacheStats,
+  invalidateCache,
+  patchCachedCustomerData,
+} from './stripeClient';
+import { Clock } from './clock';
+
+const emptyList = { object: 'list', data: [], has_more: false, url: '' };
+
+function createFakeStripe(overrides: Record<string, any> = {}) {
+  return {
+    customers: {
+      retrieve: vi.fn().mockResolvedValue({ id: 'cus_123', object: 'customer' }),
+      list: vi.fn().mockResolvedValue(emptyList),
+      listPaymentMethods: vi.fn().mockResolvedValue(emptyList),
+    },
+    charges: { list: vi.fn().mockResolvedValue(emptyList) },
+    paymentIntents: { list: vi.fn().mockResolvedValue(emptyList) },
+    subscriptions: { list: vi.fn().mockResolvedValue(emptyList) },
+    invoices: { list: vi.fn().mockResolvedValue(emptyList) },
+    disputes: { list: vi.fn().mockResolvedValue(emptyList) },
+    prices: { retrieve: vi.fn() },
+    ...overrides,
+  };
+}
+
+const instantClock: Clock = { now: () => 0, sleep: async () => {} };
+
+function rateLimitError() {
+  return Object.assign(new Error('Too many requests'), { type: 'StripeRateLimitError', headers: {} });
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  configureStripeClient();
+});
+
+describe('fetchCustomerData', () => {
+  it('recovers from a rate limit on one of the parallel lists', async () => {
+    const charge = { id: 'ch_1', amount: 1000, currency: 'usd' };
+    const fake = createFakeStripe({
+      charges: {
+        list: vi
+          .fn()
+          .mockRejectedValueOnce(rateLimitError())
+          .mockResolvedValue({ ...emptyList, data: [charge] }),
+      },
+    });
+    configureStripeClient({ stripe: fake as unknown as Stripe, clock: instantClock });
+
+    const data = await fetchCustomerData('cus_123');
+
+    expect(data.charges).toEqual([charge]);
+    expect(fake.charges.list).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails after the retry budget is exhausted', async () => {
+    const fake = createFakeStripe({
+      invoices: { list: vi.fn().mockRejectedValue(rateLimitError()) },
+    });
+    configureStripeClient({
+      stripe: fake as unknown as Stripe,
+      clock: instantClock,
+      retryPolicy: { maxAttempts: 3 },
+    });
+
+    await expect(fetchCustomerData('cus_123')).rejects.toThrow(
+      'Failed to fetch data for customer cus_123'
+    );
+    expect(fake.invoices.list).toHaveBeenCalledTimes(3);
+  });
+
+  it('lists disputes only for disputed charges', async () => {
+    const charges = [
+      { id: 'ch_2', created: 2, disputed: true },
+      { id: 'ch_1', created: 1, disputed: false },
+    ];
+    const dispute = { id: 'dp_1', object: 'dispute', charge: 'ch_2', created: 3, status: 'needs_response' };
+    const fake = createFakeStripe({
+      charges: { list: vi.fn().mockResolvedValue({ ...emptyList, data: charges }) },
+      disputes: { list: vi.fn().mockResolvedValue({ ...emptyList, data: [dispute] }) },
+    });
+    configureStripeClient({ stripe: fake as unknown as Stripe });
+
+    const data = await fetchCustomerData('cus_123');
+
+    expect(data.disputes).toEqual([dispute]);
+    expect(fake.disputes.list).toHaveBeenCalledTimes(1);
+    expect(fake.disputes.list).toHaveBeenCalledWith({ charge: 'ch_2' });
+  });
+
+  it('still loads the rest of the customer when disputes cannot be listed', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const charge = { id: 'ch_1', created: 1, disputed: true };
+    const fake = createFakeStripe({
+      charges: { list: vi.fn().mockResolvedValue({ ...emptyList, data: [charge] }) },
+      disputes: {
+        list: vi.fn().mockRejectedValue(
+          Object.assign(new Error('Missing dispute_read'), { type: 'StripePermissionError', statusCode: 403 })
+        ),
+      },
+    });
+    configureStripeClient({ stripe: fake as unknown as Stripe });
+
+    const data = await fetchCustomerData('cus_123');
+
+    expect(data.charges).toEqual([charge]);
+    expect(data.disputes).toEqual([]);
+    expect(data.truncated.disputes).toBe(true);
+  });
+
+  it('still loads the rest of the customer when PaymentIntents cannot be listed', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const charge = { id: 'ch_1', created: 1, payment_intent: 'pi_1' };
+    const fake = createFakeStripe({
+      charges: { list: vi.fn().mockResolvedValue({ ...emptyList, data: [charge] }) },
+      paymentIntents: {
+        list: vi
+          .fn()
+          .mockRejectedValue(Object.assign(new Error('Missing payment_intent_read'), { statusCode: 403 })),
+      },
+    });
+    configureStripeClient({ stripe: fake as unknown as Stripe });
+
+    const data = await fetchCustomerData('cus_123');
+
+    expect(data.charges).toEqual([charge]);
+    expect(data.paymentIntents).toEqual([]);
+    expect(data.truncated.paymentIntents).toBe(true);
+  });
+
+  it('skips dispute lookups still waiting for the limiter once aborted', async () => {
+    const controller = new AbortController();
+    const charges = [1, 2, 3].map(index => ({ id: `ch_${index}`, created: index, disputed: true }));
+    const fake = createFakeStripe({
+      charges: { list: vi.fn().mockResolvedValue({ ...emptyList, data: charges }) },
+      disputes: {
+        list: vi.fn(async () => {
+          controller.abort();
+          return emptyList;
+        }),
+      },
+    });
+    configureStripeClient({ stripe: fake as unknown as Stripe, maxConcurrentRequests: 1 });
+
+    const result = fetchCustomerData('cus_123', { signal: controller.signal });
+
+    await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+    expect(fake.disputes.list).toHaveBeenCalledTimes(1);
+  });
+
+  it('lists saved payment methods without the created window', async () => {
+    const paymentMethod = { id: 'pm_1', object: 'payment_method', type: 'card', created: 1 };
+    const fake = createFakeStripe();
+    fake.customers.listPaymentMethods.mockResolvedValue({ ...emptyList, data: [paymentMethod] });
+    configureStripeClient({ stripe: fake as unknown as Stripe });
+
+    const data = await fetchCustomerData('cus_123', { created: { gte: 1000 } });
+
+    expect(data.paymentMethods).toEqual([paymentMethod]);
+    expect(data.truncated.paymentMethods).toBe(false);
+    expect(fake.customers.listPaymentMethods).toHaveBeenCalledWith('cus_123', {
+      limit: 100,
+      starting_after: undefined,
+    });
+    expect(fake.charges.list).toHaveBeenCalledWith(expect.objectContaining({ created: { gte: 1000 } }));
+  });
+
+  it('loads the tiers of tiered subscription prices once per price', async () => {
+    const tieredPrice = { id: 'price_tiered', billing_scheme: 'tiered', tiers_mode: 'volume' };
+    const tiers = [{ up_to: null, unit_amount: 500, flat_amount: null }];
+    const subscriptions = ['sub_1', 'sub_2'].map((id, index) => ({
+      id,
+      created: index,
+      items: {
+        data: [
+          { id: `si_${id}`, price: tieredPrice },
+          { id: `si_${id}_flat`, price: { id: 'price_flat', billing_scheme: 'per_unit' } },
+        ],
+      },
+    }));
+    const fake = createFakeStripe({
+      subscriptions: { list: vi.fn().mockResolvedValue({ ...emptyList, data: subscriptions }) },
+    });
+    fake.prices.retrieve.mockResolvedValue({ ...tieredPrice, tiers });
+    configureStripeClient({ stripe: fake as unknown as Stripe });
+
+    const data = await fetchCustomerData('cus_123');
+
+    expect(fake.prices.retrieve).toHaveBeenCalledTimes(1);
+    expect(fake.prices.retrieve).toHaveBeenCalledWith('price_tiered', { expand: ['tiers'] });
+    expect(data.subscriptions.map(sub => sub.items.data[0].price.tiers)).toEqual([tiers, tiers]);
+    expect(data.subscriptions[0].items.data[1].price.id).toBe('price_flat');
+  });
+
+  it('keeps subscriptions whose tiered price cannot be retrieved', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const tieredPrice = { id: 'price_tiered', billing_scheme: 'tiered', tiers_mode: 'volume' };
+    const subscription = { id: 'sub_1', created: 1, items: { data: [{ id: 'si_1', price: tieredPrice }] } };
+    const fake = createFakeStripe({
+      subscriptions: { list: vi.fn().mockResolvedValue({ ...emptyList, data: [subscription] }) },
+    });
+    fake.prices.retrieve.mockRejectedValue(Object.assign(new Error('Missing plan_read'), { statusCode: 403 }));
+    configureStripeClient({ stripe: fake as unknown as Stripe });
+
+    const data = await fetchCustomerData('cus_123');
+
+    expect(data.subscriptions).toEqual([subscription]);
+  });
+
+  it('shares one concurrency limit across all parallel requests', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const slowList = () =>
+      vi.fn(async () => {
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 1));
+        inFlight--;
+        return emptyList;
+      });
+
+    const fake = createFakeStripe({
+      charges: { list: slowList() },
+      paymentIntents: { list: slowList() },
+      subscriptions: { list: slowList() },
+      invoices: { list: slowList() },
+    });
+    configureStripeClient({ stripe: fake as unknown as Stripe, maxConcurrentRequests: 2 });
+
+    await fetchCustomerData('cus_123');
+
+    expect(peak).toBe(2);
+  });
+});
+
+describe('fetchCustomerDataWithCache', () => {
+  it('serves stale parts immediately and refreshes them in the background', async () => {
+    let now = 0;
+    const clock: Clock = { now: () => now, sleep: async () => {} };
+    const fake = createFakeStripe();
+    configureStripeClient({
+      stripe: fake as unknown as Stripe,
+      clock,
+      cacheTtls: { customer: 10_000, charges: 1_000 },
+    });
+
+    const first = await fetchCustomerDataWithCache('cus_123');
+    expect(first).toMatchObject({ isStale: false, refreshed: null, fetchedAt: 0 });
+
+    now = 5_000;
+    const second = await fetchCustomerDataWithCache('cus_123');
+    expect(second).toMatchObject({ isStale: true, fetchedAt: 0 });
+    expect(second.data.charges).toEqual([]);
+
+    const fresh = await second.refreshed;
+    expect(fresh).toMatchObject({ isStale: false, fetchedAt: 0 });
+    // Only the stale part was refetched
+    expect(fake.charges.list).toHaveBeenCalledTimes(2);
+    expect(fake.customers.retrieve).toHaveBeenCalledTimes(1);
+    // 7 parts on the stale read, 6 fresh ones on the refresh, and the re-read before writing charges
+    expect(getCacheStats().hits).toBe(14);
+  });
+
+  it('stops loading when the caller aborts', async () => {
+    const controller = new AbortController();
+    const fake = createFakeStripe();
+    configureStripeClient({ stripe: fake as unknown as Stripe });
+    controller.abort();
+
+    await expect(fetchCustomerDataWithCache('cus_123', false, controller.signal)).rejects.toMatchObject({
+      name: 'AbortError',
+    });
+    expect(fake.charges.list).not.toHaveBeenCalled();
+  });
+
+  it('bypasses the cache when asked to', async () => {
+    const fake = createFakeStripe();
+    configureStripeClient({ stripe: fake as unknown as Stripe });
+
+    await fetchCustomerDataWithCache('cus_123');
+    const forced = await fetchCustomerDataWithCache('cus_123', true);
+
+    expect(forced.isStale).toBe(false);
+    expect(fake.charges.list).toHaveBeenCalledTimes(2);
+    expect(fake.customers.retrieve).toHaveBeenCalledTimes(2);
+  });
+
+  it('refetches everything after invalidation', async () => {
+    const fake = createFakeStripe();
+    configureStripeClient({ stripe: fake as unknown as Stripe });
+
+    await fetchCustomerDataWithCache('cus_123');
+    await invalidateCache('cus_123');
+    await fetchCustomerDataWithCache('cus_123');
+
+    expect(fake.customers.retrieve).toHaveBeenCalledTimes(2);
+    expect(fake.invoices.list).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('patchCachedCustomerData', () => {
+  it('patches cached data without refetching', async () => {
+    const fake = createFakeStripe();
+    configureStripeClient({ stripe: fake as unknown as Stripe });
+    const newCharge = { id: 'ch_new', amount: 500, currency: 'usd' } as Stripe.Charge;
+
+    await fetchCustomerDataWithCache('cus_123');
+    const patched = await patchCachedCustomerData('cus_123', data => ({
+      ...data,
+      charges: [newCharge, ...data.charges],
+    }));
+    const { data, isStale } = await fetchCustomerDataWithCache('cus_123');
+
+    expect(patched).toBe(true);
+    expect(isStale).toBe(false);
+    expect(data.charges).toEqual([newCharge]);
+    expect(fake.charges.list).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps a patch that lands while a background refresh is downloading', async () => {
+    let now = 0;
+    let releaseCharges: (list: typeof emptyList) => void = () => {};
+    const fake = createFakeStripe();
+    fake.charges.list
+      .mockResolvedValueOnce(emptyList)
+      .mockReturnValueOnce(new Promise(resolve => (releaseCharges = resolve)));
+    configureStripeClient({
+      stripe: fake as unknown as Stripe,
+      clock: { now: () => now, sleep: async () => {} },
+      cacheTtls: { charges: 1_000 },
+    });
+    const newCharge = { id: 'ch_new', amount: 500, currency: 'usd' } as Stripe.Charge;
+
+    await fetchCustomerDataWithCache('cus_123');
+    now = 5_000;
+    const stale = await fetchCustomerDataWithCache('cus_123');
+    await vi.waitFor(() => expect(fake.charges.list).toHaveBeenCalledTimes(2));
+
+    now = 6_000;
+    await patchCachedCustomerData('cus_123', data => ({ ...data, charges: [newCharge, ...data.charges] }));
+    // The refresh's response was produced before the new charge existed
+    releaseCharges(emptyList);
+    const refreshed = await stale.refreshed;
+
+    expect(refreshed?.data.charges).toEqual([newCharge]);
+    expect((await fetchCustomerDataWithCache('cus_123')).data.charges).toEqual([newCharge]);
+  });
+
+  it('reports false when the customer is not cached', async () => {
+    configureStripeClient({ stripe: createFakeStripe() as unknown as Stripe });
+
+    await expect(patchCachedCustomerData('cus_unknown', data => data)).resolves.toBe(false);
+  });
+});
@@ -5,8 +5,10 @@
  *
  * KEY DECISIONS:
  * 1. Error Handling - How do we handle rate limits, network failures?
- * 2. Caching - Do we cache responses? For how long?
+ *    (see ./retry.ts - backoff with jitter + shared concurrency limit)
+ * 2. Caching - Do we cache responses? For how long? (per data type, see below)
  * 3. Pagination - Stripe returns 10-100 items per request, how do we handle more?
+ *    (see ./pagination.ts - shared paginator with item/page budgets)
  * 4. Security - API keys must never be exposed to client-side code
  *
  * ARCHITECTURE:
@@ -17,7 +19,12 @@
  */
 
 import Stripe from 'stripe';
-import { StripeCustomerData } from '../types';
+import { CustomerDataList, StripeCustomerData } from '../types';
+import { PageInfo, PaginateOptions, PaginatedResult, paginateList } from './pagination';
+import { CacheStats, CacheStore, MemoryLruCacheStore } from './cache';
+import { Clock, systemClock } from './clock';
+import { ConcurrencyLimiter, DEFAULT_RETRY_POLICY, RetryPolicy, withRetry } from './retry';
+import { EMPTY_EVENT_VERSIONS, EventVersions, isStaleEvent, recordAppliedEvent } from '../utils/eventOrdering';
 
 /**
  * Initialize Stripe client
@@ -27,10 +34,178 @@ import { StripeCustomerData } from '../types';
  * - Never committed to version control
  * - Scoped to specific permissions (principle of least privilege)
  */
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
-  apiVersion: '2024-12-18',
-  typescript: true, // DX: Better autocomplete and type safety
-});
+let defaultStripe: Stripe | null = null;
+
+/**
+ * Created lazily so importing this module (e.g. in tests with a fake client)
+ * doesn't require STRIPE_SECRET_KEY to be set
+ */
+function getDefaultStripe(): Stripe {
+  defaultStripe ??= new Stripe(process.env.STRIPE_SECRET_KEY || '', {
+    apiVersion: '2024-12-18',
+    typescript: true, // DX: Better autocomplete and type safety
+    maxNetworkRetries: 0, // Retries are handled by withRetry below (one policy, one place)
+  });
+  return defaultStripe;
+}
+
+/**
+ * Cacheable parts of StripeCustomerData (see Caching Layer below)
+ */
+export type CacheDataType = 'customer' | CustomerDataList;
+
+const CACHE_DATA_TYPES: CacheDataType[] = [
+  'customer',
+  'charges',
+  'paymentIntents',
+  'subscriptions',
+  'invoices',
+  'disputes',
+  'paymentMethods',
+];
+
+/**
+ * Default TTL per data type (how long a part counts as FRESH)
+ *
+ * PRODUCT DECISION: Payments change minute to minute; profile fields and
+ * subscriptions rarely do (and webhooks invalidate them when they do).
+ */
+export const DEFAULT_CACHE_TTLS: Record<CacheDataType, number> = {
+  customer: 15 * 60 * 1000, // 15 minutes
+  charges: 5 * 60 * 1000, // 5 minutes
+  paymentIntents: 5 * 60 * 1000,
+  subscriptions: 10 * 60 * 1000,
+  invoices: 10 * 60 * 1000,
+  disputes: 10 * 60 * 1000,
+  paymentMethods: 2 * 60 * 1000, // Shortest: not patched by webhooks - see fetchPaymentMethods
+};
+
+/**
+ * How long past its TTL a part may still be served (while revalidating)
+ */
+const DEFAULT_MAX_STALE_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+function cacheKey(customerId: string, type: CacheDataType): string {
+  return `${customerId}:${type}`;
+}
+
+/**
+ * What the cache stores per part: the value plus when it was fetched
+ */
+interface CacheEnvelope<T> {
+  value: T;
+  fetchedAt: number;
+  patchedAt?: number; // Last webhook patch to this part (see patchUnlocked)
+}
+
+/**
+ * Request execution settings
+ *
+ * RELIABILITY: Every Stripe call goes through request(), which applies
+ * - the retry policy (backoff, Retry-After, max attempts)
+ * - one shared concurrency limiter across all parallel fetches
+ *
+ * TESTABILITY: configureStripeClient() swaps in a fake Stripe client, a fake
+ * clock or a tighter policy without touching any fetcher.
+ */
+interface StripeClientConfig {
+  stripe: Stripe | null; // null = use the default client
+  retryPolicy: RetryPolicy;
+  clock: Clock;
+  limiter: ConcurrencyLimiter;
+  cacheStore: CacheStore;
+  cacheTtls: Record<CacheDataType, number>;
+  maxStaleMs: number;
+}
+
+export interface StripeClientOverrides {
+  stripe?: Stripe;
+  retryPolicy?: Partial<RetryPolicy>;
+  clock?: Clock;
+  maxConcurrentRequests?: number;
+  cacheStore?: CacheStore;
+  cacheTtls?: Partial<Record<CacheDataType, number>>;
+  maxStaleMs?: number;
+}
+
+/**
+ * Stripe allows ~25 read requests/second in test mode; staying well below
+ * that leaves headroom for other views open at the same time.
+ */
+const DEFAULT_MAX_CONCURRENT_REQUESTS = 8;
+
+function createConfig(overrides: StripeClientOverrides = {}): StripeClientConfig {
+  const clock = overrides.clock ?? systemClock;
+  return {
+    stripe: overrides.stripe ?? null,
+    retryPolicy: { ...DEFAULT_RETRY_POLICY, ...overrides.retryPolicy },
+    clock,
+    limiter: new ConcurrencyLimiter(overrides.maxConcurrentRequests ?? DEFAULT_MAX_CONCURRENT_REQUESTS),
+    cacheStore: overrides.cacheStore ?? new MemoryLruCacheStore({ clock }),
+    cacheTtls: { ...DEFAULT_CACHE_TTLS, ...overrides.cacheTtls },
+    maxStaleMs: overrides.maxStaleMs ?? DEFAULT_MAX_STALE_MS,
+  };
+}
+
+let config = createConfig();
+
+/**
+ * Replace the client configuration (tests, or custom backend wiring)
+ *
+ * Calling with no arguments restores the defaults.
+ */
+export function configureStripeClient(overrides: StripeClientOverrides = {}): void {
+  config = createConfig(overrides);
+}
+
+/**
+ * Run one Stripe API call with retries and the shared concurrency limit
+ *
+ * Each attempt takes a limiter slot; backoff sleeps happen outside the
+ * limiter so a waiting retry doesn't block other requests.
+ *
+ * CANCELLATION: The signal is checked when an attempt gets its slot, so
+ * calls still queued behind the limiter are dropped once it aborts, and it
+ * cuts a backoff sleep short.
+ */
+function request<T>(operation: (stripe: Stripe) => Promise<T>, signal?: AbortSignal): Promise<T> {
+  const { retryPolicy, clock, limiter } = config;
+  const stripe = config.stripe ?? getDefaultStripe();
+  return withRetry(
+    () =>
+      limiter.run(() => {
+        signal?.throwIfAborted();
+        return operation(stripe);
+      }),
+    retryPolicy,
+    clock,
+    signal
+  );
+}
+
+/**
+ * Options for fetching a customer's data
+ *
+ * - maxItemsPerList: budget applied to each list (charges, invoices, ...)
+ * - created: only fetch objects created in this window (e.g. last 12 months)
+ * - signal: abort in-flight pagination (e.g. component unmounted)
+ * - onPage: progress callback, called once per page of any list
+ */
+export interface FetchCustomerDataOptions {
+  maxItemsPerList?: number;
+  created?: Stripe.RangeQueryParam | number;
+  signal?: AbortSignal;
+  onPage?: (list: CustomerDataList, page: PageInfo<unknown>) => void;
+}
+
+/**
+ * Default per-list budget
+ *
+ * TRADE-OFF: 5,000 objects covers nearly every customer while keeping the
+ * worst case at 50 requests per list. Larger histories are flagged as
+ * truncated rather than silently blowing up load time.
+ */
+const DEFAULT_MAX_ITEMS_PER_LIST = 5000;
 
 /**
  * Fetch comprehensive customer data
@@ -46,26 +221,83 @@ const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
  * - Use Stripe's expand parameter to reduce round trips
  */
 export async function fetchCustomerData(
-  customerId: string
+  customerId: string,
+  options: FetchCustomerDataOptions = {}
 ): Promise<StripeCustomerData> {
+  return loadCustomerData(customerId, options, (_type, load) => load());
+}
+
+/**
+ * Loads one part of StripeCustomerData (the customer, or one list)
+ *
+ * Lets the cached and uncached paths share the same fetch logic: the cached
+ * path wraps each part in a cache lookup with that part's TTL.
+ */
+type PartLoader = <T>(type: CacheDataType, load: () => Promise<T>) => Promise<T>;
+
+async function loadCustomerData(
+  customerId: string,
+  options: FetchCustomerDataOptions,
+  loadPart: PartLoader
+): Promise<StripeCustomerData> {
+  const listOptions = <T>(list: CustomerDataList): PaginateOptions<T> => ({
+    maxItems: options.maxItemsPerList ?? DEFAULT_MAX_ITEMS_PER_LIST,
+    created: options.created,
+    signal: options.signal,
+    onPage: page => options.onPage?.(list, page),
+  });
+
+  // RELIABILITY: Sections that only add detail load without the rest of the
+  // view depending on them - a missing permission or a failed lookup shows
+  // up as an empty, truncated list. Caught outside loadPart so the failure
+  // isn't cached.
+  const unlessFailed =
+    <T>(list: CustomerDataList) =>
+    (error: unknown): PaginatedResult<T> => {
+      if (options.signal?.aborted) throw error;
+      console.warn(`Failed to fetch ${list}, continuing without them:`, error);
+      return { items: [], truncated: true, pagesFetched: 0 };
+    };
+
   try {
-    // Parallel API calls for faster response
-    const [customer, charges, paymentIntents, subscriptions, invoices] = await Promise.all([
-      fetchCustomer(customerId),
-      fetchCharges(customerId),
-      fetchPaymentIntents(customerId),
-      fetchSubscriptions(customerId),
-      fetchInvoices(customerId),
-    ]);
+    // Parallel API calls for faster response (disputes wait for charges)
+    const chargesPart = loadPart('charges', () => fetchCharges(customerId, listOptions('charges')));
+    const [customer, charges, paymentIntents, subscriptions, invoices, disputes, paymentMethods] =
+      await Promise.all([
+        loadPart('customer', () => fetchCustomer(customerId)),
+        chargesPart,
+        loadPart('paymentIntents', () => fetchPaymentIntents(customerId, listOptions('paymentIntents'))).catch(
+          unlessFailed<Stripe.PaymentIntent>('paymentIntents')
+        ),
+        loadPart('subscriptions', () => fetchSubscriptions(customerId, listOptions('subscriptions'))),
+        loadPart('invoices', () => fetchInvoices(customerId, listOptions('invoices'))),
+        loadPart('disputes', async () => fetchDisputes(await chargesPart, options.signal)).catch(
+          unlessFailed<Stripe.Dispute>('disputes')
+        ),
+        loadPart('paymentMethods', () => fetchPaymentMethods(customerId, listOptions('paymentMethods'))),
+      ]);
 
     return {
       customer,
-      charges,
-      paymentIntents,
-      subscriptions,
-      invoices,
+      charges: charges.items,
+      paymentIntents: paymentIntents.items,
+      subscriptions: subscriptions.items,
+      invoices: invoices.items,
+      disputes: disputes.items,
+      paymentMethods: paymentMethods.items,
+      truncated: {
+        charges: charges.truncated,
+        paymentIntents: paymentIntents.truncated,
+        subscriptions: subscriptions.truncated,
+        invoices: invoices.truncated,
+        disputes: disputes.truncated,
+        paymentMethods: paymentMethods.truncated,
+      },
     };
   } catch (error) {
+    // Cancellation isn't a failure - let the caller see the abort as-is
+    if (options.signal?.aborted) throw error;
+
     console.error('Error fetching customer data:', error);
     throw new Error(`Failed to fetch data for customer ${customerId}`);
   }
@@ -82,9 +314,11 @@ export async function fetchCustomerData(
  *   1. GET /v1/customers/:id?expand[]=default_source
  */
 async function fetchCustomer(customerId: string): Promise<Stripe.Customer> {
-  const customer = await stripe.customers.retrieve(customerId, {
-    expand: ['default_source', 'invoice_settings.default_payment_method'],
-  });
+  const customer = await request(stripe =>
+    stripe.customers.retrieve(customerId, {
+      expand: ['default_source', 'invoice_settings.default_payment_method'],
+    })
+  );
 
   // Type guard: Stripe can return DeletedCustomer
   if (customer.deleted) {
@@ -100,37 +334,34 @@ async function fetchCustomer(customerId: string): Promise<Stripe.Customer> {
  * PAGINATION CHALLENGE: Customer might have 1000+ charges
  *
  * OPTIONS:
- * 1. Fetch all (slow, memory intensive) ← We do this for accuracy
+ * 1. Fetch all (slow, memory intensive)
  * 2. Fetch recent N (fast, but incomplete LTV calculation)
  * 3. Server-side aggregation (requires backend database)
  *
+ * We fetch everything up to a budget and report `truncated` when the budget
+ * cut the history short, so the UI can say the numbers are partial.
+ *
  * INTERVIEW DISCUSSION: "How would you handle a customer with 100,000 charges?"
  * Answer: Move to async processing
  * - Initial load: Show cached insights from last calculation
  * - Background: Trigger webhook to recalculate, update via websocket
  * - UX: "Recalculating... last updated 2 hours ago"
  */
-async function fetchCharges(customerId: string): Promise<Stripe.Charge[]> {
-  const charges: Stripe.Charge[] = [];
-  let hasMore = true;
-  let startingAfter: string | undefined;
-
-  // Pagination loop
-  while (hasMore) {
-    const response = await stripe.charges.list({
-      customer: customerId,
-      limit: 100, // Max allowed by Stripe
-      starting_after: startingAfter,
-    });
-
-    charges.push(...response.data);
-    hasMore = response.has_more;
-    if (response.data.length > 0) {
-      startingAfter = response.data[response.data.length - 1].id;
-    }
-  }
-
-  return charges;
+async function fetchCharges(
+  customerId: string,
+  options: PaginateOptions<Stripe.Charge>
+): Promise<PaginatedResult<Stripe.Charge>> {
+  return paginateList(
+    params =>
+      request(stripe =>
+        stripe.charges.list({
+          customer: customerId,
+          expand: ['data.refunds'], // Refund reasons and timing (see utils/refunds.ts)
+          ...params,
+        })
+      ),
+    options
+  );
 }
 
 /**
@@ -141,80 +372,163 @@ async function fetchCharges(customerId: string): Promise<Stripe.Charge[]> {
  * - PaymentIntent = new API (better 3D Secure, multi-currency support)
  */
 async function fetchPaymentIntents(
-  customerId: string
-): Promise<Stripe.PaymentIntent[]> {
-  const paymentIntents: Stripe.PaymentIntent[] = [];
-  let hasMore = true;
-  let startingAfter: string | undefined;
-
-  while (hasMore) {
-    const response = await stripe.paymentIntents.list({
-      customer: customerId,
-      limit: 100,
-      starting_after: startingAfter,
-    });
-
-    paymentIntents.push(...response.data);
-    hasMore = response.has_more;
-    if (response.data.length > 0) {
-      startingAfter = response.data[response.data.length - 1].id;
-    }
-  }
-
-  return paymentIntents;
+  customerId: string,
+  options: PaginateOptions<Stripe.PaymentIntent>
+): Promise<PaginatedResult<Stripe.PaymentIntent>> {
+  return paginateList(
+    params => request(stripe => stripe.paymentIntents.list({ customer: customerId, ...params })),
+    options
+  );
 }
 
 /**
  * Fetch subscriptions
+ *
+ * MRR needs what list responses leave out by default:
+ * - discounts (subscription and item level) expanded to see their coupons
+ * - tiers of tiered prices - too deep to expand from the subscription list
+ *   (data.items.data.price.tiers is 5 levels, Stripe allows 4), so each
+ *   distinct tiered price is retrieved once (plan_read)
+ *
+ * A price that can't be retrieved keeps no tiers: MRR counts the item as
+ * unpriced rather than failing every subscription.
  */
 async function fetchSubscriptions(
-  customerId: string
-): Promise<Stripe.Subscription[]> {
-  const subscriptions: Stripe.Subscription[] = [];
-  let hasMore = true;
-  let startingAfter: string | undefined;
-
-  while (hasMore) {
-    const response = await stripe.subscriptions.list({
-      customer: customerId,
-      limit: 100,
-      status: 'all', // Include canceled subscriptions for churn analysis
-      starting_after: startingAfter,
-    });
+  customerId: string,
+  options: PaginateOptions<Stripe.Subscription>
+): Promise<PaginatedResult<Stripe.Subscription>> {
+  const result = await paginateList(
+    params =>
+      request(stripe =>
+        stripe.subscriptions.list({
+          customer: customerId,
+          status: 'all', // Include canceled subscriptions for churn analysis
+          expand: ['data.discounts', 'data.items.data.discounts'],
+          ...params,
+        })
+      ),
+    options
+  );
 
-    subscriptions.push(...response.data);
-    hasMore = response.has_more;
-    if (response.data.length > 0) {
-      startingAfter = response.data[response.data.length - 1].id;
-    }
-  }
+  return { ...result, items: await withPriceTiers(result.items) };
+}
+
+async function withPriceTiers(subscriptions: Stripe.Subscription[]): Promise<Stripe.Subscription[]> {
+  const missingTiers = new Set(
+    subscriptions
+      .flatMap(sub => sub.items?.data ?? [])
+      .filter(item => item.price?.billing_scheme === 'tiered' && !item.price.tiers)
+      .map(item => item.price.id)
+  );
+  if (missingTiers.size === 0) return subscriptions;
+
+  const prices = new Map<string, Stripe.Price>();
+  await Promise.all(
+    [...missingTiers].map(async id => {
+      try {
+        prices.set(id, await request(stripe => stripe.prices.retrieve(id, { expand: ['tiers'] })));
+      } catch (error) {
+        console.warn(`Failed to load the tiers of ${id}:`, error);
+      }
+    })
+  );
 
-  return subscriptions;
+  return subscriptions.map(sub => ({
+    ...sub,
+    items: {
+      ...sub.items,
+      data: sub.items.data.map(item => {
+        const price = item.price && prices.get(item.price.id);
+        return price ? { ...item, price } : item;
+      }),
+    },
+  }));
 }
 
 /**
  * Fetch invoices
  */
-async function fetchInvoices(customerId: string): Promise<Stripe.Invoice[]> {
-  const invoices: Stripe.Invoice[] = [];
-  let hasMore = true;
-  let startingAfter: string | undefined;
+async function fetchInvoices(
+  customerId: string,
+  options: PaginateOptions<Stripe.Invoice>
+): Promise<PaginatedResult<Stripe.Invoice>> {
+  return paginateList(
+    params => request(stripe => stripe.invoices.list({ customer: customerId, ...params })),
+    options
+  );
+}
 
-  while (hasMore) {
-    const response = await stripe.invoices.list({
-      customer: customerId,
-      limit: 100,
-      starting_after: startingAfter,
-    });
+/**
+ * Fetch disputes for the customer's disputed charges
+ *
+ * API LIMITATION: /v1/disputes can be filtered by charge or payment intent,
+ * but not by customer. A charge can only be disputed once, so we list by
+ * charge for each charge flagged `disputed` - usually zero or a handful of
+ * requests, all through the shared limiter.
+ *
+ * Only as complete as the charge history: truncated charges mean
+ * truncated disputes.
+ */
+async function fetchDisputes(
+  charges: PaginatedResult<Stripe.Charge>,
+  signal?: AbortSignal
+): Promise<PaginatedResult<Stripe.Dispute>> {
+  const disputedCharges = charges.items.filter(charge => charge.disputed);
 
-    invoices.push(...response.data);
-    hasMore = response.has_more;
-    if (response.data.length > 0) {
-      startingAfter = response.data[response.data.length - 1].id;
-    }
-  }
+  const pages = await Promise.all(
+    disputedCharges.map(charge => request(stripe => stripe.disputes.list({ charge: charge.id }), signal))
+  );
+
+  const items = pages
+    .flatMap(page => page.data)
+    .sort((a, b) => b.created - a.created || (a.id < b.id ? 1 : -1));
+  return { items, truncated: charges.truncated, pagesFetched: pages.length };
+}
+
+/**
+ * Fetch the customer's saved payment methods
+ *
+ * STRIPE API DETAIL: /v1/customers/:id/payment_methods also returns legacy
+ * card sources (card_...), so a default_source shows up here too. The list
+ * has no `created` filter - a card saved years ago still charges today, so
+ * the created window doesn't apply anyway.
+ *
+ * DESIGN: Not patched from webhooks - payment_method.detached no longer
+ * names the customer on the object. The shortest TTL of any part (2
+ * minutes, see DEFAULT_CACHE_TTLS) keeps it fresh instead.
+ */
+async function fetchPaymentMethods(
+  customerId: string,
+  options: PaginateOptions<Stripe.PaymentMethod>
+): Promise<PaginatedResult<Stripe.PaymentMethod>> {
+  return paginateList(
+    ({ limit, starting_after }) =>
+      request(stripe => stripe.customers.listPaymentMethods(customerId, { limit, starting_after })),
+    { ...options, created: undefined }
+  );
+}
+
+/**
+ * Fetch the account's customers
+ *
+ * USED BY: Customer list view, which analyzes customers as each page arrives
+ * (async onPage) so it can show progress and partial results instead of one
+ * long spinner.
+ */
+export async function fetchCustomers(
+  options: PaginateOptions<Stripe.Customer> = {}
+): Promise<PaginatedResult<Stripe.Customer>> {
+  return paginateList(params => request(stripe => stripe.customers.list(params)), options);
+}
 
-  return invoices;
+/**
+ * Fetch a single charge
+ *
+ * USED BY: Dispute webhooks - a Dispute references its charge but not the
+ * customer, so the charge is needed to find whose data to update.
+ */
+export async function fetchCharge(chargeId: string): Promise<Stripe.Charge> {
+  return request(stripe => stripe.charges.retrieve(chargeId));
 }
 
 /**
@@ -247,44 +561,285 @@ export function handleStripeError(error: any): string {
 }
 
 /**
- * Caching Layer (Simplified Example)
+ * Caching Layer
  *
  * INTERVIEW TOPIC: "How would you implement caching for this app?"
  *
  * STRATEGY:
- * 1. In-memory cache with TTL (Time To Live)
- * 2. Cache key: customerId
- * 3. Invalidate on webhook events (customer.updated, charge.succeeded)
+ * 1. Pluggable CacheStore (./cache.ts) - bounded in-memory LRU by default,
+ *    FileCacheStore on the backend so the cache survives restarts
+ * 2. Cache key: customerId + data type, so each part has its own TTL
+ * 3. Stale-while-revalidate: expired parts are served immediately while a
+ *    background refresh runs (up to maxStaleMs past their TTL)
+ * 4. Invalidate on webhook events (customer.updated, charge.succeeded)
  *
  * TRADE-OFFS:
  * - Pro: Faster response, reduced API calls
- * - Con: Stale data if not invalidated properly
- * - Con: Memory usage for large datasets
+ * - Con: Stale data if not invalidated properly (the UI shows "Updated N min ago")
+ * - Con: Memory usage for large datasets (bounded by the LRU limits)
+ */
+/**
+ * Result of a cached fetch
+ *
+ * STALE-WHILE-REVALIDATE: When any part is past its TTL we return the stale
+ * data immediately (no full-screen spinner) and refresh in the background.
+ * `refreshed` resolves with the fresh result, or is null if nothing was stale.
+ *
+ * CANCELLATION: `signal` stops the caller's own load. The background refresh
+ * is shared with other callers of the same customer, so it runs to the end.
+ */
+export interface CachedCustomerData {
+  data: StripeCustomerData;
+  fetchedAt: number; // When the OLDEST part was fetched (ms since epoch)
+  isStale: boolean;
+  refreshed: Promise<CachedCustomerData> | null;
+}
+
+/**
+ * One background refresh per customer at a time
  */
-const cache = new Map<string, { data: StripeCustomerData; timestamp: number }>();
-const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+const inFlightRefreshes = new Map<string, Promise<CachedCustomerData>>();
 
 export async function fetchCustomerDataWithCache(
   customerId: string,
-  bypassCache: boolean = false
-): Promise<StripeCustomerData> {
-  if (!bypassCache) {
-    const cached = cache.get(customerId);
-    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-      console.log('Cache hit for customer:', customerId);
-      return cached.data;
-    }
+  bypassCache: boolean = false,
+  signal?: AbortSignal
+): Promise<CachedCustomerData> {
+  const result = await loadWithCache(customerId, bypassCache ? new Set(CACHE_DATA_TYPES) : new Set(), signal);
+  if (result.staleTypes.size === 0) {
+    return { data: result.data, fetchedAt: result.fetchedAt, isStale: false, refreshed: null };
+  }
+
+  let refreshed = inFlightRefreshes.get(customerId);
+  if (!refreshed) {
+    refreshed = loadWithCache(customerId, result.staleTypes)
+      .then(fresh => ({ data: fresh.data, fetchedAt: fresh.fetchedAt, isStale: false, refreshed: null }))
+      .finally(() => inFlightRefreshes.delete(customerId));
+    inFlightRefreshes.set(customerId, refreshed);
+    // Callers may ignore `refreshed`; a failed refresh just leaves stale data in place
+    refreshed.catch(error => console.warn(`Background refresh failed for customer ${customerId}:`, error));
   }
 
-  console.log('Cache miss, fetching fresh data for customer:', customerId);
-  const data = await fetchCustomerData(customerId);
+  return { data: result.data, fetchedAt: result.fetchedAt, isStale: true, refreshed };
+}
+
+/**
+ * Load every part through the cache
+ *
+ * - forceTypes: parts to refetch regardless of what's cached
+ * - Parts past their TTL are served stale and reported in staleTypes
+ */
+async function loadWithCache(
+  customerId: string,
+  forceTypes: Set<CacheDataType>,
+  signal?: AbortSignal
+): Promise<{ data: StripeCustomerData; fetchedAt: number; staleTypes: Set<CacheDataType> }> {
+  const { cacheStore, cacheTtls, clock, maxStaleMs } = config;
+  const staleTypes = new Set<CacheDataType>();
+  const fetchTimes: number[] = [];
+
+  const data = await loadCustomerData(
+    customerId,
+    { signal },
+    async <T>(type: CacheDataType, load: () => Promise<T>) => {
+      const key = cacheKey(customerId, type);
+
+      if (!forceTypes.has(type)) {
+        // A broken cache (e.g. disk error) must never break the dashboard
+        const cached = await cacheStore.get<CacheEnvelope<T>>(key).catch(() => undefined);
+        if (cached !== undefined) {
+          if (clock.now() - cached.fetchedAt >= cacheTtls[type]) staleTypes.add(type);
+          fetchTimes.push(cached.fetchedAt);
+          return cached.value;
+        }
+      }
 
-  cache.set(customerId, {
-    data,
-    timestamp: Date.now(),
+      const startedAt = clock.now();
+      const fetched: CacheEnvelope<T> = { value: await load(), fetchedAt: clock.now() };
+
+      // Under the patch lock, so a webhook patch can't land between the check and the write
+      const envelope = await withCustomerLock(customerId, async () => {
+        // RACE: A webhook patched this part while we were downloading it. Our
+        // copy may predate that change - keep the patched one rather than undo it.
+        const current = await cacheStore.get<CacheEnvelope<T>>(key).catch(() => undefined);
+        if (current?.patchedAt !== undefined && current.patchedAt >= startedAt) return current;
+
+        // Kept past its TTL so it can be served stale while revalidating
+        await cacheStore.set(key, fetched, cacheTtls[type] + maxStaleMs).catch(error => {
+          console.warn(`Failed to cache ${key}:`, error);
+        });
+        return fetched;
+      });
+      fetchTimes.push(envelope.fetchedAt);
+      return envelope.value;
+    }
+  );
+
+  return { data, fetchedAt: Math.min(...fetchTimes), staleTypes };
+}
+
+/**
+ * Patch a customer's cached data in place (webhook-driven updates)
+ *
+ * INSTEAD OF INVALIDATION: A new charge shouldn't force re-downloading the
+ * whole history. The patch function (see utils/customerDataReducer.ts) is
+ * applied to the cached data and each part is written back with its original
+ * fetchedAt, so TTL-based refreshes still happen as a safety net. Parts the
+ * patch changed are stamped with patchedAt, so a refresh that started before
+ * the patch doesn't overwrite it with older data (see loadWithCache).
+ *
+ * Returns false when the customer isn't fully cached - there's nothing to
+ * patch, and the caller should invalidate whatever partial data exists.
+ */
+export async function patchCachedCustomerData(
+  customerId: string,
+  patch: (data: StripeCustomerData) => StripeCustomerData
+): Promise<boolean> {
+  return withCustomerLock(customerId, () => patchUnlocked(customerId, patch));
+}
+
+/**
+ * How long to remember applied event versions
+ *
+ * Stripe retries a delivery for up to 3 days, so an older event can't
+ * arrive later than that. Kept independently of the data TTLs: a refetched
+ * snapshot must still be protected from a late, older event. A bounded
+ * cacheStore can still evict them early (see STORAGE in eventOrdering.ts).
+ */
+const EVENT_VERSIONS_TTL_MS = 3 * 24 * 60 * 60 * 1000;
+
+export type EventPatchOutcome = 'applied' | 'stale' | 'not-cached';
+
+/**
+ * Patch cached data from a webhook event, unless a newer event for the same
+ * object was already applied (see utils/eventOrdering.ts)
+ *
+ * The version check, the patch and the version update run under one
+ * customer lock, so concurrent deliveries can't interleave between them.
+ * Versions are recorded even when the customer isn't cached.
+ */
+export async function applyEventToCachedCustomer(
+  customerId: string,
+  event: Stripe.Event,
+  patch: (data: StripeCustomerData) => StripeCustomerData
+): Promise<EventPatchOutcome> {
+  return withCustomerLock(customerId, async () => {
+    const { cacheStore } = config;
+    const key = `${customerId}:eventVersions`;
+    const versions =
+      (await cacheStore.get<EventVersions>(key).catch(() => undefined)) ?? EMPTY_EVENT_VERSIONS;
+
+    if (isStaleEvent(versions, event)) return 'stale';
+
+    const patched = await patchUnlocked(customerId, patch);
+    await cacheStore.set(key, recordAppliedEvent(versions, event), EVENT_VERSIONS_TTL_MS).catch(error => {
+      console.warn(`Failed to cache ${key}:`, error);
+    });
+    return patched ? 'applied' : 'not-cached';
+  });
+}
+
+async function patchUnlocked(
+  customerId: string,
+  patch: (data: StripeCustomerData) => StripeCustomerData
+): Promise<boolean> {
+  const { cacheStore, cacheTtls, clock, maxStaleMs } = config;
+  const keys = CACHE_DATA_TYPES.map(type => cacheKey(customerId, type));
+
+  const envelopes = await Promise.all(
+    keys.map(key => cacheStore.get<CacheEnvelope<unknown>>(key).catch(() => undefined))
+  );
+  if (envelopes.some(envelope => envelope === undefined)) return false;
+
+  const [customer, charges, paymentIntents, subscriptions, invoices, disputes, paymentMethods] = envelopes as [
+    CacheEnvelope<Stripe.Customer>,
+    CacheEnvelope<PaginatedResult<Stripe.Charge>>,
+    CacheEnvelope<PaginatedResult<Stripe.PaymentIntent>>,
+    CacheEnvelope<PaginatedResult<Stripe.Subscription>>,
+    CacheEnvelope<PaginatedResult<Stripe.Invoice>>,
+    CacheEnvelope<PaginatedResult<Stripe.Dispute>>,
+    CacheEnvelope<PaginatedResult<Stripe.PaymentMethod>>,
+  ];
+
+  const patched = patch({
+    customer: customer.value,
+    charges: charges.value.items,
+    paymentIntents: paymentIntents.value.items,
+    subscriptions: subscriptions.value.items,
+    invoices: invoices.value.items,
+    disputes: disputes.value.items,
+    paymentMethods: paymentMethods.value.items,
+    truncated: {
+      charges: charges.value.truncated,
+      paymentIntents: paymentIntents.value.truncated,
+      subscriptions: subscriptions.value.truncated,
+      invoices: invoices.value.truncated,
+      disputes: disputes.value.truncated,
+      paymentMethods: paymentMethods.value.truncated,
+    },
   });
 
-  return data;
+  // The reducer keeps untouched parts as the same objects
+  const changed: Record<CacheDataType, boolean> = {
+    customer: patched.customer !== customer.value,
+    charges: patched.charges !== charges.value.items,
+    paymentIntents: patched.paymentIntents !== paymentIntents.value.items,
+    subscriptions: patched.subscriptions !== subscriptions.value.items,
+    invoices: patched.invoices !== invoices.value.items,
+    disputes: patched.disputes !== disputes.value.items,
+    paymentMethods: patched.paymentMethods !== paymentMethods.value.items,
+  };
+
+  const values: Record<CacheDataType, unknown> = {
+    customer: patched.customer,
+    charges: { ...charges.value, items: patched.charges },
+    paymentIntents: { ...paymentIntents.value, items: patched.paymentIntents },
+    subscriptions: { ...subscriptions.value, items: patched.subscriptions },
+    invoices: { ...invoices.value, items: patched.invoices },
+    disputes: { ...disputes.value, items: patched.disputes },
+    paymentMethods: { ...paymentMethods.value, items: patched.paymentMethods },
+  };
+
+  const now = clock.now();
+  await Promise.all(
+    CACHE_DATA_TYPES.map((type, index) => {
+      const { fetchedAt, patchedAt } = envelopes[index]!;
+      const remainingTtl = cacheTtls[type] + maxStaleMs - (now - fetchedAt);
+      const envelope = { value: values[type], fetchedAt, patchedAt: changed[type] ? now : patchedAt };
+      return remainingTtl > 0
+        ? cacheStore.set(keys[index], envelope, remainingTtl)
+        : cacheStore.delete(keys[index]);
+    })
+  );
+  return true;
+}
+
+/**
+ * Serialize read-modify-write patches per customer
+ *
+ * Two webhooks for the same customer arriving together would otherwise both
+ * read the same cached data and the second write would drop the first patch.
+ */
+const customerLocks = new Map<string, Promise<unknown>>();
+
+function withCustomerLock<T>(customerId: string, task: () => Promise<T>): Promise<T> {
+  const previous = customerLocks.get(customerId) ?? Promise.resolve();
+  const run = previous.catch(() => undefined).then(task);
+  customerLocks.set(customerId, run);
+
+  const release = () => {
+    if (customerLocks.get(customerId) === run) customerLocks.delete(customerId);
+  };
+  run.then(release, release);
+
+  return run;
+}
+
+/**
+ * Cache hit/miss/eviction counters (for logging and metrics)
+ */
+export function getCacheStats(): CacheStats {
+  return config.cacheStore.stats();
 }
 
 /**
@@ -292,7 +847,7 @@ export async function fetchCustomerDataWithCache(
  *
  * Called from webhook handlers when customer data changes
  */
-export function invalidateCache(customerId: string): void {
-  cache.delete(customerId);
+export async function invalidateCache(customerId: string): Promise<void> {
+  await Promise.all(CACHE_DATA_TYPES.map(type => config.cacheStore.delete(cacheKey(customerId, type))));
   console.log('Cache invalidated for customer:', customerId);
 }
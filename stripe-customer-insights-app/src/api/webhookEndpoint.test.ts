@@ -0,0 +1,230 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { Readable } from 'node:stream';
+import express from 'express';
+import Stripe from 'stripe';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { InMemoryWebhookQueueStore } from './webhookQueue';
+import {
+  createExpressWebhookHandler,
+  createFetchWebhookHandler,
+  createNodeWebhookHandler,
+  processWebhookRequest,
+} from './webhookEndpoint';
+import { configureWebhookQueue } from './webhooks';
+
+const SECRET = 'whsec_test_secret';
+
+const payload = JSON.stringify({
+  id: 'evt_123',
+  object: 'event',
+  type: 'charge.succeeded',
+  created: 1,
+  data: { object: { id: 'ch_1', object: 'charge', customer: 'cus_1' } },
+});
+
+// A request whose stream errors before the body arrives (client aborted mid-upload)
+function brokenRequest(): http.IncomingMessage {
+  const stream = new Readable({
+    read() {
+      this.destroy(new Error('aborted'));
+    },
+  });
+  const headers = { 'stripe-signature': sign(payload) };
+  return Object.assign(stream, { headers }) as unknown as http.IncomingMessage;
+}
+
+function sign(body: string, secret = SECRET): string {
+  return Stripe.webhooks.generateTestHeaderString({ payload: body, secret });
+}
+
+let queue: InMemoryWebhookQueueStore;
+let server: http.Server | null = null;
+
+beforeEach(() => {
+  queue = new InMemoryWebhookQueueStore();
+  configureWebhookQueue(queue);
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  configureWebhookQueue();
+  const running = server;
+  server = null;
+  if (running) await new Promise(resolve => running.close(resolve));
+});
+
+async function listen(handler: http.RequestListener): Promise<string> {
+  server = http.createServer(handler);
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server!.address() as AddressInfo).port}/webhook`;
+}
+
+function post(url: string, body: string, signature?: string) {
+  return fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(signature ? { 'Stripe-Signature': signature } : {}),
+    },
+    body,
+  });
+}
+
+describe('processWebhookRequest', () => {
+  it('verifies and enqueues a signed event', async () => {
+    const result = await processWebhookRequest(payload, { 'Stripe-Signature': sign(payload) }, { secret: SECRET });
+
+    expect(result).toEqual({ ok: true, status: 200, eventId: 'evt_123', eventType: 'charge.succeeded', duplicate: false });
+    expect((await queue.pending()).map(entry => entry.orderingKey)).toEqual(['customer:cus_1']);
+  });
+
+  it('reports a duplicate delivery as success', async () => {
+    const headers = { 'stripe-signature': sign(payload) };
+    await processWebhookRequest(payload, headers, { secret: SECRET });
+
+    expect(await processWebhookRequest(payload, headers, { secret: SECRET })).toMatchObject({ ok: true, duplicate: true });
+  });
+
+  it('rejects missing and invalid signatures with 400', async () => {
+    await expect(processWebhookRequest(payload, {}, { secret: SECRET })).resolves.toMatchObject({
+      status: 400,
+      error: 'missing_signature',
+    });
+    await expect(
+      processWebhookRequest(payload, { 'stripe-signature': sign(payload, 'whsec_other') }, { secret: SECRET })
+    ).resolves.toMatchObject({ status: 400, error: 'invalid_signature' });
+  });
+
+  it('refuses a body that was already parsed', async () => {
+    const parsed = JSON.parse(payload) as unknown as string;
+
+    await expect(
+      processWebhookRequest(parsed, { 'stripe-signature': sign(payload) }, { secret: SECRET })
+    ).resolves.toMatchObject({ status: 500, error: 'raw_body_unavailable' });
+  });
+});
+
+describe('Node http adapter', () => {
+  it('accepts a signed delivery', async () => {
+    const url = await listen(createNodeWebhookHandler({ secret: SECRET }));
+
+    const response = await post(url, payload, sign(payload));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ received: true });
+    expect(await queue.pending()).toHaveLength(1);
+  });
+
+  it('rejects a tampered body', async () => {
+    const url = await listen(createNodeWebhookHandler({ secret: SECRET }));
+
+    const response = await post(url, payload.replace('ch_1', 'ch_2'), sign(payload));
+
+    expect(response.status).toBe(400);
+    expect(await queue.pending()).toEqual([]);
+  });
+
+  it('answers 400 instead of rejecting when the request stream breaks', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const res = { writeHead: vi.fn(), end: vi.fn() };
+
+    await createNodeWebhookHandler({ secret: SECRET })(brokenRequest(), res as unknown as http.ServerResponse);
+
+    expect(res.writeHead).toHaveBeenCalledWith(400, { 'Content-Type': 'application/json' });
+    expect(JSON.parse(res.end.mock.calls[0][0])).toEqual({ error: 'Could not read the request body' });
+    expect(await queue.pending()).toEqual([]);
+  });
+});
+
+describe('Express adapter', () => {
+  it('accepts a signed delivery behind express.raw()', async () => {
+    const app = express();
+    app.post('/webhook', express.raw({ type: 'application/json' }), createExpressWebhookHandler({ secret: SECRET }));
+    const url = await listen(app);
+
+    const response = await post(url, payload, sign(payload));
+
+    expect(response.status).toBe(200);
+    expect(await queue.pending()).toHaveLength(1);
+  });
+
+  it('reads the stream itself when no body parser is mounted', async () => {
+    const app = express();
+    app.post('/webhook', createExpressWebhookHandler({ secret: SECRET }));
+    const url = await listen(app);
+
+    expect((await post(url, payload, sign(payload))).status).toBe(200);
+  });
+
+  it('fails loudly behind express.json()', async () => {
+    const app = express();
+    app.post('/webhook', express.json(), createExpressWebhookHandler({ secret: SECRET }));
+    const url = await listen(app);
+
+    const response = await post(url, payload, sign(payload));
+
+    expect(response.status).toBe(500);
+    expect(await queue.pending()).toEqual([]);
+  });
+
+  it('answers 400 instead of rejecting when the request stream breaks', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const json = vi.fn();
+    const res = { status: vi.fn(() => ({ json })) };
+
+    await createExpressWebhookHandler({ secret: SECRET })(brokenRequest(), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(json).toHaveBeenCalledWith({ error: 'Could not read the request body' });
+  });
+});
+
+describe('Fetch API adapter', () => {
+  it('accepts a signed delivery served over http', async () => {
+    const handler = createFetchWebhookHandler({ secret: SECRET });
+    // Bridge Node's server to Request/Response, as Fetch-based runtimes do
+    const url = await listen(async (req, res) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) chunks.push(chunk as Buffer);
+      const response = await handler(
+        new Request(`http://localhost${req.url}`, {
+          method: req.method,
+          headers: req.headers as Record<string, string>,
+          body: Buffer.concat(chunks),
+        })
+      );
+      res.writeHead(response.status, Object.fromEntries(response.headers));
+      res.end(await response.text());
+    });
+
+    const ok = await post(url, payload, sign(payload));
+    const unsigned = await post(url, payload);
+
+    expect(ok.status).toBe(200);
+    expect(await ok.json()).toEqual({ received: true });
+    expect(unsigned.status).toBe(400);
+    expect(await queue.pending()).toHaveLength(1);
+  });
+
+  it('answers 400 instead of rejecting when the request body stream breaks', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const body = new ReadableStream({
+      pull(controller) {
+        controller.error(new Error('aborted'));
+      },
+    });
+    const request = new Request('http://localhost/webhook', {
+      method: 'POST',
+      headers: { 'stripe-signature': sign(payload) },
+      body,
+      duplex: 'half',
+    } as RequestInit);
+
+    const response = await createFetchWebhookHandler({ secret: SECRET })(request);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Could not read the request body' });
+    expect(await queue.pending()).toEqual([]);
+  });
+});
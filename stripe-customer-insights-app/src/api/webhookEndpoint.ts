@@ -0,0 +1,228 @@
+/**
+ * Webhook HTTP Endpoint (Framework-Agnostic)
+ *
+ * INTERVIEW TOPIC: "Your signature check fails in production but works locally. Why?"
+ * Answer (usually): a JSON body parser ran first. The signature covers the
+ * exact bytes Stripe sent - re-serializing a parsed object changes them.
+ *
+ * DESIGN: One core function, thin adapters
+ *
+ *   processWebhookRequest(rawBody, headers) → WebhookRequestResult
+ *        ↑                  ↑                    ↑
+ *   Node http adapter   Express adapter    Fetch API adapter
+ *
+ * The core knows nothing about frameworks; each adapter only extracts the
+ * raw body + headers and writes the typed result back as a response.
+ *
+ * RAW BODY RULES:
+ * - Node http: the adapter reads the request stream itself
+ * - Express:   mount express.raw({ type: 'application/json' }) on the route
+ *              (or no body parser at all); a parsed object is rejected
+ * - Fetch:     the adapter reads request.arrayBuffer()
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { enqueueWebhookEvent, verifyWebhookSignature } from './webhooks';
+
+export type WebhookRequestError =
+  | 'not_configured' // No webhook secret
+  | 'raw_body_unavailable' // Body was already parsed (server misconfiguration)
+  | 'body_unreadable' // The request stream broke (client aborted, socket error)
+  | 'missing_signature'
+  | 'invalid_signature'
+  | 'enqueue_failed';
+
+export type WebhookRequestResult =
+  | { ok: true; status: 200; eventId: string; eventType: string; duplicate: boolean }
+  | { ok: false; status: 400 | 500; error: WebhookRequestError; message: string };
+
+export type WebhookHeaders = Headers | Record<string, string | string[] | undefined>;
+
+export interface WebhookEndpointOptions {
+  secret?: string; // Defaults to STRIPE_WEBHOOK_SECRET
+}
+
+/**
+ * Verify and enqueue one webhook delivery
+ *
+ * STATUS CODES (Stripe retries anything but 2xx):
+ * - 200: queued, or already queued (duplicate delivery)
+ * - 400: missing/invalid signature - a retry won't fix it
+ * - 500: our problem (misconfiguration, queue unavailable) - retry later
+ */
+export async function processWebhookRequest(
+  rawBody: string | Uint8Array,
+  headers: WebhookHeaders,
+  options: WebhookEndpointOptions = {}
+): Promise<WebhookRequestResult> {
+  const secret = options.secret ?? process.env.STRIPE_WEBHOOK_SECRET ?? '';
+  if (!secret) {
+    return failure(500, 'not_configured', 'Webhook secret is not configured');
+  }
+
+  if (typeof rawBody !== 'string' && !(rawBody instanceof Uint8Array)) {
+    return failure(
+      500,
+      'raw_body_unavailable',
+      'Expected the raw request body (string or Buffer) - was it parsed as JSON before reaching the webhook handler?'
+    );
+  }
+
+  const signature = getHeader(headers, 'stripe-signature');
+  if (!signature) {
+    return failure(400, 'missing_signature', 'Missing Stripe-Signature header');
+  }
+
+  let event;
+  try {
+    event = verifyWebhookSignature(typeof rawBody === 'string' ? rawBody : Buffer.from(rawBody), signature, secret);
+  } catch {
+    return failure(400, 'invalid_signature', 'Invalid signature');
+  }
+
+  try {
+    const queued = await enqueueWebhookEvent(event);
+    if (!queued) console.log(`Event ${event.id} already queued, skipping`);
+    return { ok: true, status: 200, eventId: event.id, eventType: event.type, duplicate: !queued };
+  } catch (error) {
+    console.error(`Failed to enqueue webhook ${event.id}:`, error);
+    return failure(500, 'enqueue_failed', 'Internal server error');
+  }
+}
+
+/**
+ * JSON body for a result - never leaks internals beyond the message
+ */
+export function webhookResponseBody(result: WebhookRequestResult): Record<string, unknown> {
+  return result.ok ? { received: true } : { error: result.message };
+}
+
+function failure(status: 400 | 500, error: WebhookRequestError, message: string): WebhookRequestResult {
+  if (status === 500) console.error(`Webhook request failed: ${message}`);
+  return { ok: false, status, error, message };
+}
+
+/**
+ * Case-insensitive header lookup for both Fetch Headers and Node's header object
+ */
+function getHeader(headers: WebhookHeaders, name: string): string | undefined {
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+
+  const record = headers as Record<string, string | string[] | undefined>;
+  const key = Object.keys(record).find(candidate => candidate.toLowerCase() === name);
+  const value = key === undefined ? undefined : record[key];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Read a Node request stream into a Buffer
+ */
+export async function readRawBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Process a Node request, reading the stream unless a body parser already did
+ *
+ * RELIABILITY: Neither Node http nor Express 4 handles a rejected async
+ * handler, so a stream that breaks mid-read must become a response (400 -
+ * nothing arrived to verify) rather than an unhandled rejection.
+ */
+async function processNodeRequest(
+  req: IncomingMessage,
+  parsedBody: unknown,
+  options: WebhookEndpointOptions
+): Promise<WebhookRequestResult> {
+  let rawBody = parsedBody;
+  if (rawBody === undefined) {
+    try {
+      rawBody = await readRawBody(req);
+    } catch (error) {
+      return bodyUnreadable(error);
+    }
+  }
+  return processWebhookRequest(rawBody as string | Uint8Array, req.headers, options);
+}
+
+// The client aborted mid-upload or the connection broke: nothing arrived to verify
+function bodyUnreadable(error: unknown): WebhookRequestResult {
+  console.warn('Failed to read webhook request body:', error);
+  return failure(400, 'body_unreadable', 'Could not read the request body');
+}
+
+/**
+ * Node `http` adapter
+ *
+ * USAGE: http.createServer(createNodeWebhookHandler()).listen(3000)
+ */
+export function createNodeWebhookHandler(options: WebhookEndpointOptions = {}) {
+  return async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const result = await processNodeRequest(req, undefined, options);
+    res.writeHead(result.status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(webhookResponseBody(result)));
+  };
+}
+
+/**
+ * The parts of Express's req/res the adapter uses (no runtime dependency on express)
+ */
+export interface ExpressLikeRequest extends IncomingMessage {
+  body?: unknown;
+}
+
+export interface ExpressLikeResponse {
+  status(code: number): { json(body: unknown): unknown };
+}
+
+/**
+ * Express adapter
+ *
+ * USAGE:
+ *   app.post('/webhook', express.raw({ type: 'application/json' }), createExpressWebhookHandler())
+ *
+ * Without a body parser, the adapter reads the stream itself. A body that was
+ * already parsed into an object can't be verified and is rejected with 500.
+ */
+export function createExpressWebhookHandler(options: WebhookEndpointOptions = {}) {
+  return async (req: ExpressLikeRequest, res: ExpressLikeResponse): Promise<void> => {
+    const result = await processNodeRequest(req, req.body, options);
+    res.status(result.status).json(webhookResponseBody(result));
+  };
+}
+
+/**
+ * @deprecated Use createExpressWebhookHandler (mounted behind express.raw())
+ */
+export function createWebhookEndpoint(options: WebhookEndpointOptions = {}) {
+  return createExpressWebhookHandler(options);
+}
+
+/**
+ * Fetch API adapter (standard Request → Response)
+ *
+ * USAGE: Any runtime with Request/Response (Node 18+, Deno, Bun, edge
+ * functions), e.g. `export const POST = createFetchWebhookHandler()`
+ */
+export function createFetchWebhookHandler(options: WebhookEndpointOptions = {}) {
+  const respond = (result: WebhookRequestResult) =>
+    new Response(JSON.stringify(webhookResponseBody(result)), {
+      status: result.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  return async (request: Request): Promise<Response> => {
+    let rawBody: Uint8Array;
+    try {
+      rawBody = new Uint8Array(await request.arrayBuffer());
+    } catch (error) {
+      return respond(bodyUnreadable(error));
+    }
+    return respond(await processWebhookRequest(rawBody, request.headers, options));
+  };
+}
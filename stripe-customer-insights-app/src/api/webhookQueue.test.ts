@@ -0,0 +1,219 @@
+import { mkdir, mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import Stripe from 'stripe';
+import { Clock } from './clock';
+import { FileWebhookQueueStore } from './fileWebhookQueueStore';
+import { InMemoryIdempotencyStore } from './idempotency';
+import {
+  InMemoryWebhookQueueStore,
+  WebhookQueueStore,
+  WebhookWorker,
+  createQueueEntry,
+  replayDeadLetter,
+} from './webhookQueue';
+
+function createFakeClock(): Clock & { advance(ms: number): void } {
+  let now = 0;
+  return {
+    now: () => now,
+    sleep: async ms => {
+      now += ms;
+    },
+    advance: ms => {
+      now += ms;
+    },
+  };
+}
+
+function event(id: string): Stripe.Event {
+  return { id, object: 'event', type: 'charge.succeeded', created: 1, data: { object: {} } } as unknown as Stripe.Event;
+}
+
+const directories: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(directories.splice(0).map(dir => rm(dir, { recursive: true, force: true })));
+});
+
+const implementations: Array<[string, () => Promise<WebhookQueueStore>]> = [
+  ['InMemoryWebhookQueueStore', async () => new InMemoryWebhookQueueStore()],
+  [
+    'FileWebhookQueueStore',
+    async () => {
+      const directory = await mkdtemp(path.join(os.tmpdir(), 'webhook-queue-'));
+      directories.push(directory);
+      return new FileWebhookQueueStore({ directory });
+    },
+  ],
+];
+
+describe.each(implementations)('%s', (_name, createStore) => {
+  it('rejects an event that is already queued', async () => {
+    const store = await createStore();
+
+    expect(await store.enqueue(createQueueEntry(event('evt_1'), 'customer:cus_1', 0))).toBe(true);
+    expect(await store.enqueue(createQueueEntry(event('evt_1'), 'customer:cus_1', 0))).toBe(false);
+    expect(await store.pending()).toHaveLength(1);
+  });
+
+  it('returns pending events oldest first', async () => {
+    const store = await createStore();
+    await store.enqueue(createQueueEntry(event('evt_b'), 'customer:cus_1', 20));
+    await store.enqueue(createQueueEntry(event('evt_a'), 'customer:cus_1', 10));
+
+    expect((await store.pending()).map(entry => entry.event.id)).toEqual(['evt_a', 'evt_b']);
+  });
+
+  it('moves events to the dead-letter store and back', async () => {
+    const store = await createStore();
+    const entry = createQueueEntry(event('evt_1'), 'customer:cus_1', 0);
+    await store.enqueue(entry);
+
+    await store.moveToDeadLetter({ ...entry, attempts: 8, lastError: 'boom', deadLetteredAt: 5 });
+    expect(await store.pending()).toEqual([]);
+    expect(await store.getDeadLetter('evt_1')).toMatchObject({ attempts: 8, lastError: 'boom' });
+
+    expect(await replayDeadLetter(store, 'evt_1')).toBe(true);
+    expect(await store.deadLetters()).toEqual([]);
+    expect(await store.pending()).toMatchObject([{ attempts: 0, lastError: 'boom', deadLetteredAt: null }]);
+  });
+});
+
+describe('FileWebhookQueueStore', () => {
+  it('orders events enqueued in the same millisecond across a restart', async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), 'webhook-queue-'));
+    directories.push(directory);
+
+    const before = new FileWebhookQueueStore({ directory });
+    await before.enqueue(createQueueEntry(event('evt_1'), 'customer:cus_1', 0));
+    await before.enqueue(createQueueEntry(event('evt_2'), 'customer:cus_1', 0));
+    const dead = (await before.pending())[0];
+    await before.moveToDeadLetter({ ...dead, deadLetteredAt: 0 });
+
+    const after = new FileWebhookQueueStore({ directory });
+    await Promise.all([
+      after.enqueue(createQueueEntry(event('evt_3'), 'customer:cus_1', 0)),
+      after.enqueue(createQueueEntry(event('evt_4'), 'customer:cus_1', 0)),
+    ]);
+
+    const pending = await after.pending();
+    expect(pending.map(entry => [entry.event.id, entry.sequence])).toEqual([
+      ['evt_2', 1],
+      ['evt_3', 2],
+      ['evt_4', 3],
+    ]);
+  });
+
+  it('moves corrupt files to the dead-letter store instead of skipping them', async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), 'webhook-queue-'));
+    directories.push(directory);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const store = new FileWebhookQueueStore({ directory });
+    await store.enqueue(createQueueEntry(event('evt_1'), 'customer:cus_1', 0));
+    await writeFile(path.join(directory, 'pending', 'evt_2.json'), '{"event":{"id":"ev', 'utf8');
+
+    expect((await store.pending()).map(entry => entry.event.id)).toEqual(['evt_1']);
+    expect(await readdir(path.join(directory, 'pending'))).toEqual(['evt_1.json']);
+    expect(await readdir(path.join(directory, 'dead-letter'))).toEqual(['evt_2.json.corrupt']);
+    expect(await store.deadLetters()).toEqual([]);
+  });
+
+  it('surfaces read failures other than a missing file', async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), 'webhook-queue-'));
+    directories.push(directory);
+    const store = new FileWebhookQueueStore({ directory });
+    // readFile fails with EISDIR
+    await mkdir(path.join(directory, 'pending', 'evt_1.json'), { recursive: true });
+
+    await expect(store.pending()).rejects.toThrow(/EISDIR/);
+  });
+});
+
+describe('WebhookWorker', () => {
+  function setup(handler: (event: Stripe.Event) => Promise<void>) {
+    const clock = createFakeClock();
+    const queue = new InMemoryWebhookQueueStore();
+    const idempotencyStore = new InMemoryIdempotencyStore({ clock });
+    const worker = new WebhookWorker({
+      queue,
+      handler,
+      idempotencyStore,
+      clock,
+      retryPolicy: { maxAttempts: 3, baseDelayMs: 1000, random: () => 1 },
+    });
+    return { clock, queue, idempotencyStore, worker };
+  }
+
+  it('keeps per-customer order while a customer waits for a retry', async () => {
+    const handled: string[] = [];
+    const handler = vi.fn(async (e: Stripe.Event) => {
+      if (e.id === 'evt_a1' && !handled.includes('failed_a1')) {
+        handled.push('failed_a1');
+        throw new Error('Stripe unavailable');
+      }
+      handled.push(e.id);
+    });
+    const { clock, queue, worker } = setup(handler);
+    await queue.enqueue(createQueueEntry(event('evt_a1'), 'customer:a', 0));
+    await queue.enqueue(createQueueEntry(event('evt_b1'), 'customer:b', 0));
+    await queue.enqueue(createQueueEntry(event('evt_a2'), 'customer:a', 0));
+
+    await worker.drain();
+    // Customer b isn't blocked; a2 waits behind the failed a1
+    expect(handled).toEqual(['failed_a1', 'evt_b1']);
+
+    clock.advance(1000);
+    await worker.drain();
+    expect(handled).toEqual(['failed_a1', 'evt_b1', 'evt_a1', 'evt_a2']);
+    expect(await queue.pending()).toEqual([]);
+  });
+
+  it('backs off between attempts and dead-letters after maxAttempts', async () => {
+    const handler = vi.fn().mockRejectedValue(new Error('boom'));
+    const { clock, queue, worker } = setup(handler);
+    await queue.enqueue(createQueueEntry(event('evt_1'), 'customer:a', 0));
+
+    await worker.drain();
+    expect((await queue.pending())[0]).toMatchObject({ attempts: 1, nextAttemptAt: 1000, lastError: 'boom' });
+
+    await worker.drain(); // Not due yet
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    clock.advance(1000);
+    await worker.drain();
+    clock.advance(2000);
+    await worker.drain();
+
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(await queue.pending()).toEqual([]);
+    expect(await queue.deadLetters()).toMatchObject([{ attempts: 3, lastError: 'boom', deadLetteredAt: 3000 }]);
+  });
+
+  it('drops duplicates of already processed events without handling them again', async () => {
+    const handler = vi.fn().mockResolvedValue(undefined);
+    const { queue, idempotencyStore, worker } = setup(handler);
+    await idempotencyStore.claim('evt_1');
+    await idempotencyStore.complete('evt_1');
+    await queue.enqueue(createQueueEntry(event('evt_1'), 'customer:a', 0));
+
+    expect(await worker.drain()).toBe(1);
+    expect(handler).not.toHaveBeenCalled();
+    expect(await queue.pending()).toEqual([]);
+  });
+
+  it('processes a replayed dead letter', async () => {
+    const handler = vi.fn().mockResolvedValue(undefined);
+    const { clock, queue, worker } = setup(handler);
+    const entry = createQueueEntry(event('evt_1'), 'customer:a', 0);
+    await queue.enqueue(entry);
+    await queue.moveToDeadLetter({ ...entry, attempts: 3, lastError: 'boom', deadLetteredAt: 0 });
+
+    await replayDeadLetter(queue, 'evt_1', clock);
+    await worker.drain();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(await queue.pending()).toEqual([]);
+  });
+});
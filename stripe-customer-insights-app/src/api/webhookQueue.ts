@@ -0,0 +1,307 @@
+/**
+ * Asynchronous Webhook Queue
+ *
+ * INTERVIEW TOPIC: "Your webhook handler calls Stripe and sometimes takes
+ * 20 seconds. What happens?"
+ *
+ * PROBLEM: Stripe waits for the endpoint's response. A slow inline handler
+ * risks a timeout → Stripe marks the delivery failed and retries it, while
+ * the first attempt is still running.
+ *
+ * SOLUTION: Accept fast, process later
+ *   Endpoint: verify signature → enqueue → 200 (milliseconds)
+ *   Worker:   drain the queue → handleWebhook → retry with backoff
+ *             → dead-letter after maxAttempts
+ *
+ * ORDERING: Events with the same ordering key (the customer) are processed
+ * one at a time, oldest first. A failing event blocks later events for its
+ * customer until it succeeds or is dead-lettered - other customers continue.
+ *
+ * DEAD LETTERS: Events that keep failing are parked for an operator to
+ * inspect and replay (npm run webhooks:dead-letters).
+ *
+ * IMPLEMENTATIONS:
+ * - InMemoryWebhookQueueStore: tests
+ * - FileWebhookQueueStore (./fileWebhookQueueStore.ts): durable, survives restarts
+ */
+
+import Stripe from 'stripe';
+import { Clock, systemClock } from './clock';
+import { IdempotencyStore } from './idempotency';
+import { RetryPolicy, computeBackoffDelay } from './retry';
+
+export interface QueuedWebhookEvent {
+  event: Stripe.Event;
+  orderingKey: string; // Usually the customer id
+  enqueuedAt: number;
+  sequence: number; // Tie-breaker for events enqueued in the same millisecond - assigned by the store
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+  deadLetteredAt: number | null;
+}
+
+/**
+ * SEQUENCE: enqueue() overwrites entry.sequence with the store's own
+ * counter. Persistent stores continue after the highest sequence they hold,
+ * so entries enqueued after a restart still sort after the ones before it.
+ */
+export interface WebhookQueueStore {
+  enqueue(entry: QueuedWebhookEvent): Promise<boolean>; // false if the event is already queued
+  pending(): Promise<QueuedWebhookEvent[]>; // Oldest first
+  update(entry: QueuedWebhookEvent): Promise<void>;
+  remove(eventId: string): Promise<void>;
+  moveToDeadLetter(entry: QueuedWebhookEvent): Promise<void>;
+  deadLetters(): Promise<QueuedWebhookEvent[]>;
+  getDeadLetter(eventId: string): Promise<QueuedWebhookEvent | undefined>;
+  removeDeadLetter(eventId: string): Promise<void>;
+}
+
+/**
+ * Create a queue entry for a freshly received event
+ *
+ * The sequence is a placeholder until the store enqueues it.
+ */
+export function createQueueEntry(event: Stripe.Event, orderingKey: string, now: number): QueuedWebhookEvent {
+  return {
+    event,
+    orderingKey,
+    enqueuedAt: now,
+    sequence: 0,
+    attempts: 0,
+    nextAttemptAt: now,
+    lastError: null,
+    deadLetteredAt: null,
+  };
+}
+
+export function compareQueueEntries(a: QueuedWebhookEvent, b: QueuedWebhookEvent): number {
+  return a.enqueuedAt - b.enqueuedAt || a.sequence - b.sequence;
+}
+
+/**
+ * Move a dead-lettered event back to the queue with a fresh retry budget
+ *
+ * Returns false if there is no such dead letter.
+ */
+export async function replayDeadLetter(
+  store: WebhookQueueStore,
+  eventId: string,
+  clock: Clock = systemClock
+): Promise<boolean> {
+  const entry = await store.getDeadLetter(eventId);
+  if (!entry) return false;
+
+  // Enqueue first: a crash in between leaves a duplicate, which the
+  // idempotency store skips, rather than a lost event
+  await store.enqueue({ ...createQueueEntry(entry.event, entry.orderingKey, clock.now()), lastError: entry.lastError });
+  await store.removeDeadLetter(eventId);
+  return true;
+}
+
+/**
+ * In-memory implementation (tests)
+ */
+export class InMemoryWebhookQueueStore implements WebhookQueueStore {
+  private readonly queued = new Map<string, QueuedWebhookEvent>();
+  private readonly dead = new Map<string, QueuedWebhookEvent>();
+  private nextSequence = 0;
+
+  async enqueue(entry: QueuedWebhookEvent): Promise<boolean> {
+    if (this.queued.has(entry.event.id)) return false;
+    this.queued.set(entry.event.id, { ...entry, sequence: this.nextSequence++ });
+    return true;
+  }
+
+  async pending(): Promise<QueuedWebhookEvent[]> {
+    return [...this.queued.values()].sort(compareQueueEntries);
+  }
+
+  async update(entry: QueuedWebhookEvent): Promise<void> {
+    this.queued.set(entry.event.id, entry);
+  }
+
+  async remove(eventId: string): Promise<void> {
+    this.queued.delete(eventId);
+  }
+
+  async moveToDeadLetter(entry: QueuedWebhookEvent): Promise<void> {
+    this.dead.set(entry.event.id, entry);
+    this.queued.delete(entry.event.id);
+  }
+
+  async deadLetters(): Promise<QueuedWebhookEvent[]> {
+    return [...this.dead.values()].sort(compareQueueEntries);
+  }
+
+  async getDeadLetter(eventId: string): Promise<QueuedWebhookEvent | undefined> {
+    return this.dead.get(eventId);
+  }
+
+  async removeDeadLetter(eventId: string): Promise<void> {
+    this.dead.delete(eventId);
+  }
+}
+
+/**
+ * Retry budget for queued events
+ *
+ * More patient than API retries: a handler usually fails because Stripe or
+ * the cache is unavailable, which can take minutes to recover.
+ * 8 attempts ≈ up to ~10 minutes of backoff before dead-lettering.
+ */
+export const DEFAULT_WEBHOOK_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 8,
+  baseDelayMs: 5000,
+  maxDelayMs: 5 * 60 * 1000,
+  random: Math.random,
+};
+
+export interface WebhookWorkerOptions {
+  queue: WebhookQueueStore;
+  handler: (event: Stripe.Event) => Promise<void>;
+  idempotencyStore: IdempotencyStore;
+  retryPolicy?: Partial<RetryPolicy>;
+  clock?: Clock;
+  pollIntervalMs?: number;
+}
+
+/**
+ * Drains the queue
+ *
+ * USAGE: worker.start() once at server startup; the endpoint calls wake()
+ * after enqueueing so new events don't wait for the next poll.
+ */
+export class WebhookWorker {
+  private readonly queue: WebhookQueueStore;
+  private readonly handler: (event: Stripe.Event) => Promise<void>;
+  private readonly idempotencyStore: IdempotencyStore;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly clock: Clock;
+  private readonly pollIntervalMs: number;
+  private running = false;
+  private loop: Promise<void> | null = null;
+  private draining: Promise<number> | null = null;
+
+  constructor(options: WebhookWorkerOptions) {
+    this.queue = options.queue;
+    this.handler = options.handler;
+    this.idempotencyStore = options.idempotencyStore;
+    this.retryPolicy = { ...DEFAULT_WEBHOOK_RETRY_POLICY, ...options.retryPolicy };
+    this.clock = options.clock ?? systemClock;
+    this.pollIntervalMs = options.pollIntervalMs ?? 1000;
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.loop = this.run();
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    await this.loop;
+    await this.draining;
+  }
+
+  wake(): void {
+    if (this.running) {
+      this.drain().catch(error => console.error('Webhook queue drain failed:', error));
+    }
+  }
+
+  /**
+   * Process every due event until none are left
+   *
+   * Returns how many events were settled (handled, skipped as duplicates or
+   * dead-lettered). Events scheduled for a later retry stay queued.
+   * Concurrent calls share one drain.
+   */
+  drain(): Promise<number> {
+    if (!this.draining) {
+      this.draining = this.drainPasses().finally(() => {
+        this.draining = null;
+      });
+    }
+    return this.draining;
+  }
+
+  private async run(): Promise<void> {
+    while (this.running) {
+      await this.drain().catch(error => console.error('Webhook queue drain failed:', error));
+      await this.clock.sleep(this.pollIntervalMs);
+    }
+  }
+
+  private async drainPasses(): Promise<number> {
+    let total = 0;
+    for (;;) {
+      const settled = await this.runPass();
+      if (settled === 0) return total;
+      total += settled;
+    }
+  }
+
+  /**
+   * One pass: the oldest event of each ordering key, if it is due
+   */
+  private async runPass(): Promise<number> {
+    const heads = new Map<string, QueuedWebhookEvent>();
+    for (const entry of await this.queue.pending()) {
+      if (!heads.has(entry.orderingKey)) heads.set(entry.orderingKey, entry);
+    }
+
+    const now = this.clock.now();
+    const due = [...heads.values()].filter(entry => entry.nextAttemptAt <= now);
+    const results = await Promise.all(due.map(entry => this.process(entry)));
+    return results.filter(Boolean).length;
+  }
+
+  /**
+   * Returns true when the entry left the queue
+   */
+  private async process(entry: QueuedWebhookEvent): Promise<boolean> {
+    const { event } = entry;
+
+    if (!(await this.idempotencyStore.claim(event.id))) {
+      // Already processed (duplicate delivery) → drop it; otherwise another
+      // worker holds the claim → try again on the next pass
+      if (!(await this.idempotencyStore.isProcessed(event.id))) return false;
+      console.log(`Duplicate event ${event.id}, skipping`);
+      await this.queue.remove(event.id);
+      return true;
+    }
+
+    try {
+      await this.handler(event);
+    } catch (error) {
+      await this.idempotencyStore.release(event.id);
+      return this.scheduleRetry(entry, error);
+    }
+
+    await this.idempotencyStore.complete(event.id);
+    await this.queue.remove(event.id);
+    return true;
+  }
+
+  private async scheduleRetry(entry: QueuedWebhookEvent, error: unknown): Promise<boolean> {
+    const attempts = entry.attempts + 1;
+    const lastError = error instanceof Error ? error.message : String(error);
+    const now = this.clock.now();
+
+    if (attempts >= this.retryPolicy.maxAttempts) {
+      await this.queue.moveToDeadLetter({ ...entry, attempts, lastError, deadLetteredAt: now });
+      console.error(
+        `Webhook ${entry.event.id} (${entry.event.type}) dead-lettered after ${attempts} attempts: ${lastError}`
+      );
+      return true;
+    }
+
+    const delayMs = computeBackoffDelay(attempts, this.retryPolicy);
+    await this.queue.update({ ...entry, attempts, lastError, nextAttemptAt: now + delayMs });
+    console.warn(
+      `Webhook ${entry.event.id} failed (attempt ${attempts}/${this.retryPolicy.maxAttempts}), retrying in ${delayMs}ms: ${lastError}`
+    );
+    return false;
+  }
+}
@@ -0,0 +1,136 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import Stripe from 'stripe';
+import manifest from '../../stripe-app.json';
+import { configureStripeClient, fetchCustomerDataWithCache } from './stripeClient';
+import { HANDLED_WEBHOOK_EVENTS, eventOrderingKey, getDiscardedStaleEventCount, handleWebhook } from './webhooks';
+
+const CUSTOMER_ID = 'cus_123';
+
+function list<T>(data: T[]) {
+  return { object: 'list', data, has_more: false, url: '' };
+}
+
+function createFakeStripe(overrides: Record<string, any> = {}) {
+  return {
+    customers: {
+      retrieve: vi.fn().mockResolvedValue({ id: CUSTOMER_ID, object: 'customer' }),
+      listPaymentMethods: vi.fn().mockResolvedValue(list([])),
+    },
+    charges: { list: vi.fn().mockResolvedValue(list([])), retrieve: vi.fn() },
+    paymentIntents: { list: vi.fn().mockResolvedValue(list([])) },
+    subscriptions: { list: vi.fn().mockResolvedValue(list([])) },
+    invoices: { list: vi.fn().mockResolvedValue(list([])) },
+    ...overrides,
+  };
+}
+
+function event(type: string, object: object, created = 1): Stripe.Event {
+  return { id: `evt_${type}_${created}`, object: 'event', type, created, data: { object } } as unknown as Stripe.Event;
+}
+
+afterEach(() => {
+  configureStripeClient();
+});
+
+describe('webhook event coverage', () => {
+  it('subscribes to exactly the handled events in stripe-app.json', () => {
+    expect([...manifest.app_backend.webhooks.events].sort()).toEqual([...HANDLED_WEBHOOK_EVENTS].sort());
+  });
+});
+
+describe('handleWebhook', () => {
+  it('applies customer.subscription.updated to the cached subscriptions', async () => {
+    const subscription = { id: 'sub_1', object: 'subscription', customer: CUSTOMER_ID, created: 1, status: 'active' };
+    const fake = createFakeStripe({
+      subscriptions: { list: vi.fn().mockResolvedValue(list([subscription])) },
+    });
+    configureStripeClient({ stripe: fake as unknown as Stripe });
+    await fetchCustomerDataWithCache(CUSTOMER_ID);
+
+    await handleWebhook(event('customer.subscription.updated', { ...subscription, status: 'past_due' }));
+    const { data } = await fetchCustomerDataWithCache(CUSTOMER_ID);
+
+    expect(data.subscriptions.map(s => s.status)).toEqual(['past_due']);
+    expect(fake.subscriptions.list).toHaveBeenCalledTimes(1);
+  });
+
+  it('looks up the charge of a dispute to find the customer, flags the charge and caches the dispute', async () => {
+    const charge = { id: 'ch_1', object: 'charge', customer: CUSTOMER_ID, created: 1, disputed: false };
+    const fake = createFakeStripe({
+      charges: {
+        list: vi.fn().mockResolvedValue(list([charge])),
+        retrieve: vi.fn().mockResolvedValue({ ...charge, disputed: true }),
+      },
+    });
+    configureStripeClient({ stripe: fake as unknown as Stripe });
+    await fetchCustomerDataWithCache(CUSTOMER_ID);
+
+    await handleWebhook(
+      event('charge.dispute.created', { id: 'dp_1', object: 'dispute', charge: 'ch_1', status: 'needs_response' })
+    );
+    const { data } = await fetchCustomerDataWithCache(CUSTOMER_ID);
+
+    expect(fake.charges.retrieve).toHaveBeenCalledWith('ch_1');
+    expect(data.charges[0].disputed).toBe(true);
+    expect(data.disputes.map(d => [d.id, d.status])).toEqual([['dp_1', 'needs_response']]);
+  });
+
+  it('drops the cached data when the customer is deleted', async () => {
+    const fake = createFakeStripe();
+    configureStripeClient({ stripe: fake as unknown as Stripe });
+    await fetchCustomerDataWithCache(CUSTOMER_ID);
+
+    await handleWebhook(event('customer.deleted', { id: CUSTOMER_ID, object: 'customer' }));
+    await fetchCustomerDataWithCache(CUSTOMER_ID);
+
+    expect(fake.customers.retrieve).toHaveBeenCalledTimes(2);
+  });
+
+  it('discards an older event that arrives after a newer one', async () => {
+    const subscription = { id: 'sub_1', object: 'subscription', customer: CUSTOMER_ID, created: 1, status: 'active' };
+    const fake = createFakeStripe({
+      subscriptions: { list: vi.fn().mockResolvedValue(list([subscription])) },
+    });
+    configureStripeClient({ stripe: fake as unknown as Stripe });
+    await fetchCustomerDataWithCache(CUSTOMER_ID);
+    const discardedBefore = getDiscardedStaleEventCount();
+
+    await handleWebhook(event('customer.subscription.updated', { ...subscription, status: 'canceled' }, 200));
+    await handleWebhook(event('customer.subscription.updated', { ...subscription, status: 'past_due' }, 100));
+    const { data } = await fetchCustomerDataWithCache(CUSTOMER_ID);
+
+    expect(data.subscriptions.map(s => s.status)).toEqual(['canceled']);
+    expect(getDiscardedStaleEventCount() - discardedBefore).toBe(1);
+  });
+});
+
+describe('eventOrderingKey', () => {
+  it('orders a dispute with the other events of its charge\'s customer', async () => {
+    const fake = createFakeStripe({
+      charges: { retrieve: vi.fn().mockResolvedValue({ id: 'ch_1', object: 'charge', customer: CUSTOMER_ID }) },
+    });
+    configureStripeClient({ stripe: fake as unknown as Stripe });
+
+    const dispute = { id: 'dp_1', object: 'dispute', charge: 'ch_1' };
+    expect(await eventOrderingKey(event('charge.dispute.created', dispute))).toBe(`customer:${CUSTOMER_ID}`);
+    expect(fake.charges.retrieve).toHaveBeenCalledWith('ch_1');
+
+    const expanded = { ...dispute, charge: { id: 'ch_1', object: 'charge', customer: CUSTOMER_ID } };
+    expect(await eventOrderingKey(event('charge.dispute.closed', expanded))).toBe(`customer:${CUSTOMER_ID}`);
+    expect(fake.charges.retrieve).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to the charge when its customer is unknown', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fake = createFakeStripe({
+      charges: { retrieve: vi.fn().mockRejectedValue(new Error('No such charge')) },
+    });
+    configureStripeClient({ stripe: fake as unknown as Stripe });
+
+    const dispute = { id: 'dp_1', object: 'dispute', charge: 'ch_1' };
+    expect(await eventOrderingKey(event('charge.dispute.created', dispute))).toBe('charge:ch_1');
+
+    const guest = { ...dispute, charge: { id: 'ch_2', object: 'charge', customer: null } };
+    expect(await eventOrderingKey(event('charge.dispute.created', guest))).toBe('charge:ch_2');
+  });
+});
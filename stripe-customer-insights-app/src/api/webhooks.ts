@@ -6,24 +6,67 @@
  * WHY WEBHOOKS?
  * Instead of polling "Did anything change?" every N seconds:
  * - Stripe pushes events to your app when something happens
- * - Real-time updates (customer data changed? Invalidate cache!)
+ * - Real-time updates (customer data changed? Patch the cached data!)
  * - Efficient (no unnecessary API calls)
  *
- * WEBHOOK EVENTS WE HANDLE:
- * - customer.created - New customer signed up
- * - customer.updated - Customer info changed (email, metadata, etc.)
- * - charge.succeeded - Payment succeeded
- * - charge.failed - Payment failed
- * - subscription.created - New subscription started
- * - subscription.deleted - Subscription canceled
+ * WEBHOOK EVENTS WE HANDLE (HANDLED_WEBHOOK_EVENTS, mirrored in stripe-app.json):
+ * - customer.created / updated / deleted - Customer lifecycle
+ * - charge.succeeded / failed / refunded - Payments and refunds
+ * - charge.dispute.created / closed - Chargebacks
+ * - customer.subscription.created / updated / deleted - Subscription lifecycle
+ * - invoice.paid / payment_failed - Billing outcomes
+ * - payment_intent.payment_failed - Failed payment attempts (incl. declined 3DS)
+ *
+ * GOTCHA: Subscription events are `customer.subscription.*` - there is no
+ * `subscription.created` event, and Stripe silently never sends unknown names.
  */
 
 import Stripe from 'stripe';
-import { invalidateCache } from './stripeClient';
+import { applyEventToCachedCustomer, fetchCharge, invalidateCache } from './stripeClient';
+import { FileIdempotencyStore } from './fileIdempotencyStore';
+import { FileWebhookQueueStore } from './fileWebhookQueueStore';
+import { IdempotencyStore } from './idempotency';
+import {
+  WebhookQueueStore,
+  WebhookWorker,
+  WebhookWorkerOptions,
+  createQueueEntry,
+} from './webhookQueue';
+import { formatCurrency } from '../utils/calculations';
+import { customerIdOf, reduceCustomerData } from '../utils/customerDataReducer';
+import { moneyFromMinorUnits } from '../utils/money';
 
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
-  apiVersion: '2024-12-18',
-});
+/**
+ * Every event type handleWebhook routes
+ *
+ * SOURCE OF TRUTH: stripe-app.json must subscribe to exactly this list
+ * (enforced by webhooks.test.ts), and handleWebhook's switch must cover it
+ * (enforced by the compiler).
+ */
+export const HANDLED_WEBHOOK_EVENTS = [
+  'customer.created',
+  'customer.updated',
+  'customer.deleted',
+  'charge.succeeded',
+  'charge.failed',
+  'charge.refunded',
+  'charge.dispute.created',
+  'charge.dispute.closed',
+  'customer.subscription.created',
+  'customer.subscription.updated',
+  'customer.subscription.deleted',
+  'invoice.paid',
+  'invoice.payment_failed',
+  'payment_intent.payment_failed',
+] as const satisfies readonly Stripe.Event.Type[];
+
+export type HandledWebhookEventType = (typeof HANDLED_WEBHOOK_EVENTS)[number];
+
+export type HandledWebhookEvent = Extract<Stripe.Event, { type: HandledWebhookEventType }>;
+
+export function isHandledWebhookEvent(event: Stripe.Event): event is HandledWebhookEvent {
+  return (HANDLED_WEBHOOK_EVENTS as readonly string[]).includes(event.type);
+}
 
 /**
  * Webhook signature verification
@@ -39,16 +82,17 @@ const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
  * INTERVIEW QUESTION: "Why is webhook verification important?"
  * Answer: Without verification, an attacker could send fake events:
  * - Fake "charge.succeeded" events → your app thinks payment succeeded when it didn't
- * - Fake "subscription.deleted" → your app disables service for paying customer
+ * - Fake "customer.subscription.deleted" → your app disables service for paying customer
  * - Data poisoning → corrupt your analytics
  */
 export function verifyWebhookSignature(
-  payload: string,
+  payload: string | Buffer, // The RAW body - the signature covers the exact bytes Stripe sent
   signature: string,
   secret: string
 ): Stripe.Event {
   try {
-    return stripe.webhooks.constructEvent(payload, signature, secret);
+    // Static helper: verification only needs the webhook secret, not an API key
+    return Stripe.webhooks.constructEvent(payload, signature, secret);
   } catch (error) {
     console.error('Webhook signature verification failed:', error);
     throw new Error('Invalid webhook signature');
@@ -58,41 +102,108 @@ export function verifyWebhookSignature(
 /**
  * Main webhook handler
  *
- * ARCHITECTURE: Route different event types to different handlers
+ * ARCHITECTURE: Route different event types to different handlers.
+ * Each case narrows `event`, so handlers receive the correctly typed object.
  */
 export async function handleWebhook(event: Stripe.Event): Promise<void> {
   console.log(`Processing webhook: ${event.type}`);
 
+  if (!isHandledWebhookEvent(event)) {
+    console.log(`Unhandled event type: ${event.type}`);
+    return;
+  }
+
   switch (event.type) {
     case 'customer.created':
-      await handleCustomerCreated(event.data.object as Stripe.Customer);
+      await handleCustomerCreated(event.data.object);
       break;
 
     case 'customer.updated':
-      await handleCustomerUpdated(event.data.object as Stripe.Customer);
+      await handleCustomerUpdated(event.data.object, event);
+      break;
+
+    case 'customer.deleted':
+      await handleCustomerDeleted(event.data.object);
       break;
 
     case 'charge.succeeded':
-      await handleChargeSucceeded(event.data.object as Stripe.Charge);
+      await handleChargeSucceeded(event.data.object, event);
       break;
 
     case 'charge.failed':
-      await handleChargeFailed(event.data.object as Stripe.Charge);
+      await handleChargeFailed(event.data.object, event);
+      break;
+
+    case 'charge.refunded':
+      await handleChargeRefunded(event.data.object, event);
+      break;
+
+    case 'charge.dispute.created':
+    case 'charge.dispute.closed':
+      await handleDispute(event.data.object, event);
+      break;
+
+    case 'customer.subscription.created':
+      await handleSubscriptionCreated(event.data.object, event);
+      break;
+
+    case 'customer.subscription.updated':
+      await handleSubscriptionUpdated(event.data.object, event);
+      break;
+
+    case 'customer.subscription.deleted':
+      await handleSubscriptionDeleted(event.data.object, event);
       break;
 
-    case 'subscription.created':
-      await handleSubscriptionCreated(event.data.object as Stripe.Subscription);
+    case 'invoice.paid':
+    case 'invoice.payment_failed':
+      await handleInvoice(event.data.object, event);
       break;
 
-    case 'subscription.deleted':
-      await handleSubscriptionDeleted(event.data.object as Stripe.Subscription);
+    case 'payment_intent.payment_failed':
+      await handlePaymentIntentFailed(event.data.object, event);
       break;
 
-    default:
-      console.log(`Unhandled event type: ${event.type}`);
+    default: {
+      // Compile error here = an event in HANDLED_WEBHOOK_EVENTS has no case
+      const unreachable: never = event;
+      return unreachable;
+    }
   }
 }
 
+/**
+ * Apply an event to the customer's cached data
+ *
+ * INCREMENTAL UPDATE: Patch the cached charges/subscriptions/... with the
+ * event's object instead of throwing the whole cache away. If the customer
+ * isn't (fully) cached there's nothing to patch, so clear any partial data.
+ *
+ * OUT-OF-ORDER PROTECTION: Events older than the newest one already applied
+ * to the same object are discarded (see utils/eventOrdering.ts).
+ */
+let discardedStaleEvents = 0;
+
+async function applyEventToCustomer(customerId: string, event: Stripe.Event): Promise<void> {
+  const outcome = await applyEventToCachedCustomer(customerId, event, data => reduceCustomerData(data, event));
+
+  if (outcome === 'stale') {
+    discardedStaleEvents++;
+    console.log(
+      `Discarded stale event ${event.id} (${event.type}) for customer ${customerId} - ${discardedStaleEvents} stale events discarded so far`
+    );
+  } else if (outcome === 'not-cached') {
+    await invalidateCache(customerId);
+  }
+}
+
+/**
+ * Number of out-of-order events discarded since startup (for metrics)
+ */
+export function getDiscardedStaleEventCount(): number {
+  return discardedStaleEvents;
+}
+
 /**
  * Handle customer.created event
  *
@@ -115,23 +226,35 @@ async function handleCustomerCreated(customer: Stripe.Customer): Promise<void> {
 /**
  * Handle customer.updated event
  *
- * CACHE INVALIDATION: Customer data changed, clear cache
+ * CACHE UPDATE: Customer data changed, replace the cached customer object
  */
-async function handleCustomerUpdated(customer: Stripe.Customer): Promise<void> {
+async function handleCustomerUpdated(customer: Stripe.Customer, event: Stripe.Event): Promise<void> {
   console.log(`Customer updated: ${customer.id}`);
 
-  // Invalidate cache so next request fetches fresh data
-  invalidateCache(customer.id);
+  await applyEventToCustomer(customer.id, event);
 
   // INTERVIEW INSIGHT: "What if webhook arrives before API call returns?"
   // This is called "eventual consistency"
   // - Webhook says "customer updated" but API still returns old data
   // - Solutions:
   //   1. Add timestamp to cache, ignore webhooks older than cached data
+  //      (done: applyEventToCustomer discards events older than the last applied one)
   //   2. Use webhook as hint to refresh, don't trust it as source of truth
   //   3. Implement versioning (etags) to detect stale data
 }
 
+/**
+ * Handle customer.deleted event
+ *
+ * CACHE UPDATE: Nothing to patch - drop everything cached for the customer
+ * (the next fetch reports "Customer has been deleted")
+ */
+async function handleCustomerDeleted(customer: Stripe.Customer): Promise<void> {
+  console.log(`Customer deleted: ${customer.id}`);
+
+  await invalidateCache(customer.id);
+}
+
 /**
  * Handle charge.succeeded event
  *
@@ -140,26 +263,21 @@ async function handleCustomerUpdated(customer: Stripe.Customer): Promise<void> {
  * - Payment Pattern (success rate)
  * - Risk Score (may decrease if customer had failures before)
  */
-async function handleChargeSucceeded(charge: Stripe.Charge): Promise<void> {
-  const customerId = typeof charge.customer === 'string' ? charge.customer : charge.customer?.id;
+async function handleChargeSucceeded(charge: Stripe.Charge, event: Stripe.Event): Promise<void> {
+  const customerId = customerIdOf(charge.customer);
 
   if (!customerId) {
     console.warn('Charge succeeded but no customer ID:', charge.id);
     return;
   }
 
-  console.log(`Charge succeeded for customer ${customerId}: ${charge.amount / 100}`);
-
-  // Invalidate cache - insights need recalculation
-  invalidateCache(customerId);
+  console.log(
+    `Charge succeeded for customer ${customerId}: ${formatCurrency(moneyFromMinorUnits(charge.amount, charge.currency))}`
+  );
 
-  // PERFORMANCE OPTIMIZATION: Instead of recalculating everything,
-  // you could incrementally update:
-  // - LTV += charge.amount
-  // - successfulPayments += 1
-  // - successRate = successfulPayments / totalPayments
-  //
-  // But this requires storing state. For now, we recalculate on demand.
+  // Append the charge to the cached history - insights are recalculated from
+  // the patched data on the next view, with no API calls
+  await applyEventToCustomer(customerId, event);
 }
 
 /**
@@ -167,8 +285,8 @@ async function handleChargeSucceeded(charge: Stripe.Charge): Promise<void> {
  *
  * RISK SIGNAL: Failed payment increases risk score
  */
-async function handleChargeFailed(charge: Stripe.Charge): Promise<void> {
-  const customerId = typeof charge.customer === 'string' ? charge.customer : charge.customer?.id;
+async function handleChargeFailed(charge: Stripe.Charge, event: Stripe.Event): Promise<void> {
+  const customerId = customerIdOf(charge.customer);
 
   if (!customerId) {
     console.warn('Charge failed but no customer ID:', charge.id);
@@ -177,8 +295,8 @@ async function handleChargeFailed(charge: Stripe.Charge): Promise<void> {
 
   console.log(`Charge failed for customer ${customerId}: ${charge.failure_message}`);
 
-  // Invalidate cache
-  invalidateCache(customerId);
+  // Record the failed attempt (affects success rate and risk score)
+  await applyEventToCustomer(customerId, event);
 
   // PRODUCT FEATURE IDEA: Alert merchant about failed payment
   // - Send email notification
@@ -187,14 +305,58 @@ async function handleChargeFailed(charge: Stripe.Charge): Promise<void> {
 }
 
 /**
- * Handle subscription.created event
+ * Handle charge.refunded event
+ *
+ * LTV UPDATE: The charge now carries amount_refunded (full or partial refund)
+ */
+async function handleChargeRefunded(charge: Stripe.Charge, event: Stripe.Event): Promise<void> {
+  const customerId = customerIdOf(charge.customer);
+
+  if (!customerId) {
+    console.warn('Charge refunded but no customer ID:', charge.id);
+    return;
+  }
+
+  console.log(
+    `Charge refunded for customer ${customerId}: ${formatCurrency(moneyFromMinorUnits(charge.amount_refunded, charge.currency))}`
+  );
+
+  await applyEventToCustomer(customerId, event);
+}
+
+/**
+ * Handle charge.dispute.created / charge.dispute.closed events
+ *
+ * RISK SIGNAL: Chargebacks are the strongest risk factor we track
+ *
+ * GOTCHA: A Dispute has no customer field - only its charge. Unless the
+ * charge was expanded, fetch it to find the customer.
+ */
+async function handleDispute(dispute: Stripe.Dispute, event: Stripe.Event): Promise<void> {
+  const charge = typeof dispute.charge === 'string' ? await fetchCharge(dispute.charge) : dispute.charge;
+  const customerId = customerIdOf(charge.customer);
+
+  if (!customerId) {
+    console.warn('Dispute but no customer ID on its charge:', dispute.id);
+    return;
+  }
+
+  console.log(`Dispute ${dispute.status} for customer ${customerId}: ${dispute.id} (${dispute.reason})`);
+
+  // Marks the cached charge as disputed
+  await applyEventToCustomer(customerId, event);
+}
+
+/**
+ * Handle customer.subscription.created event
  *
  * MRR UPDATE: New subscription increases monthly recurring revenue
  */
-async function handleSubscriptionCreated(subscription: Stripe.Subscription): Promise<void> {
-  const customerId = typeof subscription.customer === 'string'
-    ? subscription.customer
-    : subscription.customer?.id;
+async function handleSubscriptionCreated(
+  subscription: Stripe.Subscription,
+  event: Stripe.Event
+): Promise<void> {
+  const customerId = customerIdOf(subscription.customer);
 
   if (!customerId) {
     console.warn('Subscription created but no customer ID:', subscription.id);
@@ -203,8 +365,7 @@ async function handleSubscriptionCreated(subscription: Stripe.Subscription): Pro
 
   console.log(`New subscription for customer ${customerId}: ${subscription.id}`);
 
-  // Invalidate cache
-  invalidateCache(customerId);
+  await applyEventToCustomer(customerId, event);
 
   // ANALYTICS: Track subscription conversion rate
   // - How many customers have >1 subscription?
@@ -212,14 +373,37 @@ async function handleSubscriptionCreated(subscription: Stripe.Subscription): Pro
 }
 
 /**
- * Handle subscription.deleted event
+ * Handle customer.subscription.updated event
+ *
+ * MRR/HEALTH UPDATE: Plan changes, trial → active, active → past_due,
+ * cancel_at_period_end toggled, ...
+ */
+async function handleSubscriptionUpdated(
+  subscription: Stripe.Subscription,
+  event: Stripe.Event
+): Promise<void> {
+  const customerId = customerIdOf(subscription.customer);
+
+  if (!customerId) {
+    console.warn('Subscription updated but no customer ID:', subscription.id);
+    return;
+  }
+
+  console.log(`Subscription updated for customer ${customerId}: ${subscription.id} (${subscription.status})`);
+
+  await applyEventToCustomer(customerId, event);
+}
+
+/**
+ * Handle customer.subscription.deleted event
  *
  * CHURN SIGNAL: Subscription canceled
  */
-async function handleSubscriptionDeleted(subscription: Stripe.Subscription): Promise<void> {
-  const customerId = typeof subscription.customer === 'string'
-    ? subscription.customer
-    : subscription.customer?.id;
+async function handleSubscriptionDeleted(
+  subscription: Stripe.Subscription,
+  event: Stripe.Event
+): Promise<void> {
+  const customerId = customerIdOf(subscription.customer);
 
   if (!customerId) {
     console.warn('Subscription deleted but no customer ID:', subscription.id);
@@ -228,8 +412,8 @@ async function handleSubscriptionDeleted(subscription: Stripe.Subscription): Pro
 
   console.log(`Subscription canceled for customer ${customerId}: ${subscription.id}`);
 
-  // Invalidate cache
-  invalidateCache(customerId);
+  // The event carries the subscription with status "canceled" - update it in place
+  await applyEventToCustomer(customerId, event);
 
   // RETENTION OPPORTUNITY: Trigger win-back campaign
   // - Send survey: "Why did you cancel?"
@@ -237,6 +421,48 @@ async function handleSubscriptionDeleted(subscription: Stripe.Subscription): Pro
   // - Follow up in 30 days
 }
 
+/**
+ * Handle invoice.paid / invoice.payment_failed events
+ *
+ * BILLING UPDATE: The invoice's status and attempt_count changed
+ */
+async function handleInvoice(invoice: Stripe.Invoice, event: Stripe.Event): Promise<void> {
+  const customerId = customerIdOf(invoice.customer);
+
+  if (!customerId) {
+    console.warn('Invoice event but no customer ID:', invoice.id);
+    return;
+  }
+
+  console.log(`Invoice ${invoice.status} for customer ${customerId}: ${invoice.id} (attempt ${invoice.attempt_count})`);
+
+  await applyEventToCustomer(customerId, event);
+}
+
+/**
+ * Handle payment_intent.payment_failed event
+ *
+ * RISK SIGNAL: Catches failures that never produce a charge (e.g. a failed
+ * 3D Secure authentication)
+ */
+async function handlePaymentIntentFailed(
+  paymentIntent: Stripe.PaymentIntent,
+  event: Stripe.Event
+): Promise<void> {
+  const customerId = customerIdOf(paymentIntent.customer);
+
+  if (!customerId) {
+    console.warn('PaymentIntent failed but no customer ID:', paymentIntent.id);
+    return;
+  }
+
+  console.log(
+    `PaymentIntent failed for customer ${customerId}: ${paymentIntent.last_payment_error?.code ?? 'unknown error'}`
+  );
+
+  await applyEventToCustomer(customerId, event);
+}
+
 /**
  * Webhook retry logic
  *
@@ -254,69 +480,144 @@ async function handleSubscriptionDeleted(subscription: Stripe.Subscription): Pro
  * - ... up to 3 days
  *
  * YOUR RESPONSIBILITY:
- * 1. Return 200 OK quickly (< 30 seconds)
+ * 1. Return 200 OK quickly (< 30 seconds) - enqueue, then process asynchronously
  * 2. Implement idempotent handlers (same event processed twice = same result)
  * 3. Handle duplicate events gracefully
  */
 
 /**
- * Idempotency check
+ * Idempotency store
  *
- * DESIGN PATTERN: Store processed event IDs to detect duplicates
+ * DESIGN PATTERN: Claim each event id before handling it (see ./idempotency.ts)
+ * - File-backed by default, so processed events survive restarts
+ * - The claim is atomic → two concurrent deliveries can't both run handleWebhook
+ * - Records expire after 30 days
  */
-const processedEvents = new Set<string>();
+let idempotencyStore: IdempotencyStore | null = null;
 
-export function isEventProcessed(eventId: string): boolean {
-  return processedEvents.has(eventId);
+function getIdempotencyStore(): IdempotencyStore {
+  // Created lazily: the file store touches disk, and the browser bundle never gets here
+  if (!idempotencyStore) idempotencyStore = new FileIdempotencyStore();
+  return idempotencyStore;
 }
 
-export function markEventProcessed(eventId: string): void {
-  processedEvents.add(eventId);
+/**
+ * Swap the idempotency store (e.g. InMemoryIdempotencyStore in tests).
+ * Call with no arguments to restore the default file store.
+ */
+export function configureIdempotencyStore(store?: IdempotencyStore): void {
+  idempotencyStore = store ?? null;
+}
 
-  // In production, you'd store this in a database with TTL
-  // (events older than 30 days can be forgotten)
+export function isEventProcessed(eventId: string): Promise<boolean> {
+  return getIdempotencyStore().isProcessed(eventId);
 }
 
 /**
- * Example Express.js webhook endpoint
+ * Webhook queue (see ./webhookQueue.ts)
  *
- * IMPLEMENTATION GUIDE: How to integrate this with your server
+ * The endpoint only verifies and enqueues; the worker runs handleWebhook
+ * with per-customer ordering, retries and a dead-letter store.
  */
-export function createWebhookEndpoint() {
-  return async (req: any, res: any) => {
-    const signature = req.headers['stripe-signature'];
-    const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET || '';
-
-    try {
-      // 1. Verify signature
-      const event = verifyWebhookSignature(req.body, signature, webhookSecret);
-
-      // 2. Check for duplicates
-      if (isEventProcessed(event.id)) {
-        console.log(`Duplicate event ${event.id}, skipping`);
-        return res.status(200).json({ received: true });
-      }
-
-      // 3. Process webhook
-      await handleWebhook(event);
-
-      // 4. Mark as processed
-      markEventProcessed(event.id);
-
-      // 5. Return 200 OK (tells Stripe we received it)
-      res.status(200).json({ received: true });
-    } catch (error) {
-      console.error('Webhook processing failed:', error);
-
-      // Return 400 for invalid signature (don't retry)
-      if (error instanceof Error && error.message.includes('signature')) {
-        return res.status(400).json({ error: 'Invalid signature' });
-      }
-
-      // Return 500 for other errors (Stripe will retry)
-      return res.status(500).json({ error: 'Internal server error' });
-    }
+let webhookQueue: WebhookQueueStore | null = null;
+let webhookWorker: WebhookWorker | null = null;
+
+export function getWebhookQueue(): WebhookQueueStore {
+  if (!webhookQueue) webhookQueue = new FileWebhookQueueStore();
+  return webhookQueue;
+}
+
+/**
+ * Swap the queue store (e.g. InMemoryWebhookQueueStore in tests).
+ * Call with no arguments to restore the default file store.
+ */
+export function configureWebhookQueue(store?: WebhookQueueStore): void {
+  webhookQueue = store ?? null;
+}
+
+/**
+ * Events for one customer must be applied in order; everything else can
+ * run in parallel.
+ *
+ * GOTCHA: Disputes only reference their charge. Keying them by charge would
+ * let a dispute race the customer's other events, so the charge is looked
+ * up (unless expanded) - and only if that fails are they ordered per charge.
+ */
+export async function eventOrderingKey(event: Stripe.Event): Promise<string> {
+  const object = event.data.object as {
+    object?: string;
+    id?: string;
+    customer?: string | Stripe.Customer | Stripe.DeletedCustomer | null;
+    charge?: string | Stripe.Charge;
   };
+
+  if (object.object === 'customer') return `customer:${object.id}`;
+
+  const customerId = customerIdOf(object.customer);
+  if (customerId) return `customer:${customerId}`;
+
+  if (object.charge) {
+    const chargeId = typeof object.charge === 'string' ? object.charge : object.charge.id;
+    const chargeCustomerId = customerIdOf(
+      typeof object.charge === 'string' ? await fetchChargeCustomer(chargeId) : object.charge.customer
+    );
+    return chargeCustomerId ? `customer:${chargeCustomerId}` : `charge:${chargeId}`;
+  }
+  return `${object.object}:${object.id}`;
+}
+
+async function fetchChargeCustomer(chargeId: string): Promise<Stripe.Charge['customer']> {
+  try {
+    return (await fetchCharge(chargeId)).customer;
+  } catch (error) {
+    console.warn(`Failed to look up the customer of charge ${chargeId}, ordering by charge:`, error);
+    return null;
+  }
+}
+
+/**
+ * Accept a verified event for asynchronous processing
+ *
+ * Returns false if the event is already queued (duplicate delivery).
+ */
+export async function enqueueWebhookEvent(event: Stripe.Event): Promise<boolean> {
+  const entry = createQueueEntry(event, await eventOrderingKey(event), Date.now());
+  const queued = await getWebhookQueue().enqueue(entry);
+  webhookWorker?.wake();
+  return queued;
+}
+
+/**
+ * Create a worker wired to handleWebhook and the configured stores
+ */
+export function createWebhookWorker(
+  options: Omit<WebhookWorkerOptions, 'queue' | 'handler' | 'idempotencyStore'> = {}
+): WebhookWorker {
+  return new WebhookWorker({
+    ...options,
+    queue: getWebhookQueue(),
+    handler: handleWebhook,
+    idempotencyStore: getIdempotencyStore(),
+  });
+}
+
+/**
+ * Start draining the queue in this process (call once at server startup)
+ */
+export function startWebhookWorker(
+  options: Omit<WebhookWorkerOptions, 'queue' | 'handler' | 'idempotencyStore'> = {}
+): WebhookWorker {
+  if (!webhookWorker) {
+    webhookWorker = createWebhookWorker(options);
+    webhookWorker.start();
+  }
+  return webhookWorker;
+}
+
+export async function stopWebhookWorker(): Promise<void> {
+  const worker = webhookWorker;
+  webhookWorker = null;
+  await worker?.stop();
 }
 
 /**
@@ -325,10 +626,12 @@ export function createWebhookEndpoint() {
  * 1. Webhook Ordering
  * Q: "Events might arrive out of order. How do you handle this?"
  * A: Include timestamps, only process if newer than current data
+ *    (per-object event versions, see utils/eventOrdering.ts)
  *
  * 2. Webhook Storms
  * Q: "What if a merchant has 10,000 customers and you update all their metadata at once?"
  * A: Rate limiting, queuing (SQS, RabbitMQ), batching
+ *    (here: a local durable queue drained by a worker, see ./webhookQueue.ts)
  *
  * 3. Testing Webhooks
  * Q: "How do you test webhook handlers in development?"
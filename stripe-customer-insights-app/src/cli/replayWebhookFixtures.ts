@@ -0,0 +1,114 @@
+/**
+ * Replay Webhook Fixtures
+ *
+ * USAGE:
+ *   npm run webhooks:replay                                   # handle in-process, in order
+ *   npm run webhooks:replay -- --shuffle --seed 42            # reproducible random order
+ *   npm run webhooks:replay -- --url http://localhost:3000/webhook
+ *   npm run webhooks:replay -- --dir path/to/fixtures --secret whsec_...
+ *
+ * The secret defaults to STRIPE_WEBHOOK_SECRET, or a fixed test secret. When
+ * POSTing, it must match the secret the running endpoint verifies with.
+ *
+ * FIXTURES (fixtures/webhooks): one Stripe event per file, covering every
+ * handled event type for one customer's timeline. The dispute fixtures embed
+ * the expanded charge so in-process replay needs no API access.
+ */
+
+import path from 'node:path';
+import {
+  ReplayResult,
+  WebhookFixture,
+  handleFixture,
+  loadWebhookFixtures,
+  postFixture,
+  shuffleFixtures,
+} from './webhookFixtures';
+
+const DEFAULT_FIXTURE_DIRECTORY = path.join('fixtures', 'webhooks');
+const DEFAULT_TEST_SECRET = 'whsec_local_fixture_replay';
+
+interface ReplayOptions {
+  directory: string;
+  secret: string;
+  url: string | null;
+  shuffle: boolean;
+  seed: number | undefined;
+}
+
+function parseArgs(args: string[]): ReplayOptions {
+  const options: ReplayOptions = {
+    directory: DEFAULT_FIXTURE_DIRECTORY,
+    secret: process.env.STRIPE_WEBHOOK_SECRET || DEFAULT_TEST_SECRET,
+    url: null,
+    shuffle: false,
+    seed: undefined,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const value = () => {
+      const next = args[++i];
+      if (next === undefined) throw new Error(`Missing value for ${args[i - 1]}`);
+      return next;
+    };
+
+    switch (args[i]) {
+      case '--dir':
+        options.directory = value();
+        break;
+      case '--secret':
+        options.secret = value();
+        break;
+      case '--url':
+        options.url = value();
+        break;
+      case '--shuffle':
+        options.shuffle = true;
+        break;
+      case '--seed':
+        options.shuffle = true;
+        options.seed = Number(value());
+        if (!Number.isInteger(options.seed)) throw new Error('--seed must be an integer');
+        break;
+      default:
+        throw new Error(`Unknown option ${args[i]}`);
+    }
+  }
+
+  return options;
+}
+
+async function main(args: string[]): Promise<number> {
+  const options = parseArgs(args);
+
+  let fixtures = await loadWebhookFixtures(options.directory);
+  if (options.shuffle) {
+    const seed = options.seed ?? Math.floor(Math.random() * 2 ** 31);
+    fixtures = shuffleFixtures(fixtures, seed);
+    console.log(`Shuffled with --seed ${seed}`);
+  }
+
+  const deliver = (fixture: WebhookFixture): Promise<ReplayResult> =>
+    options.url ? postFixture(fixture, options.url, options.secret) : handleFixture(fixture, options.secret);
+
+  let failures = 0;
+  for (const fixture of fixtures) {
+    // Sequential on purpose: the order is part of what is being tested
+    const result = await deliver(fixture);
+    if (!result.ok) failures++;
+    console.log(`${result.ok ? '✓' : '✗'} ${fixture.event.type.padEnd(32)} ${fixture.file}  ${result.detail}`);
+  }
+
+  console.log(`\n${fixtures.length - failures}/${fixtures.length} fixtures delivered`);
+  return failures > 0 ? 1 : 0;
+}
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  }
+);
@@ -0,0 +1,81 @@
+/**
+ * Dead-Letter Operator Command
+ *
+ * USAGE:
+ *   npm run webhooks:dead-letters -- list
+ *   npm run webhooks:dead-letters -- inspect <eventId>
+ *   npm run webhooks:dead-letters -- replay <eventId>
+ *   npm run webhooks:dead-letters -- replay --all
+ *
+ * Replay moves the event back to the queue with a fresh retry budget; the
+ * backend's worker picks it up on its next poll. Run from the app directory
+ * (the queue lives in .data/webhook-queue).
+ */
+
+import { FileWebhookQueueStore } from '../api/fileWebhookQueueStore';
+import { QueuedWebhookEvent, replayDeadLetter } from '../api/webhookQueue';
+
+const USAGE = 'Usage: webhooks:dead-letters <list | inspect <eventId> | replay <eventId | --all>>';
+
+async function main(args: string[]): Promise<number> {
+  const store = new FileWebhookQueueStore();
+  const [command, target] = args;
+
+  switch (command) {
+    case 'list': {
+      const entries = await store.deadLetters();
+      if (entries.length === 0) {
+        console.log('No dead-lettered events');
+        return 0;
+      }
+      entries.forEach(entry => console.log(formatRow(entry)));
+      console.log(`\n${entries.length} dead-lettered event(s)`);
+      return 0;
+    }
+
+    case 'inspect': {
+      if (!target) break;
+      const entry = await store.getDeadLetter(target);
+      if (!entry) {
+        console.error(`No dead letter for event ${target}`);
+        return 1;
+      }
+      console.log(JSON.stringify(entry, null, 2));
+      return 0;
+    }
+
+    case 'replay': {
+      if (!target) break;
+      const ids = target === '--all' ? (await store.deadLetters()).map(entry => entry.event.id) : [target];
+
+      let missing = 0;
+      for (const id of ids) {
+        if (await replayDeadLetter(store, id)) {
+          console.log(`Requeued ${id}`);
+        } else {
+          console.error(`No dead letter for event ${id}`);
+          missing++;
+        }
+      }
+      return missing > 0 ? 1 : 0;
+    }
+  }
+
+  console.error(USAGE);
+  return 1;
+}
+
+function formatRow(entry: QueuedWebhookEvent): string {
+  const deadLetteredAt = entry.deadLetteredAt ? new Date(entry.deadLetteredAt).toISOString() : '-';
+  return [entry.event.id, entry.event.type, `${entry.attempts} attempts`, deadLetteredAt, entry.lastError ?? ''].join('  ');
+}
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    console.error(error);
+    process.exitCode = 1;
+  }
+);
@@ -0,0 +1,73 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { createNodeWebhookHandler } from '../api/webhookEndpoint';
+import { InMemoryWebhookQueueStore } from '../api/webhookQueue';
+import { HANDLED_WEBHOOK_EVENTS, configureWebhookQueue, verifyWebhookSignature } from '../api/webhooks';
+import {
+  handleFixture,
+  loadWebhookFixtures,
+  postFixture,
+  shuffleFixtures,
+  signWebhookPayload,
+} from './webhookFixtures';
+
+const FIXTURE_DIRECTORY = fileURLToPath(new URL('../../fixtures/webhooks', import.meta.url));
+const SECRET = 'whsec_test_secret';
+
+describe('signWebhookPayload', () => {
+  it('produces a Stripe-Signature header that verifyWebhookSignature accepts', () => {
+    const payload = JSON.stringify({ id: 'evt_1', object: 'event', type: 'customer.created', data: { object: {} } });
+    const header = signWebhookPayload(payload, SECRET);
+
+    expect(header).toMatch(/^t=\d+,v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(payload, header, SECRET).id).toBe('evt_1');
+    expect(() => verifyWebhookSignature(payload, header, 'whsec_other')).toThrow('Invalid webhook signature');
+  });
+});
+
+describe('webhook fixtures', () => {
+  it('include every handled event type', async () => {
+    const fixtures = await loadWebhookFixtures(FIXTURE_DIRECTORY);
+    const types = new Set(fixtures.map(fixture => fixture.event.type));
+
+    expect([...HANDLED_WEBHOOK_EVENTS].filter(type => !types.has(type))).toEqual([]);
+  });
+
+  it('load in chronological order', async () => {
+    const created = (await loadWebhookFixtures(FIXTURE_DIRECTORY)).map(fixture => fixture.event.created);
+
+    expect(created).toEqual([...created].sort((a, b) => a - b));
+  });
+
+  it.each([undefined, 7])('are all handled without network access (shuffle seed %s)', async seed => {
+    const fixtures = await loadWebhookFixtures(FIXTURE_DIRECTORY);
+    const ordered = seed === undefined ? fixtures : shuffleFixtures(fixtures, seed);
+
+    const results = [];
+    for (const fixture of ordered) results.push(await handleFixture(fixture, SECRET));
+
+    expect(results.filter(result => !result.ok).map(result => `${result.fixture.file}: ${result.detail}`)).toEqual([]);
+  });
+
+  it('POST to a local endpoint as signed deliveries', async () => {
+    const queue = new InMemoryWebhookQueueStore();
+    configureWebhookQueue(queue);
+    const server = http.createServer(createNodeWebhookHandler({ secret: SECRET }));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhook`;
+
+    try {
+      const fixtures = await loadWebhookFixtures(FIXTURE_DIRECTORY);
+      const results = [];
+      for (const fixture of fixtures) results.push(await postFixture(fixture, url, SECRET));
+
+      expect(results.map(result => result.detail)).toEqual(fixtures.map(() => 'HTTP 200'));
+      expect(await queue.pending()).toHaveLength(fixtures.length);
+    } finally {
+      configureWebhookQueue();
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
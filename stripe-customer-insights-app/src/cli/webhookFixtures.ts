@@ -0,0 +1,128 @@
+/**
+ * Webhook Fixture Replay
+ *
+ * DX PROBLEM: Exercising handleWebhook normally needs the Stripe CLI
+ * (`stripe listen` + `stripe trigger`), network access and a test account.
+ *
+ * SOLUTION: Stripe event JSON fixtures on disk, signed locally with a test
+ * secret exactly the way Stripe signs deliveries, then either
+ * - POSTed to a running endpoint (tests the full HTTP path), or
+ * - verified and passed to handleWebhook directly (no server needed)
+ *
+ * Replaying shuffled exercises the out-of-order protection.
+ */
+
+import { createHmac } from 'node:crypto';
+import { readFile, readdir } from 'node:fs/promises';
+import path from 'node:path';
+import Stripe from 'stripe';
+import { handleWebhook, verifyWebhookSignature } from '../api/webhooks';
+
+export interface WebhookFixture {
+  file: string;
+  payload: string; // Raw JSON, signed as-is
+  event: Stripe.Event;
+}
+
+/**
+ * Build a Stripe-Signature header: t=<unix seconds>,v1=<hex HMAC-SHA256>
+ *
+ * The signed content is `${timestamp}.${payload}` with the endpoint's
+ * webhook secret as the key - what verifyWebhookSignature checks.
+ */
+export function signWebhookPayload(
+  payload: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${payload}`, 'utf8').digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Load every *.json fixture in a directory, in chronological order
+ * (event.created, then file name)
+ */
+export async function loadWebhookFixtures(directory: string): Promise<WebhookFixture[]> {
+  const files = (await readdir(directory)).filter(file => file.endsWith('.json')).sort();
+
+  const fixtures = await Promise.all(
+    files.map(async file => {
+      const payload = await readFile(path.join(directory, file), 'utf8');
+      const event = JSON.parse(payload) as Stripe.Event;
+      if (event.object !== 'event' || !event.id || !event.type) {
+        throw new Error(`Fixture ${file} is not a Stripe event`);
+      }
+      return { file, payload, event };
+    })
+  );
+
+  return fixtures.sort((a, b) => a.event.created - b.event.created || a.file.localeCompare(b.file));
+}
+
+/**
+ * Fisher-Yates shuffle; pass a seed to make a failing order reproducible
+ */
+export function shuffleFixtures<T>(items: T[], seed?: number): T[] {
+  const random = seed === undefined ? Math.random : seededRandom(seed);
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * mulberry32 - small, fast, good enough for shuffling
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export interface ReplayResult {
+  fixture: WebhookFixture;
+  ok: boolean;
+  detail: string; // HTTP status or error message
+}
+
+/**
+ * Deliver a fixture over HTTP, signed like a real Stripe delivery
+ */
+export async function postFixture(fixture: WebhookFixture, url: string, secret: string): Promise<ReplayResult> {
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Stripe-Signature': signWebhookPayload(fixture.payload, secret),
+      },
+      body: fixture.payload,
+    });
+    return { fixture, ok: response.ok, detail: `HTTP ${response.status}` };
+  } catch (error) {
+    return { fixture, ok: false, detail: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Verify and handle a fixture in-process (no server needed)
+ *
+ * Goes through the same signature check as a real delivery, then straight
+ * to handleWebhook - bypassing the queue so results are immediate.
+ */
+export async function handleFixture(fixture: WebhookFixture, secret: string): Promise<ReplayResult> {
+  try {
+    const event = verifyWebhookSignature(fixture.payload, signWebhookPayload(fixture.payload, secret), secret);
+    await handleWebhook(event);
+    return { fixture, ok: true, detail: 'handled' };
+  } catch (error) {
+    return { fixture, ok: false, detail: error instanceof Error ? error.message : String(error) };
+  }
+}
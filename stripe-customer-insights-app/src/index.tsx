@@ -6,11 +6,13 @@
  */
 
 import CustomerInsights from './views/CustomerInsights';
+import CustomerListInsights from './views/CustomerListInsights';
 
-// Export the main view component
-// This is referenced in stripe-app.json under ui_extension.views
-export default CustomerInsights;
+// Export each view component by the name used in stripe-app.json under ui_extension.views
+// Each view corresponds to a different viewport in the Stripe Dashboard:
+// - CustomerInsights      → stripe.dashboard.customer.detail
+// - CustomerListInsights  → stripe.dashboard.customer.list
+export { CustomerInsights, CustomerListInsights };
 
-// Note: In a real Stripe App, you might export multiple views:
-// export { CustomerInsights, CustomerListInsights };
-// Each view corresponds to a different viewport in the Stripe Dashboard
+// The customer detail view remains the default export
+export default CustomerInsights;
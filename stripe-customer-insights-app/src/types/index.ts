@@ -20,22 +20,34 @@ import Stripe from 'stripe';
 export interface CustomerInsights {
   customerId: string;
   lifetimeValue: {
-    total: number;
-    currency: string;
+    total: Money; // Converted into the reporting currency
     breakdown: {
-      oneTime: number;
-      subscription: number;
-      refunded: number;
+      oneTime: Money;
+      subscription: Money;
+      refunded: Money;
     };
+    byCurrency: CurrencyBreakdown[];
   };
   paymentPattern: {
-    successRate: number;
-    totalPayments: number;
+    successRate: number; // % of payments that succeeded; retries of one PaymentIntent count once
+    totalPayments: number; // PaymentIntents (charges made without one count individually)
     successfulPayments: number;
-    failedPayments: number;
-    averagePaymentAmount: number;
+    failedPayments: number; // Never succeeded, however many attempts
+    chargeAttempts: number; // Every charge, retries included
+    attemptSuccessRate: number; // % of charge attempts that succeeded
+    averagePaymentAmount: Money;
     preferredPaymentMethod: string | null;
   };
+  paymentIntents: {
+    total: number;
+    requiresAction: number; // Waiting for the customer to authenticate right now
+    challenged: number; // Asked for 3D Secure, now or in the past
+    challengeRate: number | null; // challenged / total, 0-100; null without intents
+    challengeCompletionRate: number | null; // Challenged intents that then succeeded, 0-100
+    abandoned: number; // Canceled, or stuck before payment for ABANDONED_INTENT_HOURS
+    abandonedAmount: Money; // Converted into the reporting currency
+    declineCodes: DeclineCodeCount[]; // Most common first
+  };
   riskAssessment: {
     score: number; // 0-100, higher = riskier
     factors: RiskFactor[];
@@ -44,9 +56,78 @@ export interface CustomerInsights {
   subscriptionHealth: {
     activeSubscriptions: number;
     totalSubscriptions: number;
-    churnedSubscriptions: number;
-    monthlyRecurringRevenue: number;
-    nextBillingDate: string | null;
+    churnedSubscriptions: number; // canceled or unpaid
+    statusCounts: Record<Stripe.Subscription.Status, number>;
+    monthlyRecurringRevenue: Money; // active + past_due, fixed-price items only
+    atRiskMrr: Money; // The past_due part of monthlyRecurringRevenue
+    usageBasedItems: number; // Metered/unpriced items, not included in MRR
+    nextBillingDate: string | null; // Earliest upcoming renewal or trial end
+    trials: {
+      active: number; // Currently trialing
+      nextTrialEnd: string | null;
+      ended: number; // Trials that have run out
+      converted: number; // ...and were followed by a payment
+      conversionRate: number | null; // converted / ended, 0-100; null until a trial ends
+    };
+    items: SubscriptionSummary[]; // Newest first
+  };
+  refunds: {
+    refundedCharges: number; // Charges with at least one refund
+    refundRate: number; // % of successful charges refunded (by count), 0-100
+    refundedAmount: Money; // Converted into the reporting currency
+    amountRefundRate: number; // % of the collected amount refunded, 0-100
+    fullRefunds: number; // Charges refunded in full
+    partialRefunds: number;
+    reasons: RefundReasonCount[]; // Most common first
+    medianDaysToRefund: number | null; // Charge → refund; null without refund details
+  };
+  disputes: {
+    total: number;
+    open: number; // Still awaiting a response or a decision
+    won: number;
+    lost: number;
+    disputedAmount: Money; // All disputes, converted into the reporting currency
+    winRate: number | null; // won / (won + lost), 0-100; null until one is decided
+    nextEvidenceDueBy: string | null; // Nearest deadline among disputes needing a response
+    responseDueSoon: boolean; // nextEvidenceDueBy within DISPUTE_RESPONSE_WARNING_DAYS
+    items: DisputeSummary[]; // Newest first
+  };
+  paymentMethods: {
+    total: number;
+    defaultPaymentMethodId: string | null; // From invoice_settings, else the legacy default source
+    expired: number;
+    expiringBeforeNextBilling: number; // Valid today, expired by subscriptionHealth.nextBillingDate
+    items: PaymentMethodSummary[]; // Default first, then newest
+  };
+  invoices: {
+    total: number; // Finalized invoices (drafts excluded)
+    open: number;
+    openAmount: Money; // Still owed on open invoices, converted into the reporting currency
+    overdue: number; // Open and past due (or a payment attempt already failed)
+    overdueAmount: Money;
+    averageDaysToPay: number | null; // Finalization → payment; null until one is paid
+    medianDaysToPay: number | null;
+    attempts: InvoiceAttemptCount[]; // Paid invoices by payment attempts needed, fewest first
+    retriedInvoices: number; // Paid invoices that needed more than one attempt
+    uncollectible: number;
+    uncollectibleAmount: Money; // Written off as bad debt
+    void: number;
+    voidAmount: Money;
+  };
+  revenueTrend: {
+    monthly: RevenueBucket[]; // Oldest first, one per calendar month, quiet months included
+    weekly: RevenueBucket[]; // Same per ISO week; empty unless InsightsOptions.revenueTrend.weeks is set
+    monthOverMonth: {
+      // Last complete month vs the month before; null when the earlier month had nothing
+      gross: Trend | null;
+      refunded: Trend | null;
+      net: Trend | null;
+    };
+  };
+  health: {
+    score: number; // 0-100, higher = healthier
+    churnRisk: 'low' | 'medium' | 'high';
+    factors: HealthFactor[]; // One per signal, including those that cost nothing
   };
   metadata: {
     firstPurchaseDate: string | null;
@@ -56,6 +137,167 @@ export interface CustomerInsights {
   };
 }
 
+/**
+ * How often a refund reason was given
+ *
+ * 'unspecified' covers refunds issued without a reason, and refunded
+ * amounts whose refund objects weren't available.
+ */
+export interface RefundReasonCount {
+  reason: Stripe.Refund.Reason | 'unspecified';
+  count: number;
+}
+
+/**
+ * How often a decline code was the reason a PaymentIntent's payment failed
+ *
+ * code is last_payment_error.decline_code (e.g. insufficient_funds), or the
+ * error code when the issuer gave none (e.g. expired_card, incorrect_cvc).
+ */
+export interface DeclineCodeCount {
+  code: string;
+  count: number;
+}
+
+/**
+ * How many paid invoices took this many payment attempts
+ *
+ * attempts 1 = paid first time; 2+ = recovered by retries (dunning).
+ */
+export interface InvoiceAttemptCount {
+  attempts: number;
+  count: number;
+}
+
+/**
+ * One dispute as shown in the dispute card
+ *
+ * amount stays in the dispute's own currency (what the bank is disputing).
+ */
+export interface DisputeSummary {
+  id: string;
+  chargeId: string;
+  status: Stripe.Dispute.Status;
+  reason: string; // e.g. fraudulent, product_not_received, duplicate
+  amount: Money;
+  evidenceDueBy: string | null; // ISO string
+  needsResponse: boolean;
+  created: string; // ISO string
+}
+
+/**
+ * One saved payment method as shown in the payment method card
+ *
+ * brand/last4 come from whichever details the type has (card brand, bank
+ * name for bank debits); expiry fields are null for anything but cards.
+ */
+export interface PaymentMethodSummary {
+  id: string;
+  type: Stripe.PaymentMethod.Type;
+  brand: string | null; // e.g. visa, or the bank name for bank debits
+  last4: string | null;
+  wallet: string | null; // e.g. apple_pay, google_pay - a tokenized card
+  funding: string | null; // credit, debit, prepaid or unknown
+  expMonth: number | null; // 1-12
+  expYear: number | null;
+  isDefault: boolean;
+  expired: boolean;
+  expiresBeforeNextBilling: boolean;
+  created: string; // ISO string
+}
+
+/**
+ * One subscription as shown in the subscription health card
+ *
+ * monthlyRecurringRevenue stays in the subscription's own currency.
+ */
+export interface SubscriptionSummary {
+  id: string;
+  status: Stripe.Subscription.Status;
+  monthlyRecurringRevenue: Money;
+  cancelAtPeriodEnd: boolean;
+  currentPeriodEnd: string; // ISO string - renews (or ends, if canceling) then
+  trialEnd: string | null; // ISO string
+  created: string; // ISO string
+}
+
+/**
+ * Revenue for one period (month or week), in the reporting currency
+ *
+ * Refunds count in the period they were issued, not the period of the
+ * original charge - a March refund of a January purchase lowers March.
+ */
+export interface RevenueBucket {
+  start: string; // ISO string, start of the period (UTC)
+  gross: Money; // Successful charges
+  refunded: Money;
+  net: Money; // gross - refunded; can be negative
+  partial: boolean; // The period is still in progress
+}
+
+/**
+ * Direction and size of a change between two periods
+ */
+export interface Trend {
+  direction: 'up' | 'down' | 'neutral';
+  percentage: number; // Absolute change, e.g. 12.5 for ±12.5%
+}
+
+/**
+ * Account-Level Summary for the Customer List View
+ *
+ * PM INSIGHT: The list view answers "where should I focus?"
+ * - Segments: how many customers are risky, subscribed or going quiet
+ * - Top customers: who drives the most revenue
+ * - Aggregate MRR: the recurring revenue base across analyzed customers
+ */
+export interface CustomerListSummary {
+  customersAnalyzed: number;
+  segments: {
+    lowRisk: number;
+    mediumRisk: number;
+    highRisk: number;
+    activeSubscribers: number;
+    dormant: number; // Has purchased before, but not recently
+  };
+  topCustomers: TopCustomer[];
+  totalMonthlyRecurringRevenue: Money;
+}
+
+export interface TopCustomer {
+  customerId: string;
+  displayName: string;
+  lifetimeValue: Money;
+}
+
+/**
+ * Monetary Amount
+ *
+ * amount is in MAJOR units (10.5 = $10.50, 1000 = ¥1,000), already converted
+ * from Stripe's integer minor units using the currency's exponent.
+ * currency is a lowercase ISO code, matching Stripe's convention.
+ */
+export interface Money {
+  amount: number;
+  currency: string;
+}
+
+/**
+ * Per-Currency Lifetime Value
+ *
+ * Amounts are in the original charge currency (not converted), so merchants
+ * can see exactly what was collected in each currency.
+ * convertedTotal is null when no FX rate is available for the currency.
+ */
+export interface CurrencyBreakdown {
+  currency: string;
+  total: Money;
+  oneTime: Money;
+  subscription: Money;
+  refunded: Money;
+  convertedTotal: Money | null;
+}
+
 /**
  * Risk Factor Analysis
  *
@@ -64,12 +306,53 @@ export interface CustomerInsights {
  * - Multiple failed payments
  * - Inconsistent payment patterns
  * - New customer with large transaction
+ * - Stripe's own per-charge signals: Radar risk, CVC/address checks,
+ *   card country vs billing country
+ * - Refunding a large share of purchases (serial refunder)
  */
 export interface RiskFactor {
-  type: 'high_chargeback_rate' | 'payment_failures' | 'velocity_check' | 'new_customer_large_amount';
+  type:
+    | 'high_chargeback_rate'
+    | 'payment_failures'
+    | 'velocity_check'
+    | 'new_customer_large_amount'
+    | 'elevated_radar_risk'
+    | 'failed_card_checks'
+    | 'geographic_mismatch'
+    | 'serial_refunder';
   severity: 'low' | 'medium' | 'high';
   description: string;
   value: number | string;
+  evidence?: RiskEvidence[]; // The charges behind the factor, newest first
+}
+
+/**
+ * One charge supporting a risk factor, e.g.
+ * { chargeId: 'ch_123', date: '2025-05-02T…', detail: 'CVC check failed' }
+ */
+export interface RiskEvidence {
+  chargeId: string;
+  date: string; // ISO string
+  detail: string;
+}
+
+/**
+ * Customer Health Signal
+ *
+ * PRODUCT DECISION: Risk asks "will this customer cost us money?" (fraud,
+ * chargebacks). Health asks "is this customer about to leave?" - going
+ * quiet, failing renewals, a pending cancellation, refunding, spending less.
+ */
+export interface HealthFactor {
+  signal:
+    | 'recency'
+    | 'payment_failure_trend'
+    | 'past_due'
+    | 'pending_cancellation'
+    | 'refunds'
+    | 'spend_trend';
+  impact: number; // Points taken off the health score, 0 = no concern
+  description: string;
 }
 
 /**
@@ -81,6 +364,8 @@ export interface RiskFactor {
  * - PaymentIntents.list()
  * - Subscriptions.list()
  * - Invoices.list()
+ * - Disputes.list() per disputed charge
+ * - Customers.listPaymentMethods()
  */
 export interface StripeCustomerData {
   customer: Stripe.Customer;
@@ -88,8 +373,24 @@ export interface StripeCustomerData {
   paymentIntents: Stripe.PaymentIntent[];
   subscriptions: Stripe.Subscription[];
   invoices: Stripe.Invoice[];
+  disputes: Stripe.Dispute[]; // For the customer's disputed charges
+  paymentMethods: Stripe.PaymentMethod[]; // Saved (attached) payment methods
+  // Per list: true when a pagination budget stopped before the full history,
+  // or an optional list (paymentIntents, disputes) couldn't be loaded at all
+  truncated: Record<CustomerDataList, boolean>;
 }
 
+/**
+ * The paginated lists that make up StripeCustomerData
+ */
+export type CustomerDataList =
+  | 'charges'
+  | 'paymentIntents'
+  | 'subscriptions'
+  | 'invoices'
+  | 'disputes'
+  | 'paymentMethods';
+
 /**
  * Component Props for Reusable Metric Cards
  */
@@ -97,10 +398,7 @@ export interface MetricCardProps {
   title: string;
   value: string | number;
   subtitle?: string;
-  trend?: {
-    direction: 'up' | 'down' | 'neutral';
-    percentage: number;
-  };
+  trend?: Trend;
   icon?: React.ReactNode;
   status?: 'success' | 'warning' | 'error' | 'info';
 }
@@ -116,4 +414,24 @@ export interface AppState {
   insights: CustomerInsights | null;
   loadingState: LoadingState;
   error: string | null;
+  lastUpdatedAt: string | null; // When the underlying Stripe data was fetched
+  isRefreshing: boolean; // Showing cached data while fresh data loads
+}
+
+/**
+ * List view state
+ *
+ * UX: Analyzing hundreds of customers takes a while, so the summary is
+ * updated after every page and progress is shown alongside partial results.
+ */
+export interface CustomerListState {
+  summary: CustomerListSummary | null;
+  loadingState: LoadingState;
+  error: string | null;
+  progress: {
+    customersAnalyzed: number;
+    customersFailed: number; // Skipped: their data couldn't be loaded
+    pagesLoaded: number;
+    limitReached: boolean;
+  };
 }
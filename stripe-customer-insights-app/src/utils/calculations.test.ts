@@ -0,0 +1,1186 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import Stripe from 'stripe';
+import { CustomerInsights, StripeCustomerData } from '../types';
+import { DORMANT_AFTER_DAYS, calculateCustomerInsights, summarizeCustomerList } from './calculations';
+import { StaticFxRateProvider } from './fx';
+
+const NOW = Date.UTC(2025, 5, 1) / 1000;
+const DAY = 86400;
+const CUSTOMER_ID = 'cus_123';
+
+function customerData(overrides: Partial<StripeCustomerData> = {}): StripeCustomerData {
+  return {
+    customer: { id: CUSTOMER_ID, object: 'customer', created: NOW - 400 * DAY, currency: 'usd' } as Stripe.Customer,
+    charges: [],
+    paymentIntents: [],
+    subscriptions: [],
+    invoices: [],
+    disputes: [],
+    paymentMethods: [],
+    truncated: {
+      charges: false,
+      paymentIntents: false,
+      subscriptions: false,
+      invoices: false,
+      disputes: false,
+      paymentMethods: false,
+    },
+    ...overrides,
+  };
+}
+
+function charge(id: string, daysAgo: number, overrides: Partial<Stripe.Charge> = {}): Stripe.Charge {
+  return {
+    id,
+    object: 'charge',
+    customer: CUSTOMER_ID,
+    amount: 10000,
+    amount_refunded: 0,
+    refunded: false,
+    currency: 'usd',
+    status: 'succeeded',
+    created: NOW - daysAgo * DAY,
+    disputed: false,
+    invoice: null,
+    ...overrides,
+  } as Stripe.Charge;
+}
+
+// A charge refunded by the given Refund objects: [amount, reason, days after the charge]
+function refundedCharge(
+  id: string,
+  daysAgo: number,
+  refunds: Array<[number, Stripe.Refund.Reason | null, number]>,
+  overrides: Partial<Stripe.Charge> = {}
+): Stripe.Charge {
+  const created = NOW - daysAgo * DAY;
+  const data = refunds.map(([amount, reason, days], index) => ({
+    id: `re_${id}_${index}`,
+    object: 'refund',
+    amount,
+    reason,
+    status: 'succeeded',
+    created: created + days * DAY,
+  }));
+  const amountRefunded = data.reduce((sum, refund) => sum + refund.amount, 0);
+
+  return charge(id, daysAgo, {
+    amount_refunded: amountRefunded,
+    refunded: amountRefunded >= 10000,
+    refunds: { object: 'list', data, has_more: false, url: '' } as unknown as Stripe.ApiList<Stripe.Refund>,
+    ...overrides,
+  });
+}
+
+function dispute(
+  id: string,
+  status: Stripe.Dispute.Status,
+  daysAgo: number,
+  overrides: Partial<Stripe.Dispute> = {}
+): Stripe.Dispute {
+  return {
+    id,
+    object: 'dispute',
+    charge: `ch_${id}`,
+    amount: 5000,
+    currency: 'usd',
+    status,
+    reason: 'fraudulent',
+    created: NOW - daysAgo * DAY,
+    evidence_details: { due_by: null, has_evidence: false, past_due: false, submission_count: 0 },
+    ...overrides,
+  } as Stripe.Dispute;
+}
+
+function dueIn(days: number): Stripe.Dispute.EvidenceDetails {
+  return {
+    due_by: NOW + days * DAY,
+    has_evidence: false,
+    past_due: false,
+    submission_count: 0,
+  } as Stripe.Dispute.EvidenceDetails;
+}
+
+function subscription(
+  id: string,
+  status: Stripe.Subscription.Status,
+  items: Array<Partial<Stripe.Price>> = [{}],
+  overrides: Partial<Stripe.Subscription> = {}
+): Stripe.Subscription {
+  const currency = overrides.currency ?? 'usd';
+  return {
+    id,
+    object: 'subscription',
+    status,
+    currency,
+    created: NOW - 100 * DAY,
+    current_period_end: NOW + 10 * DAY,
+    cancel_at_period_end: false,
+    trial_end: null,
+    discounts: [],
+    discount: null,
+    items: {
+      object: 'list',
+      has_more: false,
+      url: '',
+      data: items.map((price, index) => ({
+        id: `si_${id}_${index}`,
+        object: 'subscription_item',
+        quantity: 1,
+        discounts: [],
+        price: {
+          id: `price_${id}_${index}`,
+          object: 'price',
+          currency,
+          billing_scheme: 'per_unit',
+          unit_amount: 1000,
+          unit_amount_decimal: null,
+          transform_quantity: null,
+          recurring: { interval: 'month', interval_count: 1, usage_type: 'licensed' },
+          ...price,
+        },
+      })),
+    },
+    ...overrides,
+  } as unknown as Stripe.Subscription;
+}
+
+function paymentIntent(
+  id: string,
+  status: Stripe.PaymentIntent.Status,
+  hoursAgo: number,
+  overrides: Partial<Stripe.PaymentIntent> = {}
+): Stripe.PaymentIntent {
+  return {
+    id,
+    object: 'payment_intent',
+    customer: CUSTOMER_ID,
+    amount: 10000,
+    currency: 'usd',
+    status,
+    created: NOW - hoursAgo * 3600,
+    last_payment_error: null,
+    ...overrides,
+  } as Stripe.PaymentIntent;
+}
+
+function declined(declineCode: string | undefined, code = 'card_declined') {
+  return { type: 'card_error', code, decline_code: declineCode } as Stripe.PaymentIntent.LastPaymentError;
+}
+
+// An invoice finalized `daysAgo` days ago
+function invoice(
+  id: string,
+  status: Stripe.Invoice.Status,
+  daysAgo: number,
+  overrides: Partial<Stripe.Invoice> = {}
+): Stripe.Invoice {
+  const finalizedAt = NOW - daysAgo * DAY;
+  return {
+    id,
+    object: 'invoice',
+    customer: CUSTOMER_ID,
+    status,
+    currency: 'usd',
+    amount_due: 10000,
+    amount_paid: status === 'paid' ? 10000 : 0,
+    amount_remaining: status === 'paid' ? 0 : 10000,
+    attempt_count: 0,
+    attempted: false,
+    collection_method: 'charge_automatically',
+    due_date: null,
+    subscription: null,
+    created: finalizedAt,
+    status_transitions: {
+      finalized_at: status === 'draft' ? null : finalizedAt,
+      paid_at: null,
+      marked_uncollectible_at: null,
+      voided_at: null,
+    },
+    ...overrides,
+  } as Stripe.Invoice;
+}
+
+// A paid invoice that took `daysToPay` days and `attempts` payment attempts
+function paid(id: string, daysToPay: number, attempts: number, overrides: Partial<Stripe.Invoice> = {}) {
+  const finalizedAt = NOW - 60 * DAY;
+  return invoice(id, 'paid', 60, {
+    attempt_count: attempts,
+    attempted: attempts > 0,
+    status_transitions: {
+      finalized_at: finalizedAt,
+      paid_at: finalizedAt + daysToPay * DAY,
+      marked_uncollectible_at: null,
+      voided_at: null,
+    },
+    ...overrides,
+  });
+}
+
+// A saved card expiring at the end of month `expMonth` of `expYear`
+function card(
+  id: string,
+  expMonth: number,
+  expYear: number,
+  details: Partial<Stripe.PaymentMethod.Card> = {}
+): Stripe.PaymentMethod {
+  return {
+    id,
+    object: 'payment_method',
+    type: 'card',
+    customer: CUSTOMER_ID,
+    created: NOW - 200 * DAY,
+    card: {
+      brand: 'visa',
+      last4: '4242',
+      funding: 'credit',
+      exp_month: expMonth,
+      exp_year: expYear,
+      wallet: null,
+      ...details,
+    },
+  } as Stripe.PaymentMethod;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW * 1000);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('lifetime value', () => {
+  const provider = new StaticFxRateProvider({ usd: 1, eur: 0.5 });
+  const charges = [
+    charge('ch_usd', 30),
+    charge('ch_eur', 20, { currency: 'eur', amount: 5000, amount_refunded: 1000, invoice: 'in_1' }),
+    charge('ch_chf', 10, { currency: 'chf', amount: 2000 }),
+    charge('ch_failed', 5, { status: 'failed' }),
+  ];
+
+  it('converts each currency into the reporting currency', () => {
+    const ltv = calculateCustomerInsights(customerData({ charges }), { fxRateProvider: provider }).lifetimeValue;
+
+    expect(ltv.total).toEqual({ amount: 180, currency: 'usd' });
+    expect(ltv.breakdown).toEqual({
+      oneTime: { amount: 100, currency: 'usd' },
+      subscription: { amount: 100, currency: 'usd' },
+      refunded: { amount: 20, currency: 'usd' },
+    });
+  });
+
+  it('lists every currency in its own amounts, unconvertible ones last', () => {
+    const ltv = calculateCustomerInsights(customerData({ charges }), { fxRateProvider: provider }).lifetimeValue;
+
+    expect(ltv.byCurrency.map(entry => [entry.currency, entry.total.amount, entry.convertedTotal])).toEqual([
+      ['usd', 100, { amount: 100, currency: 'usd' }],
+      ['eur', 40, { amount: 80, currency: 'usd' }],
+      // No CHF rate: shown, but left out of the converted totals
+      ['chf', 20, null],
+    ]);
+    expect(ltv.byCurrency[1]).toMatchObject({
+      oneTime: { amount: 0, currency: 'eur' },
+      subscription: { amount: 50, currency: 'eur' },
+      refunded: { amount: 10, currency: 'eur' },
+    });
+  });
+
+  it('reports in the requested currency', () => {
+    const ltv = calculateCustomerInsights(customerData({ charges }), {
+      fxRateProvider: provider,
+      reportingCurrency: 'EUR',
+    }).lifetimeValue;
+
+    expect(ltv.total).toEqual({ amount: 90, currency: 'eur' });
+  });
+
+  it('is zero without successful charges', () => {
+    const ltv = calculateCustomerInsights(customerData()).lifetimeValue;
+
+    expect(ltv.total).toEqual({ amount: 0, currency: 'usd' });
+    expect(ltv.byCurrency).toEqual([]);
+  });
+});
+
+describe('dispute analytics', () => {
+  it('summarizes a customer without disputes', () => {
+    expect(calculateCustomerInsights(customerData()).disputes).toEqual({
+      total: 0,
+      open: 0,
+      won: 0,
+      lost: 0,
+      disputedAmount: { amount: 0, currency: 'usd' },
+      winRate: null,
+      nextEvidenceDueBy: null,
+      responseDueSoon: false,
+      items: [],
+    });
+  });
+
+  it('counts lifecycle states, amounts and win rate', () => {
+    const disputes = calculateCustomerInsights(
+      customerData({
+        disputes: [
+          dispute('dp_1', 'won', 200),
+          dispute('dp_2', 'lost', 150, { amount: 2000, currency: 'eur', reason: 'product_not_received' }),
+          dispute('dp_3', 'won', 100),
+          dispute('dp_4', 'under_review', 20),
+          dispute('dp_5', 'warning_closed', 10),
+        ],
+      })
+    ).disputes;
+
+    expect(disputes).toMatchObject({ total: 5, open: 1, won: 2, lost: 1, nextEvidenceDueBy: null });
+    expect(disputes.winRate).toBeCloseTo(66.67, 2);
+    // 4 × $50 + €20 at the default rate
+    expect(disputes.disputedAmount.currency).toBe('usd');
+    expect(disputes.disputedAmount.amount).toBeGreaterThan(220);
+    expect(disputes.items.map(item => item.id)).toEqual(['dp_5', 'dp_4', 'dp_3', 'dp_2', 'dp_1']);
+    expect(disputes.items[3]).toEqual({
+      id: 'dp_2',
+      chargeId: 'ch_dp_2',
+      status: 'lost',
+      reason: 'product_not_received',
+      amount: { amount: 20, currency: 'eur' },
+      evidenceDueBy: null,
+      needsResponse: false,
+      created: new Date((NOW - 150 * DAY) * 1000).toISOString(),
+    });
+  });
+
+  it('reports the nearest evidence deadline among disputes needing a response', () => {
+    const disputes = calculateCustomerInsights(
+      customerData({
+        disputes: [
+          dispute('dp_1', 'needs_response', 3, { evidence_details: dueIn(12) }),
+          dispute('dp_2', 'warning_needs_response', 2, { evidence_details: dueIn(9) }),
+          // Evidence already submitted - its due date no longer matters
+          dispute('dp_3', 'under_review', 1, { evidence_details: dueIn(2) }),
+        ],
+      })
+    ).disputes;
+
+    expect(disputes.nextEvidenceDueBy).toBe(new Date((NOW + 9 * DAY) * 1000).toISOString());
+    expect(disputes.responseDueSoon).toBe(false);
+    expect(disputes.items.filter(item => item.needsResponse).map(item => item.id)).toEqual(['dp_2', 'dp_1']);
+  });
+
+  it('warns when a response is due within a week', () => {
+    const disputes = calculateCustomerInsights(
+      customerData({ disputes: [dispute('dp_1', 'needs_response', 3, { evidence_details: dueIn(6) })] })
+    ).disputes;
+
+    expect(disputes.open).toBe(1);
+    expect(disputes.responseDueSoon).toBe(true);
+  });
+});
+
+describe('refund analytics', () => {
+  it('summarizes a customer without refunds', () => {
+    expect(calculateCustomerInsights(customerData({ charges: [charge('ch_1', 10)] })).refunds).toEqual({
+      refundedCharges: 0,
+      refundRate: 0,
+      refundedAmount: { amount: 0, currency: 'usd' },
+      amountRefundRate: 0,
+      fullRefunds: 0,
+      partialRefunds: 0,
+      reasons: [],
+      medianDaysToRefund: null,
+    });
+  });
+
+  it('measures rate by count and amount, full vs partial, reasons and timing', () => {
+    const refunds = calculateCustomerInsights(
+      customerData({
+        charges: [
+          refundedCharge('ch_1', 10, [[10000, 'requested_by_customer', 4]]),
+          refundedCharge('ch_2', 20, [
+            [2000, 'requested_by_customer', 1],
+            [3000, null, 8],
+          ]),
+          refundedCharge('ch_3', 30, [[10000, 'duplicate', 0.5]]),
+          charge('ch_4', 40),
+          // Failed charges were never collected - not part of either rate
+          charge('ch_5', 50, { status: 'failed' }),
+        ],
+      })
+    ).refunds;
+
+    expect(refunds).toMatchObject({
+      refundedCharges: 3,
+      refundRate: 75,
+      refundedAmount: { amount: 250, currency: 'usd' },
+      amountRefundRate: 62.5,
+      fullRefunds: 2,
+      partialRefunds: 1,
+      medianDaysToRefund: 2.5,
+    });
+    expect(refunds.reasons).toEqual([
+      { reason: 'requested_by_customer', count: 2 },
+      { reason: 'duplicate', count: 1 },
+      { reason: 'unspecified', count: 1 },
+    ]);
+  });
+
+  it('falls back to amount_refunded when refund objects are missing', () => {
+    const refunds = calculateCustomerInsights(
+      customerData({
+        // e.g. patched from a webhook payload, which doesn't expand refunds
+        charges: [charge('ch_1', 10, { amount_refunded: 4000 }), charge('ch_2', 20)],
+      })
+    ).refunds;
+
+    expect(refunds).toMatchObject({
+      refundedCharges: 1,
+      refundRate: 50,
+      refundedAmount: { amount: 40, currency: 'usd' },
+      partialRefunds: 1,
+      reasons: [{ reason: 'unspecified', count: 1 }],
+      medianDaysToRefund: null,
+    });
+  });
+
+  it('ignores failed refunds', () => {
+    const failed = refundedCharge('ch_1', 10, [[10000, 'fraudulent', 1]]);
+    failed.refunds!.data[0].status = 'failed';
+
+    const refunds = calculateCustomerInsights(
+      customerData({ charges: [{ ...failed, amount_refunded: 0, refunded: false }] })
+    ).refunds;
+
+    expect(refunds.refundedCharges).toBe(0);
+    expect(refunds.reasons).toEqual([]);
+  });
+});
+
+describe('subscription health', () => {
+  const paidInvoice = (subscriptionId: string, amountPaid = 1000) =>
+    invoice(`in_${subscriptionId}`, 'paid', 30, { subscription: subscriptionId, amount_paid: amountPaid });
+
+  const iso = (daysFromNow: number) => new Date((NOW + daysFromNow * DAY) * 1000).toISOString();
+
+  it('sums normalized MRR of active subscriptions and counts usage-based items', () => {
+    const health = calculateCustomerInsights(
+      customerData({
+        subscriptions: [
+          subscription('sub_1', 'active', [
+            { unit_amount: 2000 },
+            { unit_amount: 5, recurring: { usage_type: 'metered' } as Stripe.Price.Recurring },
+          ]),
+          subscription('sub_2', 'active', [
+            { unit_amount: 24000, recurring: { interval: 'year', interval_count: 1 } as Stripe.Price.Recurring },
+          ]),
+          subscription('sub_3', 'canceled', [{ unit_amount: 9900 }]),
+        ],
+      })
+    ).subscriptionHealth;
+
+    // $20 monthly + $240 yearly / 12
+    expect(health.monthlyRecurringRevenue).toEqual({ amount: 40, currency: 'usd' });
+    expect(health.usageBasedItems).toBe(1);
+    expect(health).toMatchObject({ activeSubscriptions: 2, totalSubscriptions: 3, churnedSubscriptions: 1 });
+  });
+
+  it('counts every status and keeps past_due in MRR as at-risk', () => {
+    const health = calculateCustomerInsights(
+      customerData({
+        subscriptions: [
+          subscription('sub_1', 'active', [{ unit_amount: 3000 }]),
+          subscription('sub_2', 'past_due', [{ unit_amount: 2000 }]),
+          subscription('sub_3', 'trialing', [{ unit_amount: 5000 }], { trial_end: NOW + 5 * DAY }),
+          subscription('sub_4', 'incomplete', [{ unit_amount: 5000 }]),
+          subscription('sub_5', 'paused', [{ unit_amount: 5000 }]),
+          subscription('sub_6', 'unpaid'),
+          subscription('sub_7', 'canceled'),
+          subscription('sub_8', 'incomplete_expired'),
+        ],
+      })
+    ).subscriptionHealth;
+
+    expect(health.statusCounts).toEqual({
+      active: 1,
+      past_due: 1,
+      trialing: 1,
+      incomplete: 1,
+      incomplete_expired: 1,
+      paused: 1,
+      unpaid: 1,
+      canceled: 1,
+    });
+    expect(health).toMatchObject({ activeSubscriptions: 1, totalSubscriptions: 8, churnedSubscriptions: 2 });
+    expect(health.monthlyRecurringRevenue).toEqual({ amount: 50, currency: 'usd' });
+    expect(health.atRiskMrr).toEqual({ amount: 20, currency: 'usd' });
+  });
+
+  it('bills next on the earliest renewal or trial end that will charge', () => {
+    const health = calculateCustomerInsights(
+      customerData({
+        subscriptions: [
+          subscription('sub_1', 'active', [{}], { current_period_end: NOW + 20 * DAY }),
+          subscription('sub_2', 'trialing', [{}], {
+            current_period_end: NOW + 12 * DAY,
+            trial_end: NOW + 12 * DAY,
+          }),
+          // Won't renew
+          subscription('sub_3', 'active', [{}], { current_period_end: NOW + 2 * DAY, cancel_at_period_end: true }),
+          subscription('sub_4', 'canceled', [{}], { current_period_end: NOW + 1 * DAY }),
+        ],
+      })
+    ).subscriptionHealth;
+
+    expect(health.nextBillingDate).toBe(iso(12));
+  });
+
+  it('lists each subscription with its status, own-currency MRR and cancellation', () => {
+    const health = calculateCustomerInsights(
+      customerData({
+        subscriptions: [
+          subscription('sub_2', 'trialing', [{ unit_amount: 900 }], {
+            currency: 'eur',
+            trial_end: NOW + 7 * DAY,
+            current_period_end: NOW + 7 * DAY,
+          }),
+          subscription('sub_1', 'active', [{ unit_amount: 2500 }], { cancel_at_period_end: true }),
+        ],
+      })
+    ).subscriptionHealth;
+
+    expect(health.items).toEqual([
+      {
+        id: 'sub_2',
+        status: 'trialing',
+        monthlyRecurringRevenue: { amount: 9, currency: 'eur' },
+        cancelAtPeriodEnd: false,
+        currentPeriodEnd: iso(7),
+        trialEnd: iso(7),
+        created: iso(-100),
+      },
+      {
+        id: 'sub_1',
+        status: 'active',
+        monthlyRecurringRevenue: { amount: 25, currency: 'usd' },
+        cancelAtPeriodEnd: true,
+        currentPeriodEnd: iso(10),
+        trialEnd: null,
+        created: iso(-100),
+      },
+    ]);
+  });
+
+  it('measures trial-to-paid conversion from payments after the trial', () => {
+    const endedTrial = { trial_end: NOW - 60 * DAY };
+    const health = calculateCustomerInsights(
+      customerData({
+        subscriptions: [
+          subscription('sub_trialing', 'trialing', [{}], { trial_end: NOW + 3 * DAY }),
+          subscription('sub_later_trial', 'trialing', [{}], { trial_end: NOW + 9 * DAY }),
+          // Converted: still active
+          subscription('sub_active', 'active', [{}], endedTrial),
+          // Converted: paid, then canceled
+          subscription('sub_paid_then_canceled', 'canceled', [{}], endedTrial),
+          // Not converted: canceled during the trial, paused without a card, first payment failing
+          subscription('sub_canceled', 'canceled', [{}], endedTrial),
+          subscription('sub_paused', 'paused', [{}], endedTrial),
+          subscription('sub_past_due', 'past_due', [{}], endedTrial),
+          // Never had a trial
+          subscription('sub_no_trial', 'active'),
+        ],
+        invoices: [
+          paidInvoice('sub_paid_then_canceled'),
+          // The $0 trial invoice isn't a conversion
+          paidInvoice('sub_canceled', 0),
+        ],
+      })
+    ).subscriptionHealth;
+
+    expect(health.trials).toEqual({
+      active: 2,
+      nextTrialEnd: iso(3),
+      ended: 5,
+      converted: 2,
+      conversionRate: 40,
+    });
+  });
+
+  it('has no conversion rate before any trial ends', () => {
+    const health = calculateCustomerInsights(
+      customerData({ subscriptions: [subscription('sub_1', 'trialing', [{}], { trial_end: NOW + 3 * DAY })] })
+    ).subscriptionHealth;
+
+    expect(health.trials).toMatchObject({ active: 1, ended: 0, converted: 0, conversionRate: null });
+    expect(health.monthlyRecurringRevenue.amount).toBe(0);
+  });
+});
+
+describe('customer health', () => {
+  // A $100 monthly charge, this many days ago
+  const monthly = (daysAgo: number[], overrides: Partial<Stripe.Charge> = {}) =>
+    daysAgo.map(days => charge(`ch_${days}`, days, { invoice: `in_${days}`, ...overrides }));
+
+  const impacts = (health: ReturnType<typeof calculateCustomerInsights>['health']) =>
+    Object.fromEntries(health.factors.map(factor => [factor.signal, factor.impact]));
+
+  it('scores a steady, paying subscriber as healthy and still explains every signal', () => {
+    const health = calculateCustomerInsights(
+      customerData({
+        charges: monthly([5, 35, 65, 95, 125, 155]),
+        subscriptions: [subscription('sub_1', 'active')],
+      })
+    ).health;
+
+    expect(health.score).toBe(100);
+    expect(health.churnRisk).toBe('low');
+    expect(health.factors.map(factor => factor.description)).toEqual([
+      'Purchased 5 days ago',
+      '0 of 3 payments failed in the last 90 days (was 0%)',
+      'No subscriptions past due',
+      'No pending cancellations',
+      '0% of payments refunded',
+      'Spend unchanged vs the previous 90 days',
+    ]);
+  });
+
+  it('flags failing renewals: rising failures, past_due and falling spend', () => {
+    const health = calculateCustomerInsights(
+      customerData({
+        charges: [
+          ...monthly([5, 35], { status: 'failed' }),
+          ...monthly([65, 95, 125, 155]),
+        ],
+        subscriptions: [subscription('sub_1', 'past_due')],
+      })
+    ).health;
+
+    expect(impacts(health)).toEqual({
+      recency: 0,
+      payment_failure_trend: 20,
+      past_due: 20,
+      pending_cancellation: 0,
+      refunds: 0,
+      spend_trend: 15,
+    });
+    expect(health.score).toBe(45);
+    expect(health.churnRisk).toBe('medium');
+    expect(health.factors.find(factor => factor.signal === 'payment_failure_trend')?.description).toBe(
+      '2 of 3 payments failed in the last 90 days (was 0%)'
+    );
+    expect(health.factors.find(factor => factor.signal === 'spend_trend')?.description).toBe(
+      'Spend down 67% vs the previous 90 days'
+    );
+  });
+
+  it('flags a customer who has gone quiet, refunded and scheduled a cancellation', () => {
+    const health = calculateCustomerInsights(
+      customerData({
+        charges: [
+          refundedCharge('ch_100', 100, [[10000, 'requested_by_customer', 2]]),
+          refundedCharge('ch_130', 130, [[10000, 'requested_by_customer', 2]]),
+          ...monthly([160, 190]),
+        ],
+        subscriptions: [subscription('sub_1', 'active', [{}], { cancel_at_period_end: true })],
+      })
+    ).health;
+
+    expect(impacts(health)).toEqual({
+      recency: 30,
+      payment_failure_trend: 0,
+      past_due: 0,
+      pending_cancellation: 25,
+      refunds: 10,
+      spend_trend: 15,
+    });
+    expect(health.score).toBe(20);
+    expect(health.churnRisk).toBe('high');
+    expect(health.factors.map(factor => factor.description)).toEqual([
+      'No purchase in 100 days - dormant',
+      'No payment attempts in the last 90 days',
+      'No subscriptions past due',
+      'The only subscription is set to cancel at period end',
+      '50% of payments refunded',
+      'Spend down 100% vs the previous 90 days',
+    ]);
+  });
+
+  it('treats canceling one of several subscriptions as a downgrade', () => {
+    const health = calculateCustomerInsights(
+      customerData({
+        charges: monthly([5, 35, 65]),
+        subscriptions: [
+          subscription('sub_1', 'active', [{}], { cancel_at_period_end: true }),
+          subscription('sub_2', 'active'),
+          // Already gone - not part of the comparison
+          subscription('sub_3', 'canceled'),
+        ],
+      })
+    ).health;
+
+    expect(health.factors.find(factor => factor.signal === 'pending_cancellation')).toEqual({
+      signal: 'pending_cancellation',
+      impact: 15,
+      description: '1 of 2 subscriptions set to cancel at period end',
+    });
+    expect(health.churnRisk).toBe('low');
+  });
+
+  it('does not count a renewal that went through on a retry as a failure', () => {
+    const health = calculateCustomerInsights(
+      customerData({
+        charges: [
+          charge('ch_retry_2', 3, { invoice: 'in_5', payment_intent: 'pi_renewal' }),
+          charge('ch_retry_1', 4, { invoice: 'in_5', payment_intent: 'pi_renewal', status: 'failed' }),
+          charge('ch_first', 5, { invoice: 'in_5', payment_intent: 'pi_renewal', status: 'failed' }),
+          ...monthly([35, 65, 95, 125, 155]),
+        ],
+      })
+    ).health;
+
+    expect(health.factors.find(factor => factor.signal === 'payment_failure_trend')).toEqual({
+      signal: 'payment_failure_trend',
+      impact: 0,
+      description: '0 of 3 payments failed in the last 90 days (was 0%)',
+    });
+  });
+
+  it('takes a few points for a rising but still low failure rate', () => {
+    const health = calculateCustomerInsights(
+      customerData({ charges: [...monthly([5], { status: 'failed' }), ...monthly([20, 35, 50, 65])] })
+    ).health;
+
+    expect(impacts(health).payment_failure_trend).toBe(5);
+    expect(health.score).toBe(95);
+  });
+
+  it('does not penalize a customer with no history', () => {
+    const health = calculateCustomerInsights(customerData()).health;
+
+    expect(health.score).toBe(100);
+    expect(health.factors[0]).toEqual({ signal: 'recency', impact: 0, description: 'No purchases yet' });
+  });
+});
+
+describe('revenue trend', () => {
+  const month = (insights: ReturnType<typeof calculateCustomerInsights>, start: string) =>
+    insights.revenueTrend.monthly.find(bucket => bucket.start.startsWith(start));
+
+  // NOW is 1 June 2025: June is in progress, May and April are the last complete months
+  const history = () =>
+    customerData({
+      charges: [
+        charge('ch_june', 0, { amount: 2000 }),
+        charge('ch_may', 22),
+        // Partially refunded by an unlisted refund - counted with the charge
+        charge('ch_may_refunded', 23, { amount: 5000, amount_refunded: 1000 }),
+        charge('ch_may_failed', 24, { status: 'failed' }),
+        // 20 April charge, refunded on 5 May - the refund lowers May, not April
+        refundedCharge('ch_april', 42, [[3000, 'requested_by_customer', 15]], { amount: 15000 }),
+        charge('ch_last_year', 400),
+      ],
+    });
+
+  it('buckets the last 12 months, oldest first, with quiet months as zero', () => {
+    const insights = calculateCustomerInsights(history());
+    const { monthly, weekly } = insights.revenueTrend;
+
+    expect(monthly.map(bucket => bucket.start.slice(0, 7))).toEqual([
+      '2024-07', '2024-08', '2024-09', '2024-10', '2024-11', '2024-12',
+      '2025-01', '2025-02', '2025-03', '2025-04', '2025-05', '2025-06',
+    ]);
+    expect(monthly.filter(bucket => bucket.partial).map(bucket => bucket.start)).toEqual([
+      '2025-06-01T00:00:00.000Z',
+    ]);
+    expect(month(insights, '2025-03')?.net).toEqual({ amount: 0, currency: 'usd' });
+    expect(weekly).toEqual([]);
+  });
+
+  it('counts charges when made and refunds when issued', () => {
+    const insights = calculateCustomerInsights(history());
+
+    expect(month(insights, '2025-04')).toMatchObject({
+      gross: { amount: 150, currency: 'usd' },
+      refunded: { amount: 0, currency: 'usd' },
+      net: { amount: 150, currency: 'usd' },
+    });
+    expect(month(insights, '2025-05')).toMatchObject({
+      gross: { amount: 150, currency: 'usd' },
+      refunded: { amount: 40, currency: 'usd' },
+      net: { amount: 110, currency: 'usd' },
+    });
+    expect(month(insights, '2025-06')).toMatchObject({ gross: { amount: 20, currency: 'usd' }, partial: true });
+  });
+
+  it('compares the last two complete months', () => {
+    expect(calculateCustomerInsights(history()).revenueTrend.monthOverMonth).toEqual({
+      gross: { direction: 'neutral', percentage: 0 },
+      refunded: null,
+      net: { direction: 'down', percentage: 26.7 },
+    });
+  });
+
+  it('builds weekly buckets on request', () => {
+    const { monthly, weekly } = calculateCustomerInsights(history(), {
+      revenueTrend: { months: 3, weeks: 4 },
+    }).revenueTrend;
+
+    expect(monthly).toHaveLength(3);
+    expect(weekly.map(bucket => [bucket.start.slice(0, 10), bucket.gross.amount])).toEqual([
+      ['2025-05-05', 150],
+      ['2025-05-12', 0],
+      ['2025-05-19', 0],
+      ['2025-05-26', 20],
+    ]);
+  });
+
+  it('converts every currency into the reporting currency', () => {
+    const { monthly } = calculateCustomerInsights(
+      customerData({ charges: [charge('ch_1', 22), charge('ch_2', 22, { currency: 'eur' })] }),
+      // 1 USD = 0.5 EUR
+      { fxRateProvider: new StaticFxRateProvider({ usd: 1, eur: 0.5 }) }
+    ).revenueTrend;
+
+    expect(monthly[10].gross).toEqual({ amount: 300, currency: 'usd' });
+  });
+});
+
+describe('invoice analytics', () => {
+  it('summarizes a customer without invoices', () => {
+    expect(calculateCustomerInsights(customerData()).invoices).toEqual({
+      total: 0,
+      open: 0,
+      openAmount: { amount: 0, currency: 'usd' },
+      overdue: 0,
+      overdueAmount: { amount: 0, currency: 'usd' },
+      averageDaysToPay: null,
+      medianDaysToPay: null,
+      attempts: [],
+      retriedInvoices: 0,
+      uncollectible: 0,
+      uncollectibleAmount: { amount: 0, currency: 'usd' },
+      void: 0,
+      voidAmount: { amount: 0, currency: 'usd' },
+    });
+  });
+
+  it('measures balances, payment speed, retries and write-offs', () => {
+    const invoices = calculateCustomerInsights(
+      customerData({
+        invoices: [
+          // Not sent yet - ignored
+          invoice('in_draft', 'draft', 0),
+          // Sent, due in 5 days
+          invoice('in_open', 'open', 10, {
+            collection_method: 'send_invoice',
+            due_date: NOW + 5 * DAY,
+            amount_remaining: 5000,
+          }),
+          // Past due, partially paid
+          invoice('in_overdue', 'open', 40, {
+            collection_method: 'send_invoice',
+            due_date: NOW - 3 * DAY,
+            amount_remaining: 3000,
+          }),
+          // Auto-charge failed, Stripe is retrying
+          invoice('in_failing', 'open', 2, { attempted: true, attempt_count: 1, amount_remaining: 2000 }),
+          paid('in_paid_1', 0.5, 1),
+          paid('in_paid_2', 2, 1),
+          paid('in_paid_3', 10, 3),
+          // Paid out of band (e.g. bank transfer marked as paid) - no attempts
+          paid('in_paid_4', 30, 0),
+          // $0 invoices are paid on finalization - not part of days to pay
+          paid('in_free', 0, 0, { amount_due: 0, amount_paid: 0 }),
+          invoice('in_bad_debt', 'uncollectible', 90, { amount_remaining: 4000 }),
+          invoice('in_void', 'void', 30, { amount_due: 1500 }),
+        ],
+      })
+    ).invoices;
+
+    expect(invoices).toEqual({
+      total: 10,
+      open: 3,
+      openAmount: { amount: 100, currency: 'usd' },
+      overdue: 2,
+      overdueAmount: { amount: 50, currency: 'usd' },
+      averageDaysToPay: 10.625,
+      medianDaysToPay: 6,
+      attempts: [
+        { attempts: 1, count: 2 },
+        { attempts: 3, count: 1 },
+      ],
+      retriedInvoices: 1,
+      uncollectible: 1,
+      uncollectibleAmount: { amount: 40, currency: 'usd' },
+      void: 1,
+      voidAmount: { amount: 15, currency: 'usd' },
+    });
+  });
+
+  it('converts balances into the reporting currency', () => {
+    const invoices = calculateCustomerInsights(
+      customerData({
+        invoices: [
+          invoice('in_1', 'open', 5, { amount_remaining: 1000 }),
+          invoice('in_2', 'open', 5, { currency: 'eur', amount_remaining: 1000 }),
+        ],
+      }),
+      // 1 USD = 0.5 EUR
+      { fxRateProvider: new StaticFxRateProvider({ usd: 1, eur: 0.5 }) }
+    ).invoices;
+
+    expect(invoices.openAmount).toEqual({ amount: 30, currency: 'usd' });
+  });
+});
+
+describe('payment pattern', () => {
+  it('counts each PaymentIntent once, however many attempts it took', () => {
+    const pattern = calculateCustomerInsights(
+      customerData({
+        charges: [
+          // Declined twice, then accepted
+          charge('ch_1a', 30, { payment_intent: 'pi_1', status: 'failed' }),
+          charge('ch_1b', 29, { payment_intent: 'pi_1', status: 'failed' }),
+          charge('ch_1c', 28, { payment_intent: 'pi_1' }),
+          charge('ch_2', 10, { payment_intent: 'pi_2', status: 'failed' }),
+          // Charges API, no PaymentIntent
+          charge('ch_legacy', 50, { payment_intent: null }),
+        ],
+      })
+    ).paymentPattern;
+
+    expect(pattern).toMatchObject({
+      totalPayments: 3,
+      successfulPayments: 2,
+      failedPayments: 1,
+      chargeAttempts: 5,
+      attemptSuccessRate: 40,
+    });
+    expect(pattern.successRate).toBeCloseTo(66.67, 2);
+  });
+});
+
+describe('payment intent analytics', () => {
+  it('summarizes a customer without PaymentIntents', () => {
+    expect(calculateCustomerInsights(customerData()).paymentIntents).toEqual({
+      total: 0,
+      requiresAction: 0,
+      challenged: 0,
+      challengeRate: null,
+      challengeCompletionRate: null,
+      abandoned: 0,
+      abandonedAmount: { amount: 0, currency: 'usd' },
+      declineCodes: [],
+    });
+  });
+
+  it('measures 3DS challenges, abandonment and decline codes', () => {
+    const threeDSecure = {
+      card: { three_d_secure: { result: 'authenticated' } },
+    } as unknown as Stripe.Charge.PaymentMethodDetails;
+
+    const intents = calculateCustomerInsights(
+      customerData({
+        charges: [charge('ch_3ds', 100, { payment_intent: 'pi_3ds', payment_method_details: threeDSecure })],
+        paymentIntents: [
+          // Challenged and got through
+          paymentIntent('pi_3ds', 'succeeded', 2400),
+          // Challenged an hour ago - may still complete
+          paymentIntent('pi_waiting', 'requires_action', 1),
+          // Challenged days ago, never completed
+          paymentIntent('pi_stuck', 'requires_action', 72),
+          paymentIntent('pi_auth_failed', 'requires_payment_method', 120, {
+            last_payment_error: declined(undefined, 'authentication_required'),
+          }),
+          paymentIntent('pi_declined', 'requires_payment_method', 48, {
+            last_payment_error: declined('insufficient_funds'),
+          }),
+          paymentIntent('pi_canceled', 'canceled', 200, { last_payment_error: declined('insufficient_funds') }),
+          paymentIntent('pi_paid', 'succeeded', 300),
+          // Just created, no card yet
+          paymentIntent('pi_new', 'requires_payment_method', 1),
+        ],
+      })
+    ).paymentIntents;
+
+    expect(intents).toEqual({
+      total: 8,
+      requiresAction: 2,
+      challenged: 4,
+      challengeRate: 50,
+      challengeCompletionRate: 25,
+      abandoned: 4,
+      abandonedAmount: { amount: 400, currency: 'usd' },
+      declineCodes: [
+        { code: 'insufficient_funds', count: 2 },
+        { code: 'authentication_required', count: 1 },
+      ],
+    });
+  });
+});
+
+describe('payment methods', () => {
+  it('lists saved payment methods with the default first', () => {
+    const bankAccount = {
+      id: 'pm_bank',
+      object: 'payment_method',
+      type: 'us_bank_account',
+      created: NOW - 10 * DAY,
+      us_bank_account: { bank_name: 'STRIPE TEST BANK', last4: '6789' },
+    } as Stripe.PaymentMethod;
+
+    const paymentMethods = calculateCustomerInsights(
+      customerData({
+        customer: {
+          id: CUSTOMER_ID,
+          object: 'customer',
+          currency: 'usd',
+          invoice_settings: { default_payment_method: 'pm_default' },
+        } as Stripe.Customer,
+        paymentMethods: [
+          bankAccount,
+          card('pm_default', 12, 2027, { brand: 'mastercard', last4: '4444', funding: 'debit' }),
+          card('pm_apple_pay', 12, 2027, { wallet: { type: 'apple_pay' } as Stripe.PaymentMethod.Card.Wallet }),
+        ],
+      })
+    ).paymentMethods;
+
+    expect(paymentMethods.defaultPaymentMethodId).toBe('pm_default');
+    expect(paymentMethods.items.map(item => item.id)).toEqual(['pm_default', 'pm_bank', 'pm_apple_pay']);
+    expect(paymentMethods.items[0]).toMatchObject({
+      brand: 'mastercard',
+      last4: '4444',
+      funding: 'debit',
+      expMonth: 12,
+      expYear: 2027,
+      isDefault: true,
+    });
+    expect(paymentMethods.items[1]).toMatchObject({
+      type: 'us_bank_account',
+      brand: 'STRIPE TEST BANK',
+      last4: '6789',
+      expMonth: null,
+      isDefault: false,
+      expired: false,
+    });
+    expect(paymentMethods.items[2].wallet).toBe('apple_pay');
+  });
+
+  it('falls back to the legacy default source', () => {
+    const paymentMethods = calculateCustomerInsights(
+      customerData({
+        customer: {
+          id: CUSTOMER_ID,
+          object: 'customer',
+          currency: 'usd',
+          invoice_settings: { default_payment_method: null },
+          default_source: 'card_legacy',
+        } as Stripe.Customer,
+        paymentMethods: [card('pm_new', 1, 2030), card('card_legacy', 1, 2030)],
+      })
+    ).paymentMethods;
+
+    expect(paymentMethods.defaultPaymentMethodId).toBe('card_legacy');
+    expect(paymentMethods.items[0]).toMatchObject({ id: 'card_legacy', isDefault: true });
+  });
+
+  it('flags cards that expire before the next billing date', () => {
+    // Renews 11 July 2025
+    const renewing = subscription('sub_1', 'active', [{}], { current_period_end: NOW + 40 * DAY });
+    const cards = [
+      card('pm_expired', 5, 2025), // Ran out at the end of May
+      card('pm_june', 6, 2025), // Valid today, gone by the renewal
+      card('pm_july', 7, 2025), // Still valid on 11 July
+    ];
+
+    const paymentMethods = calculateCustomerInsights(
+      customerData({ subscriptions: [renewing], paymentMethods: cards })
+    ).paymentMethods;
+
+    const flags = Object.fromEntries(
+      paymentMethods.items.map(item => [item.id, [item.expired, item.expiresBeforeNextBilling]])
+    );
+    expect(flags).toEqual({
+      pm_expired: [true, false],
+      pm_june: [false, true],
+      pm_july: [false, false],
+    });
+    expect(paymentMethods.expired).toBe(1);
+    expect(paymentMethods.expiringBeforeNextBilling).toBe(1);
+  });
+
+  it('has nothing to flag without an upcoming renewal', () => {
+    const paymentMethods = calculateCustomerInsights(
+      customerData({ paymentMethods: [card('pm_june', 6, 2025)] })
+    ).paymentMethods;
+
+    expect(paymentMethods.expiringBeforeNextBilling).toBe(0);
+    expect(paymentMethods.items[0].expiresBeforeNextBilling).toBe(false);
+  });
+});
+
+describe('customer list summary', () => {
+  function entry(
+    customer: Partial<Stripe.Customer>,
+    ltv: number,
+    recommendation: CustomerInsights['riskAssessment']['recommendation'],
+    activeSubscriptions: number,
+    mrr: number,
+    daysSinceLastPurchase: number | null
+  ) {
+    const insights = calculateCustomerInsights(customerData());
+    return {
+      customer: { object: 'customer', ...customer } as Stripe.Customer,
+      insights: {
+        ...insights,
+        lifetimeValue: { ...insights.lifetimeValue, total: { amount: ltv, currency: 'usd' } },
+        riskAssessment: { ...insights.riskAssessment, recommendation },
+        subscriptionHealth: {
+          ...insights.subscriptionHealth,
+          activeSubscriptions,
+          monthlyRecurringRevenue: { amount: mrr, currency: 'usd' },
+        },
+        metadata: { ...insights.metadata, daysSinceLastPurchase },
+      },
+    };
+  }
+
+  const entries = [
+    entry({ id: 'cus_a', name: 'Acme', email: 'billing@acme.test' }, 500, 'low_risk', 1, 50, 10),
+    entry({ id: 'cus_b', email: 'b@example.com' }, 1000, 'high_risk', 0, 0, DORMANT_AFTER_DAYS + 30),
+    entry({ id: 'cus_c' }, 100, 'medium_risk', 2, 25.5, DORMANT_AFTER_DAYS),
+    entry({ id: 'cus_d' }, 0, 'low_risk', 0, 0, null),
+  ];
+
+  it('counts risk segments, subscribers and dormant customers', () => {
+    const summary = summarizeCustomerList(entries, 'usd');
+
+    expect(summary.customersAnalyzed).toBe(4);
+    expect(summary.segments).toEqual({
+      lowRisk: 2,
+      mediumRisk: 1,
+      highRisk: 1,
+      activeSubscribers: 2,
+      // Exactly DORMANT_AFTER_DAYS is still active; never purchased isn't dormant
+      dormant: 1,
+    });
+    expect(summary.totalMonthlyRecurringRevenue).toEqual({ amount: 75.5, currency: 'usd' });
+  });
+
+  it('ranks top customers by lifetime value with a readable name', () => {
+    const summary = summarizeCustomerList(entries, 'usd', 3);
+
+    expect(summary.topCustomers).toEqual([
+      { customerId: 'cus_b', displayName: 'b@example.com', lifetimeValue: { amount: 1000, currency: 'usd' } },
+      { customerId: 'cus_a', displayName: 'Acme', lifetimeValue: { amount: 500, currency: 'usd' } },
+      { customerId: 'cus_c', displayName: 'cus_c', lifetimeValue: { amount: 100, currency: 'usd' } },
+    ]);
+  });
+
+  it('summarizes an empty list', () => {
+    expect(summarizeCustomerList([], 'eur')).toEqual({
+      customersAnalyzed: 0,
+      segments: { lowRisk: 0, mediumRisk: 0, highRisk: 0, activeSubscribers: 0, dormant: 0 },
+      topCustomers: [],
+      totalMonthlyRecurringRevenue: { amount: 0, currency: 'eur' },
+    });
+  });
+});
@@ -11,7 +11,49 @@
  */
 
 import Stripe from 'stripe';
-import { CustomerInsights, RiskFactor, StripeCustomerData } from '../types';
+import {
+  CurrencyBreakdown,
+  CustomerInsights,
+  CustomerListSummary,
+  HealthFactor,
+  Money,
+  PaymentMethodSummary,
+  RefundReasonCount,
+  RevenueBucket,
+  StripeCustomerData,
+  SubscriptionSummary,
+} from '../types';
+import { NEEDS_RESPONSE_STATUSES, isOpenDispute } from './disputes';
+import { FxRateProvider, convertAmount, defaultFxRateProvider } from './fx';
+import { getCurrencyExponent, money, moneyFromMinorUnits } from './money';
+import { subscriptionMrr } from './mrr';
+import { groupPaymentAttempts, isFailedPayment, isSuccessfulPayment, paymentIntentId } from './payments';
+import { isFullyRefunded, listedRefunds, unlistedRefundAmount } from './refunds';
+import { RevenueGranularity, periodStart, recentPeriodStarts, trendBetween } from './revenueSeries';
+import { DEFAULT_RISK_RULE_SET, RiskRuleSet, evaluateRiskRules } from './riskRules';
+
+/**
+ * Calculation options
+ *
+ * - reportingCurrency: currency every total is converted into
+ *   (defaults to the customer's currency, then their first successful charge)
+ * - fxRateProvider: where conversion rates come from (defaults to a static table)
+ * - riskRules: risk rule set (defaults to riskRules.default.json)
+ * - revenueTrend: how many months / weeks of revenue buckets to build
+ *   (defaults to DEFAULT_REVENUE_TREND_MONTHS months and no weekly series)
+ */
+export interface InsightsOptions {
+  reportingCurrency?: string;
+  fxRateProvider?: FxRateProvider;
+  riskRules?: RiskRuleSet;
+  revenueTrend?: { months?: number; weeks?: number };
+}
+
+/**
+ * Converts a Money value into the reporting currency
+ * Returns null when the FX provider has no rate for the source currency.
+ */
+type CurrencyConverter = (value: Money) => Money | null;
 
 /**
  * Calculate comprehensive customer insights from Stripe data
@@ -19,17 +61,115 @@ import { CustomerInsights, RiskFactor, StripeCustomerData } from '../types';
  * TECHNICAL NOTE: This is a pure function - same input always produces same output
  * Makes testing easy and enables caching
  */
-export function calculateCustomerInsights(data: StripeCustomerData): CustomerInsights {
-  const { customer, charges, paymentIntents, subscriptions, invoices } = data;
+export function calculateCustomerInsights(
+  data: StripeCustomerData,
+  options: InsightsOptions = {}
+): CustomerInsights {
+  const { customer, charges, paymentIntents, subscriptions, invoices, disputes, paymentMethods } = data;
+
+  const reportingCurrency = resolveReportingCurrency(customer, charges, options.reportingCurrency);
+  const fxRateProvider = options.fxRateProvider ?? defaultFxRateProvider;
+  const convert: CurrencyConverter = value => {
+    const converted = convertAmount(value.amount, value.currency, reportingCurrency, fxRateProvider);
+    return converted === null ? null : money(converted, reportingCurrency);
+  };
+
+  const subscriptionHealth = analyzeSubscriptions(subscriptions, invoices, reportingCurrency, convert);
+  const refunds = analyzeRefunds(charges, reportingCurrency, convert);
+  const metadata = extractMetadata(charges, customer);
 
   return {
     customerId: customer.id,
-    lifetimeValue: calculateLifetimeValue(charges, subscriptions),
-    paymentPattern: analyzePaymentPattern(charges, paymentIntents),
-    riskAssessment: assessRisk(customer, charges, paymentIntents),
-    subscriptionHealth: analyzeSubscriptions(subscriptions),
-    metadata: extractMetadata(charges, customer),
+    lifetimeValue: calculateLifetimeValue(charges, reportingCurrency, convert),
+    paymentPattern: analyzePaymentPattern(charges, reportingCurrency, convert),
+    paymentIntents: analyzePaymentIntents(paymentIntents, charges, reportingCurrency, convert),
+    riskAssessment: assessRisk(
+      customer,
+      charges,
+      paymentIntents,
+      disputes,
+      fxRateProvider,
+      options.riskRules ?? DEFAULT_RISK_RULE_SET
+    ),
+    subscriptionHealth,
+    refunds,
+    disputes: analyzeDisputes(disputes, reportingCurrency, convert),
+    paymentMethods: analyzePaymentMethods(paymentMethods, customer, subscriptionHealth.nextBillingDate),
+    invoices: analyzeInvoices(invoices, reportingCurrency, convert),
+    revenueTrend: analyzeRevenueTrend(charges, options.revenueTrend ?? {}, reportingCurrency, convert),
+    health: assessHealth(charges, subscriptionHealth, refunds, metadata, convert),
+    metadata,
+  };
+}
+
+/**
+ * Customers with no purchase in this many days count as "dormant"
+ */
+export const DORMANT_AFTER_DAYS = 90;
+
+/**
+ * Summarize insights across many customers (customer list view)
+ *
+ * IMPORTANT: Every entry must have been calculated with the same
+ * reportingCurrency, otherwise LTV ranking and MRR totals mix currencies.
+ */
+export function summarizeCustomerList(
+  entries: Array<{ customer: Stripe.Customer; insights: CustomerInsights }>,
+  reportingCurrency: string,
+  topCount: number = 5
+): CustomerListSummary {
+  const segments: CustomerListSummary['segments'] = {
+    lowRisk: 0,
+    mediumRisk: 0,
+    highRisk: 0,
+    activeSubscribers: 0,
+    dormant: 0,
   };
+  let mrrTotal = 0;
+
+  entries.forEach(({ insights }) => {
+    const { recommendation } = insights.riskAssessment;
+    if (recommendation === 'low_risk') segments.lowRisk++;
+    else if (recommendation === 'medium_risk') segments.mediumRisk++;
+    else segments.highRisk++;
+
+    if (insights.subscriptionHealth.activeSubscriptions > 0) segments.activeSubscribers++;
+
+    const daysSince = insights.metadata.daysSinceLastPurchase;
+    if (daysSince !== null && daysSince > DORMANT_AFTER_DAYS) segments.dormant++;
+
+    mrrTotal += insights.subscriptionHealth.monthlyRecurringRevenue.amount;
+  });
+
+  const topCustomers = [...entries]
+    .sort((a, b) => b.insights.lifetimeValue.total.amount - a.insights.lifetimeValue.total.amount)
+    .slice(0, topCount)
+    .map(({ customer, insights }) => ({
+      customerId: customer.id,
+      displayName: customer.name || customer.email || customer.id,
+      lifetimeValue: insights.lifetimeValue.total,
+    }));
+
+  return {
+    customersAnalyzed: entries.length,
+    segments,
+    topCustomers,
+    totalMonthlyRecurringRevenue: money(mrrTotal, reportingCurrency),
+  };
+}
+
+/**
+ * Pick the currency insights are reported in
+ *
+ * PRIORITY: explicit option → customer's Stripe currency → first successful charge → USD
+ */
+function resolveReportingCurrency(
+  customer: Stripe.Customer,
+  charges: Stripe.Charge[],
+  requested?: string
+): string {
+  const firstSuccessful = charges.find(charge => charge.status === 'succeeded');
+  return (requested || customer.currency || firstSuccessful?.currency || 'usd').toLowerCase();
 }
 
 /**
@@ -41,38 +181,74 @@ export function calculateCustomerInsights(data: StripeCustomerData): CustomerIns
  * - One-time: Sum of all successful charges
  * - Subscription: Sum of all subscription invoices paid
  * - Refunded: Total amount refunded (subtracted)
+ *
+ * MULTI-CURRENCY: Amounts are first grouped per charge currency, then each
+ * group is converted into the reporting currency. Currencies without an FX
+ * rate are still listed in byCurrency but excluded from the converted totals.
  */
 function calculateLifetimeValue(
   charges: Stripe.Charge[],
-  subscriptions: Stripe.Subscription[]
+  reportingCurrency: string,
+  convert: CurrencyConverter
 ): CustomerInsights['lifetimeValue'] {
-  const successfulCharges = charges.filter(charge => charge.status === 'succeeded');
+  const buckets = new Map<string, { oneTime: number; subscription: number; refunded: number }>();
 
-  // EDGE CASE: Handle multi-currency by converting to customer's primary currency
-  // For simplicity, we assume single currency. Production app would use fx rates.
-  const currency = successfulCharges[0]?.currency || 'usd';
+  charges.forEach(charge => {
+    const succeeded = charge.status === 'succeeded';
+    const refunded = charge.amount_refunded || 0;
+    if (!succeeded && refunded === 0) return;
 
-  const oneTimeTotal = successfulCharges
-    .filter(charge => !charge.invoice) // Non-subscription charges
-    .reduce((sum, charge) => sum + charge.amount, 0);
+    const currency = charge.currency.toLowerCase();
+    const bucket = buckets.get(currency) || { oneTime: 0, subscription: 0, refunded: 0 };
 
-  const subscriptionTotal = successfulCharges
-    .filter(charge => charge.invoice) // Subscription charges
-    .reduce((sum, charge) => sum + charge.amount, 0);
+    if (succeeded) {
+      // Invoice-linked charges are subscription revenue
+      if (charge.invoice) bucket.subscription += charge.amount;
+      else bucket.oneTime += charge.amount;
+    }
+    bucket.refunded += refunded;
 
-  const refundedTotal = charges
-    .reduce((sum, charge) => sum + (charge.amount_refunded || 0), 0);
+    buckets.set(currency, bucket);
+  });
+
+  const byCurrency: CurrencyBreakdown[] = [];
+  let oneTimeTotal = 0;
+  let subscriptionTotal = 0;
+  let refundedTotal = 0;
 
-  const total = oneTimeTotal + subscriptionTotal - refundedTotal;
+  buckets.forEach((bucket, currency) => {
+    // Minor units → major units using the currency's own exponent
+    const oneTime = moneyFromMinorUnits(bucket.oneTime, currency);
+    const subscription = moneyFromMinorUnits(bucket.subscription, currency);
+    const refunded = moneyFromMinorUnits(bucket.refunded, currency);
+    const total = moneyFromMinorUnits(
+      bucket.oneTime + bucket.subscription - bucket.refunded,
+      currency
+    );
+
+    const convertedTotal = convert(total);
+    if (convertedTotal !== null) {
+      oneTimeTotal += convert(oneTime)?.amount ?? 0;
+      subscriptionTotal += convert(subscription)?.amount ?? 0;
+      refundedTotal += convert(refunded)?.amount ?? 0;
+    }
+
+    byCurrency.push({ currency, total, oneTime, subscription, refunded, convertedTotal });
+  });
+
+  // Largest contributors first, unconvertible currencies last
+  byCurrency.sort(
+    (a, b) => (b.convertedTotal?.amount ?? -Infinity) - (a.convertedTotal?.amount ?? -Infinity)
+  );
 
   return {
-    total: total / 100, // Convert cents to dollars
-    currency,
+    total: money(oneTimeTotal + subscriptionTotal - refundedTotal, reportingCurrency),
     breakdown: {
-      oneTime: oneTimeTotal / 100,
-      subscription: subscriptionTotal / 100,
-      refunded: refundedTotal / 100,
+      oneTime: money(oneTimeTotal, reportingCurrency),
+      subscription: money(subscriptionTotal, reportingCurrency),
+      refunded: money(refundedTotal, reportingCurrency),
     },
+    byCurrency,
   };
 }
 
@@ -82,22 +258,39 @@ function calculateLifetimeValue(
  * INTERVIEW INSIGHT: Payment success rate is a leading indicator of customer health
  * - High success rate = good payment method, engaged customer
  * - Low success rate = card issues, fraud risk, or dissatisfied customer
+ *
+ * PER PAYMENT, NOT PER ATTEMPT: Counting charges, a renewal that succeeds on
+ * the third try is 1 of 3 (33%) - counting intents it's 1 of 1 (see
+ * payments.ts). The per-attempt rate is kept as chargeAttempts / attemptSuccessRate.
  */
 function analyzePaymentPattern(
   charges: Stripe.Charge[],
-  paymentIntents: Stripe.PaymentIntent[]
+  reportingCurrency: string,
+  convert: CurrencyConverter
 ): CustomerInsights['paymentPattern'] {
-  const successfulPayments = charges.filter(c => c.status === 'succeeded').length;
-  const failedPayments = charges.filter(c => c.status === 'failed').length;
-  const totalPayments = charges.length;
+  // One payment per PaymentIntent: a card declined twice then accepted is one successful payment
+  const payments = groupPaymentAttempts(charges);
+  const successfulPayments = payments.filter(isSuccessfulPayment).length;
+  const failedPayments = payments.filter(isFailedPayment).length;
+  const totalPayments = payments.length;
 
   const successRate = totalPayments > 0
     ? (successfulPayments / totalPayments) * 100
     : 0;
+  const successfulAttempts = charges.filter(c => c.status === 'succeeded').length;
+  const attemptSuccessRate = charges.length > 0 ? (successfulAttempts / charges.length) * 100 : 0;
 
-  const averagePaymentAmount = totalPayments > 0
-    ? charges.reduce((sum, charge) => sum + charge.amount, 0) / totalPayments / 100
-    : 0;
+  // Average over charges we can convert into the reporting currency
+  const convertedAmounts = charges
+    .map(charge => convert(moneyFromMinorUnits(charge.amount, charge.currency)))
+    .filter((value): value is Money => value !== null);
+
+  const averagePaymentAmount = money(
+    convertedAmounts.length > 0
+      ? convertedAmounts.reduce((sum, value) => sum + value.amount, 0) / convertedAmounts.length
+      : 0,
+    reportingCurrency
+  );
 
   // Determine preferred payment method (most used)
   const paymentMethodCounts = new Map<string, number>();
@@ -122,11 +315,97 @@ function analyzePaymentPattern(
     totalPayments,
     successfulPayments,
     failedPayments,
+    chargeAttempts: charges.length,
+    attemptSuccessRate,
     averagePaymentAmount,
     preferredPaymentMethod,
   };
 }
 
+/**
+ * PaymentIntents not completed for this long are considered abandoned
+ *
+ * Customers finish 3D Secure or re-enter a card within minutes; a day
+ * later they've given up (Checkout sessions themselves expire after 24h).
+ */
+export const ABANDONED_INTENT_HOURS = 24;
+
+// Waiting on the customer (or on us) before any money moves
+const INCOMPLETE_INTENT_STATUSES: Stripe.PaymentIntent.Status[] = [
+  'requires_payment_method',
+  'requires_confirmation',
+  'requires_action',
+];
+
+/**
+ * Analyze PaymentIntents (checkout friction)
+ *
+ * PM INSIGHT: Failed charges only show payments that were attempted. The
+ * PaymentIntent shows what happened around them:
+ * - 3D Secure: how often the bank challenged the customer, and whether they
+ *   got through it - a low completion rate is lost revenue, not fraud
+ * - Abandonment: intents canceled or left waiting for a card / authentication
+ * - Decline codes: *why* the bank said no (insufficient_funds → retry later,
+ *   stolen_card → don't)
+ *
+ * STRIPE API DETAIL: An intent only keeps its current state, so a completed
+ * challenge is found through the charge: payment_method_details.card.three_d_secure
+ * is set whenever 3DS ran. last_payment_error is cleared when a retry succeeds,
+ * so decline codes describe payments that are still failing or were given up on.
+ */
+function analyzePaymentIntents(
+  paymentIntents: Stripe.PaymentIntent[],
+  charges: Stripe.Charge[],
+  reportingCurrency: string,
+  convert: CurrencyConverter
+): CustomerInsights['paymentIntents'] {
+  const abandonedBefore = Date.now() / 1000 - ABANDONED_INTENT_HOURS * 3600;
+
+  const authenticatedIntentIds = new Set(
+    charges.filter(charge => charge.payment_method_details?.card?.three_d_secure).map(paymentIntentId)
+  );
+
+  const challenged = paymentIntents.filter(
+    intent =>
+      intent.status === 'requires_action' ||
+      authenticatedIntentIds.has(intent.id) ||
+      intent.last_payment_error?.code === 'authentication_required'
+  );
+  const challengesCompleted = challenged.filter(
+    intent => intent.status === 'succeeded' || intent.status === 'requires_capture'
+  ).length;
+
+  const abandoned = paymentIntents.filter(
+    intent =>
+      intent.status === 'canceled' ||
+      (INCOMPLETE_INTENT_STATUSES.includes(intent.status) && intent.created < abandonedBefore)
+  );
+  const abandonedAmount = abandoned.reduce(
+    (sum, intent) => sum + (convert(moneyFromMinorUnits(intent.amount, intent.currency))?.amount ?? 0),
+    0
+  );
+
+  const codeCounts = new Map<string, number>();
+  paymentIntents.forEach(intent => {
+    const code = intent.last_payment_error?.decline_code ?? intent.last_payment_error?.code;
+    if (code) codeCounts.set(code, (codeCounts.get(code) ?? 0) + 1);
+  });
+  const declineCodes = [...codeCounts.entries()]
+    .map(([code, count]) => ({ code, count }))
+    .sort((a, b) => b.count - a.count || a.code.localeCompare(b.code));
+
+  return {
+    total: paymentIntents.length,
+    requiresAction: paymentIntents.filter(intent => intent.status === 'requires_action').length,
+    challenged: challenged.length,
+    challengeRate: paymentIntents.length > 0 ? (challenged.length / paymentIntents.length) * 100 : null,
+    challengeCompletionRate: challenged.length > 0 ? (challengesCompleted / challenged.length) * 100 : null,
+    abandoned: abandoned.length,
+    abandonedAmount: money(abandonedAmount, reportingCurrency),
+    declineCodes,
+  };
+}
+
 /**
  * Risk Assessment Algorithm
  *
@@ -134,137 +413,517 @@ function analyzePaymentPattern(
  * - Too strict: Legitimate customers flagged, poor UX
  * - Too lenient: Fraud slips through, merchant loses money
  *
- * APPROACH: Multi-factor scoring system
+ * APPROACH: Multi-factor scoring system, driven by a declarative rule set
+ * so each merchant can tune it without a code change
  */
 function assessRisk(
   customer: Stripe.Customer,
   charges: Stripe.Charge[],
-  paymentIntents: Stripe.PaymentIntent[]
+  paymentIntents: Stripe.PaymentIntent[],
+  disputes: Stripe.Dispute[],
+  fxRateProvider: FxRateProvider,
+  ruleSet: RiskRuleSet
 ): CustomerInsights['riskAssessment'] {
-  const factors: RiskFactor[] = [];
-  let riskScore = 0;
-
-  // Factor 1: Payment Failure Rate
-  const failedCharges = charges.filter(c => c.status === 'failed').length;
-  const totalCharges = charges.length;
-  const failureRate = totalCharges > 0 ? failedCharges / totalCharges : 0;
-
-  if (failureRate > 0.3) {
-    factors.push({
-      type: 'payment_failures',
-      severity: failureRate > 0.5 ? 'high' : 'medium',
-      description: `${(failureRate * 100).toFixed(0)}% payment failure rate`,
-      value: failureRate,
-    });
-    riskScore += failureRate > 0.5 ? 30 : 15;
-  }
-
-  // Factor 2: Chargeback History
-  // In production, you'd check charge.dispute
-  const chargebacks = charges.filter(c => c.disputed).length;
-  if (chargebacks > 0) {
-    const chargebackRate = chargebacks / totalCharges;
-    factors.push({
-      type: 'high_chargeback_rate',
-      severity: chargebackRate > 0.01 ? 'high' : 'medium',
-      description: `${chargebacks} chargebacks detected`,
-      value: chargebacks,
-    });
-    riskScore += chargebackRate > 0.01 ? 40 : 20;
-  }
-
-  // Factor 3: New Customer with Large Transaction
-  const accountAge = customer.created
-    ? (Date.now() / 1000 - customer.created) / (86400 * 30) // months
-    : 0;
-
-  const largeCharges = charges.filter(c => c.amount > 50000).length; // > $500
-
-  if (accountAge < 1 && largeCharges > 0) {
-    factors.push({
-      type: 'new_customer_large_amount',
-      severity: 'medium',
-      description: `New customer (${accountAge.toFixed(1)} months) with large transactions`,
-      value: accountAge,
-    });
-    riskScore += 15;
-  }
-
-  // Factor 4: Velocity Check (rapid transactions)
-  if (charges.length > 10) {
-    const firstCharge = charges[charges.length - 1]?.created || 0;
-    const lastCharge = charges[0]?.created || 0;
-    const daysBetween = (lastCharge - firstCharge) / 86400;
-
-    if (daysBetween < 7) {
-      factors.push({
-        type: 'velocity_check',
-        severity: 'medium',
-        description: `${charges.length} transactions in ${daysBetween.toFixed(0)} days`,
-        value: charges.length,
-      });
-      riskScore += 10;
-    }
-  }
+  // Rules (thresholds, severities, weights) live in config - see riskRules.ts
+  return evaluateRiskRules(ruleSet, { customer, charges, paymentIntents, disputes, fxRateProvider });
+}
 
-  // Determine recommendation
-  let recommendation: CustomerInsights['riskAssessment']['recommendation'];
-  if (riskScore < 20) recommendation = 'low_risk';
-  else if (riskScore < 50) recommendation = 'medium_risk';
-  else recommendation = 'high_risk';
+/**
+ * Subscription statuses, by what they mean for revenue
+ *
+ * STRIPE API DETAIL: Only `active` means "paid and current". The others:
+ * - trialing: not paying yet - revenue depends on the trial converting
+ * - past_due: renewal payment failed, Stripe is retrying (Smart Retries)
+ * - incomplete: first payment not completed yet; incomplete_expired after 23h
+ * - paused: trial ended without a payment method, nothing is billed
+ * - unpaid / canceled: retries exhausted, or ended - churned
+ *
+ * past_due still counts toward MRR (the customer hasn't left, and most retries
+ * recover) but is reported separately as at-risk MRR.
+ */
+const MRR_STATUSES: Stripe.Subscription.Status[] = ['active', 'past_due'];
+const CHURNED_STATUSES: Stripe.Subscription.Status[] = ['canceled', 'unpaid'];
+const BILLING_STATUSES: Stripe.Subscription.Status[] = ['active', 'past_due', 'trialing'];
 
-  return {
-    score: Math.min(riskScore, 100),
-    factors,
-    recommendation,
-  };
-}
+const EMPTY_STATUS_COUNTS: Record<Stripe.Subscription.Status, number> = {
+  active: 0,
+  canceled: 0,
+  incomplete: 0,
+  incomplete_expired: 0,
+  past_due: 0,
+  paused: 0,
+  trialing: 0,
+  unpaid: 0,
+};
 
 /**
  * Analyze Subscription Health
  *
  * BUSINESS METRIC: MRR (Monthly Recurring Revenue) is critical for SaaS businesses
+ *
+ * PM INSIGHT: "1 active subscription" hides the story. A trial ending
+ * tomorrow, a renewal stuck in past_due, or a plan set to cancel at period
+ * end all need different actions, so every status is counted and listed.
  */
 function analyzeSubscriptions(
-  subscriptions: Stripe.Subscription[]
+  subscriptions: Stripe.Subscription[],
+  invoices: Stripe.Invoice[],
+  reportingCurrency: string,
+  convert: CurrencyConverter
 ): CustomerInsights['subscriptionHealth'] {
-  const activeSubscriptions = subscriptions.filter(s => s.status === 'active').length;
+  const now = Date.now() / 1000;
+  const statusCounts = { ...EMPTY_STATUS_COUNTS };
+  subscriptions.forEach(s => statusCounts[s.status]++);
+
+  const activeSubscriptions = statusCounts.active;
   const totalSubscriptions = subscriptions.length;
-  const churnedSubscriptions = subscriptions.filter(
-    s => s.status === 'canceled' || s.status === 'unpaid'
-  ).length;
+  const churnedSubscriptions = CHURNED_STATUSES.reduce((sum, status) => sum + statusCounts[status], 0);
 
-  // Calculate MRR from active subscriptions
-  const monthlyRecurringRevenue = subscriptions
-    .filter(s => s.status === 'active')
-    .reduce((sum, sub) => {
-      // Convert interval to monthly amount
-      const intervalCount = sub.items.data[0]?.price?.recurring?.interval_count || 1;
-      const interval = sub.items.data[0]?.price?.recurring?.interval;
-      const amount = sub.items.data[0]?.price?.unit_amount || 0;
-
-      let monthlyAmount = amount;
-      if (interval === 'year') monthlyAmount = amount / 12;
-      else if (interval === 'month') monthlyAmount = amount / intervalCount;
-
-      return sum + monthlyAmount;
-    }, 0) / 100;
-
-  // Find next billing date
-  const activeSubs = subscriptions.filter(s => s.status === 'active');
-  const nextBillingDate = activeSubs.length > 0
-    ? new Date(activeSubs[0].current_period_end * 1000).toISOString()
-    : null;
+  // MRR: every item, quantity, discount and interval (see mrr.ts)
+  let mrrAmount = 0;
+  let atRiskAmount = 0;
+  let usageBasedItems = 0;
+  const items: SubscriptionSummary[] = subscriptions.map(sub => {
+    const mrr = subscriptionMrr(sub, now);
+
+    if (MRR_STATUSES.includes(sub.status)) {
+      const converted = convert(moneyFromMinorUnits(mrr.amount, mrr.currency))?.amount ?? 0;
+      mrrAmount += converted;
+      if (sub.status === 'past_due') atRiskAmount += converted;
+      usageBasedItems += mrr.usageBasedItems;
+    }
+
+    return {
+      id: sub.id,
+      status: sub.status,
+      monthlyRecurringRevenue: moneyFromMinorUnits(mrr.amount, mrr.currency),
+      cancelAtPeriodEnd: sub.cancel_at_period_end ?? false,
+      currentPeriodEnd: new Date(sub.current_period_end * 1000).toISOString(),
+      trialEnd: sub.trial_end ? new Date(sub.trial_end * 1000).toISOString() : null,
+      created: new Date(sub.created * 1000).toISOString(),
+    };
+  });
+
+  // Next billing: the earliest renewal (or trial end) that will actually bill
+  const renewals = subscriptions
+    .filter(s => BILLING_STATUSES.includes(s.status) && !s.cancel_at_period_end)
+    .map(s => s.current_period_end);
+  const nextBillingDate = renewals.length > 0 ? new Date(Math.min(...renewals) * 1000).toISOString() : null;
 
   return {
     activeSubscriptions,
     totalSubscriptions,
     churnedSubscriptions,
-    monthlyRecurringRevenue,
+    statusCounts,
+    monthlyRecurringRevenue: money(mrrAmount, reportingCurrency),
+    atRiskMrr: money(atRiskAmount, reportingCurrency),
+    usageBasedItems,
     nextBillingDate,
+    trials: analyzeTrials(subscriptions, invoices, now),
+    items,
+  };
+}
+
+/**
+ * Trial-to-Paid Conversion
+ *
+ * A trial has ended once trial_end is in the past and the subscription has
+ * left `trialing`. It converted if the customer then paid for it:
+ * - A paid, non-zero invoice for the subscription (trial invoices are $0), or
+ * - The subscription is active (covers invoices beyond the fetched history)
+ *
+ * Canceled before paying, paused for lack of a payment method, or stuck in
+ * incomplete/past_due on the first charge all count as not converted.
+ */
+function analyzeTrials(
+  subscriptions: Stripe.Subscription[],
+  invoices: Stripe.Invoice[],
+  now: number
+): CustomerInsights['subscriptionHealth']['trials'] {
+  const paidSubscriptionIds = new Set(
+    invoices
+      .filter(invoice => invoice.status === 'paid' && invoice.amount_paid > 0 && invoice.subscription)
+      .map(invoice => (typeof invoice.subscription === 'string' ? invoice.subscription : invoice.subscription!.id))
+  );
+
+  const trialing = subscriptions.filter(s => s.status === 'trialing');
+  const trialEnds = trialing.map(s => s.trial_end).filter((end): end is number => end !== null);
+  const ended = subscriptions.filter(s => s.trial_end !== null && s.trial_end <= now && s.status !== 'trialing');
+  const converted = ended.filter(s => s.status === 'active' || paidSubscriptionIds.has(s.id)).length;
+
+  return {
+    active: trialing.length,
+    nextTrialEnd: trialEnds.length > 0 ? new Date(Math.min(...trialEnds) * 1000).toISOString() : null,
+    ended: ended.length,
+    converted,
+    conversionRate: ended.length > 0 ? (converted / ended.length) * 100 : null,
+  };
+}
+
+/**
+ * Analyze Refunds
+ *
+ * PM INSIGHT: $200 refunded could be one goodwill gesture or ten returns.
+ * Count, share of spend, partial vs full, reasons and speed tell them apart:
+ * - Mostly "requested_by_customer", full, days after purchase → habitual returner
+ * - "duplicate" within hours → a checkout bug, not the customer
+ *
+ * RATES are relative to successful charges - refunded charges keep status
+ * "succeeded", so they're included in the denominator.
+ */
+function analyzeRefunds(
+  charges: Stripe.Charge[],
+  reportingCurrency: string,
+  convert: CurrencyConverter
+): CustomerInsights['refunds'] {
+  const succeeded = charges.filter(c => c.status === 'succeeded');
+  const refunded = succeeded.filter(c => (c.amount_refunded || 0) > 0);
+
+  const toReporting = (amount: number, currency: string) =>
+    convert(moneyFromMinorUnits(amount, currency))?.amount ?? 0;
+  const collectedAmount = succeeded.reduce((sum, c) => sum + toReporting(c.amount, c.currency), 0);
+  const refundedAmount = refunded.reduce((sum, c) => sum + toReporting(c.amount_refunded, c.currency), 0);
+
+  const fullRefunds = refunded.filter(isFullyRefunded).length;
+
+  const reasonCounts = new Map<RefundReasonCount['reason'], number>();
+  const countReason = (reason: RefundReasonCount['reason']) =>
+    reasonCounts.set(reason, (reasonCounts.get(reason) ?? 0) + 1);
+  const daysToRefund: number[] = [];
+
+  refunded.forEach(charge => {
+    listedRefunds(charge).forEach(refund => {
+      countReason(refund.reason ?? 'unspecified');
+      daysToRefund.push((refund.created - charge.created) / 86400);
+    });
+    // Refunded amount we have no Refund object for (see utils/refunds.ts)
+    if (unlistedRefundAmount(charge) > 0) countReason('unspecified');
+  });
+
+  const reasons = [...reasonCounts.entries()]
+    .map(([reason, count]) => ({ reason, count }))
+    .sort((a, b) => b.count - a.count || a.reason.localeCompare(b.reason));
+
+  return {
+    refundedCharges: refunded.length,
+    refundRate: succeeded.length > 0 ? (refunded.length / succeeded.length) * 100 : 0,
+    refundedAmount: money(refundedAmount, reportingCurrency),
+    amountRefundRate: collectedAmount > 0 ? (refundedAmount / collectedAmount) * 100 : 0,
+    fullRefunds,
+    partialRefunds: refunded.length - fullRefunds,
+    reasons,
+    medianDaysToRefund: median(daysToRefund),
+  };
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Analyze Invoices
+ *
+ * BUSINESS METRIC: For invoiced (B2B, send_invoice) customers, how fast
+ * they pay matters as much as whether they pay - a customer who always pays
+ * 45 days late ties up cash. For auto-charged subscriptions, attempt_count
+ * shows how often renewals only went through after Smart Retries.
+ *
+ * STRIPE API DETAIL:
+ * - Drafts aren't sent yet, so they're left out entirely
+ * - Overdue: send_invoice invoices past their due_date; charge_automatically
+ *   invoices have no due date, so a failed attempt (attempted, still open) counts
+ * - Days to pay: status_transitions.finalized_at → paid_at. $0 invoices are
+ *   "paid" the instant they're finalized and would drag the average to 0, so
+ *   only invoices with an amount due count
+ */
+function analyzeInvoices(
+  invoices: Stripe.Invoice[],
+  reportingCurrency: string,
+  convert: CurrencyConverter
+): CustomerInsights['invoices'] {
+  const now = Date.now() / 1000;
+  const finalized = invoices.filter(invoice => invoice.status !== 'draft' && invoice.status !== null);
+  const toReporting = (list: Stripe.Invoice[], amount: (invoice: Stripe.Invoice) => number) =>
+    money(
+      list.reduce(
+        (sum, invoice) => sum + (convert(moneyFromMinorUnits(amount(invoice), invoice.currency))?.amount ?? 0),
+        0
+      ),
+      reportingCurrency
+    );
+
+  const open = finalized.filter(invoice => invoice.status === 'open');
+  const overdue = open.filter(invoice => (invoice.due_date ? invoice.due_date < now : invoice.attempted));
+  const paid = finalized.filter(invoice => invoice.status === 'paid' && invoice.amount_due > 0);
+  const uncollectible = finalized.filter(invoice => invoice.status === 'uncollectible');
+  const voided = finalized.filter(invoice => invoice.status === 'void');
+
+  const daysToPay = paid
+    .filter(invoice => invoice.status_transitions.finalized_at && invoice.status_transitions.paid_at)
+    .map(invoice => (invoice.status_transitions.paid_at! - invoice.status_transitions.finalized_at!) / 86400);
+
+  // Paid out of band (e.g. marked paid) invoices have no attempts
+  const attemptCounts = new Map<number, number>();
+  paid.forEach(({ attempt_count }) => {
+    if (attempt_count > 0) attemptCounts.set(attempt_count, (attemptCounts.get(attempt_count) ?? 0) + 1);
+  });
+  const attempts = [...attemptCounts.entries()]
+    .map(([attempts, count]) => ({ attempts, count }))
+    .sort((a, b) => a.attempts - b.attempts);
+
+  return {
+    total: finalized.length,
+    open: open.length,
+    openAmount: toReporting(open, invoice => invoice.amount_remaining),
+    overdue: overdue.length,
+    overdueAmount: toReporting(overdue, invoice => invoice.amount_remaining),
+    averageDaysToPay:
+      daysToPay.length > 0 ? daysToPay.reduce((sum, days) => sum + days, 0) / daysToPay.length : null,
+    medianDaysToPay: median(daysToPay),
+    attempts,
+    retriedInvoices: attempts.filter(entry => entry.attempts > 1).reduce((sum, entry) => sum + entry.count, 0),
+    uncollectible: uncollectible.length,
+    uncollectibleAmount: toReporting(uncollectible, invoice => invoice.amount_remaining),
+    void: voided.length,
+    voidAmount: toReporting(voided, invoice => invoice.amount_due),
+  };
+}
+
+/**
+ * Months of revenue history shown by default - a year shows seasonality
+ */
+export const DEFAULT_REVENUE_TREND_MONTHS = 12;
+
+/**
+ * Analyze Revenue Over Time
+ *
+ * BUSINESS METRIC: Net revenue per period (gross - refunds) and the
+ * month-over-month change. MoM compares the last two COMPLETE months -
+ * the current month is still filling up, so against a full month it would
+ * always look like a decline.
+ */
+function analyzeRevenueTrend(
+  charges: Stripe.Charge[],
+  options: NonNullable<InsightsOptions['revenueTrend']>,
+  reportingCurrency: string,
+  convert: CurrencyConverter
+): CustomerInsights['revenueTrend'] {
+  const months = options.months ?? DEFAULT_REVENUE_TREND_MONTHS;
+  const weeks = options.weeks ?? 0;
+
+  // Always build enough months for the MoM comparison, even if fewer are shown
+  const monthly = revenueBuckets(charges, 'month', Math.max(months, 3), reportingCurrency, convert);
+  const [previous, last] = monthly.slice(-3, -1);
+
+  return {
+    monthly: months > 0 ? monthly.slice(-months) : [],
+    weekly: revenueBuckets(charges, 'week', weeks, reportingCurrency, convert),
+    monthOverMonth: {
+      gross: trendBetween(last.gross.amount, previous.gross.amount),
+      refunded: trendBetween(last.refunded.amount, previous.refunded.amount),
+      net: trendBetween(last.net.amount, previous.net.amount),
+    },
+  };
+}
+
+/**
+ * The last `count` periods of revenue, oldest first
+ *
+ * Charges count when they were made; refunds when they were issued (or with
+ * their charge when the Refund objects aren't available - see utils/refunds.ts).
+ * Amounts without an FX rate are left out, as in the lifetime value.
+ */
+function revenueBuckets(
+  charges: Stripe.Charge[],
+  granularity: RevenueGranularity,
+  count: number,
+  reportingCurrency: string,
+  convert: CurrencyConverter
+): RevenueBucket[] {
+  if (count <= 0) return [];
+
+  const starts = recentPeriodStarts(Date.now() / 1000, granularity, count);
+  const indexByStart = new Map(starts.map((start, index) => [start, index]));
+  const gross = starts.map(() => 0);
+  const refunded = starts.map(() => 0);
+
+  const add = (totals: number[], timestamp: number, amount: number, currency: string) => {
+    const index = indexByStart.get(periodStart(timestamp, granularity));
+    if (index === undefined || amount === 0) return;
+    totals[index] += convert(moneyFromMinorUnits(amount, currency))?.amount ?? 0;
+  };
+
+  charges.forEach(charge => {
+    if (charge.status === 'succeeded') add(gross, charge.created, charge.amount, charge.currency);
+    listedRefunds(charge).forEach(refund => add(refunded, refund.created, refund.amount, charge.currency));
+    add(refunded, charge.created, unlistedRefundAmount(charge), charge.currency);
+  });
+
+  return starts.map((start, index) => ({
+    start: new Date(start).toISOString(),
+    gross: money(gross[index], reportingCurrency),
+    refunded: money(refunded[index], reportingCurrency),
+    net: money(gross[index] - refunded[index], reportingCurrency),
+    partial: index === count - 1,
+  }));
+}
+
+/**
+ * Warn when a dispute's evidence is due within this many days
+ *
+ * Card networks give 7-21 days to respond and a missed deadline is an
+ * automatic loss, so a week leaves time to gather receipts and tracking.
+ */
+export const DISPUTE_RESPONSE_WARNING_DAYS = 7;
+
+/**
+ * Analyze Disputes
+ *
+ * PM INSIGHT: A dispute is both a risk signal and a to-do. Merchants need
+ * "how many have I lost?" for the relationship, and "what's due next?" so
+ * they don't forfeit one by missing the evidence deadline.
+ *
+ * WIN RATE: Only decided disputes count - an open dispute is neither a
+ * win nor a loss yet. Inquiries closed without escalating (warning_closed)
+ * are excluded too.
+ */
+function analyzeDisputes(
+  disputes: Stripe.Dispute[],
+  reportingCurrency: string,
+  convert: CurrencyConverter
+): CustomerInsights['disputes'] {
+  const open = disputes.filter(isOpenDispute).length;
+  const won = disputes.filter(d => d.status === 'won').length;
+  const lost = disputes.filter(d => d.status === 'lost').length;
+
+  const disputedAmount = disputes.reduce(
+    (sum, dispute) => sum + (convert(moneyFromMinorUnits(dispute.amount, dispute.currency))?.amount ?? 0),
+    0
+  );
+
+  const deadlines = disputes
+    .filter(d => NEEDS_RESPONSE_STATUSES.includes(d.status) && d.evidence_details?.due_by)
+    .map(d => d.evidence_details.due_by!);
+  const nextDeadline = deadlines.length > 0 ? Math.min(...deadlines) : null;
+
+  const items = [...disputes]
+    .sort((a, b) => b.created - a.created)
+    .map(dispute => ({
+      id: dispute.id,
+      chargeId: typeof dispute.charge === 'string' ? dispute.charge : dispute.charge.id,
+      status: dispute.status,
+      reason: dispute.reason,
+      amount: moneyFromMinorUnits(dispute.amount, dispute.currency),
+      evidenceDueBy: dispute.evidence_details?.due_by
+        ? new Date(dispute.evidence_details.due_by * 1000).toISOString()
+        : null,
+      needsResponse: NEEDS_RESPONSE_STATUSES.includes(dispute.status),
+      created: new Date(dispute.created * 1000).toISOString(),
+    }));
+
+  return {
+    total: disputes.length,
+    open,
+    won,
+    lost,
+    disputedAmount: money(disputedAmount, reportingCurrency),
+    winRate: won + lost > 0 ? (won / (won + lost)) * 100 : null,
+    nextEvidenceDueBy: nextDeadline !== null ? new Date(nextDeadline * 1000).toISOString() : null,
+    responseDueSoon:
+      nextDeadline !== null && nextDeadline - Date.now() / 1000 <= DISPUTE_RESPONSE_WARNING_DAYS * 86400,
+    items,
+  };
+}
+
+/**
+ * Analyze Saved Payment Methods
+ *
+ * PM INSIGHT: An expired card is the most preventable failed renewal.
+ * Flagging cards that expire before the next billing date gives the
+ * merchant time to ask for new details before the charge fails - and
+ * before the customer lands in dunning.
+ *
+ * STRIPE API DETAIL: exp_month/exp_year mean "valid through the end of that
+ * month", so a 05/2025 card expires at the start of June 2025 (UTC - the
+ * issuer's own cut-off can differ by a few hours).
+ *
+ * DEFAULT: invoice_settings.default_payment_method is what subscriptions and
+ * invoices charge; customers from the Sources era only have default_source.
+ * Compared by ID - after a webhook patch the field is no longer expanded.
+ */
+function analyzePaymentMethods(
+  paymentMethods: Stripe.PaymentMethod[],
+  customer: Stripe.Customer,
+  nextBillingDate: string | null
+): CustomerInsights['paymentMethods'] {
+  const now = Date.now() / 1000;
+  const nextBilling = nextBillingDate ? Date.parse(nextBillingDate) / 1000 : null;
+  const defaultPaymentMethodId =
+    objectId(customer.invoice_settings?.default_payment_method) ?? objectId(customer.default_source);
+
+  const items = paymentMethods
+    .map((paymentMethod): PaymentMethodSummary => {
+      const card = paymentMethod.card;
+      const expiresAt = card ? Date.UTC(card.exp_year, card.exp_month, 1) / 1000 : null;
+      const expired = expiresAt !== null && expiresAt <= now;
+
+      return {
+        id: paymentMethod.id,
+        type: paymentMethod.type,
+        ...paymentMethodLabel(paymentMethod),
+        wallet: card?.wallet?.type ?? null,
+        funding: card?.funding ?? null,
+        expMonth: card?.exp_month ?? null,
+        expYear: card?.exp_year ?? null,
+        isDefault: paymentMethod.id === defaultPaymentMethodId,
+        expired,
+        expiresBeforeNextBilling:
+          !expired && expiresAt !== null && nextBilling !== null && expiresAt <= nextBilling,
+        created: new Date(paymentMethod.created * 1000).toISOString(),
+      };
+    })
+    .sort((a, b) => Number(b.isDefault) - Number(a.isDefault) || b.created.localeCompare(a.created));
+
+  return {
+    total: items.length,
+    defaultPaymentMethodId,
+    expired: items.filter(item => item.expired).length,
+    expiringBeforeNextBilling: items.filter(item => item.expiresBeforeNextBilling).length,
+    items,
   };
 }
 
+function objectId(value: string | { id: string } | null | undefined): string | null {
+  if (!value) return null;
+  return typeof value === 'string' ? value : value.id;
+}
+
+/**
+ * Brand and last 4 digits from whichever details the payment method type has
+ */
+function paymentMethodLabel(paymentMethod: Stripe.PaymentMethod): Pick<PaymentMethodSummary, 'brand' | 'last4'> {
+  switch (paymentMethod.type) {
+    case 'card':
+      return { brand: paymentMethod.card?.brand ?? null, last4: paymentMethod.card?.last4 ?? null };
+    case 'us_bank_account':
+      return {
+        brand: paymentMethod.us_bank_account?.bank_name ?? null,
+        last4: paymentMethod.us_bank_account?.last4 ?? null,
+      };
+    case 'sepa_debit':
+      return { brand: null, last4: paymentMethod.sepa_debit?.last4 ?? null };
+    case 'bacs_debit':
+      return { brand: null, last4: paymentMethod.bacs_debit?.last4 ?? null };
+    case 'au_becs_debit':
+      return { brand: null, last4: paymentMethod.au_becs_debit?.last4 ?? null };
+    default:
+      return { brand: null, last4: null };
+  }
+}
+
 /**
  * Extract Customer Metadata
  */
@@ -296,16 +955,198 @@ function extractMetadata(
   };
 }
 
+/**
+ * Trend signals compare the last N days with the N days before
+ *
+ * 90 days spans three monthly renewals, so one odd month doesn't swing the trend.
+ */
+export const HEALTH_TREND_WINDOW_DAYS = 90;
+
+/**
+ * Churn risk by health score: below medium → medium risk, below high → high risk
+ */
+export const HEALTH_CHURN_RISK_THRESHOLDS = { medium: 70, high: 40 };
+
+/**
+ * Assess Customer Health (churn risk)
+ *
+ * PM INSIGHT: Churn rarely arrives unannounced. Customers go quiet, renewals
+ * start failing, a cancellation gets scheduled, refunds pile up, spend drops.
+ * Each signal takes points off 100, so the score says how worried to be and
+ * the factors say why:
+ *
+ *   Signal                  Max points
+ *   recency                 30  (dormant after DORMANT_AFTER_DAYS)
+ *   payment_failure_trend   20
+ *   past_due                20
+ *   pending_cancellation    25
+ *   refunds                 10
+ *   spend_trend             15
+ *
+ * DESIGN: Built from the other sections rather than raw data where it can
+ * be, so the health card never disagrees with the cards below it.
+ */
+function assessHealth(
+  charges: Stripe.Charge[],
+  subscriptionHealth: CustomerInsights['subscriptionHealth'],
+  refunds: CustomerInsights['refunds'],
+  metadata: CustomerInsights['metadata'],
+  convert: CurrencyConverter
+): CustomerInsights['health'] {
+  const windowStart = Date.now() / 1000 - HEALTH_TREND_WINDOW_DAYS * 86400;
+  const priorWindowStart = windowStart - HEALTH_TREND_WINDOW_DAYS * 86400;
+  const recent = charges.filter(c => c.created >= windowStart);
+  const prior = charges.filter(c => c.created >= priorWindowStart && c.created < windowStart);
+
+  const factors: HealthFactor[] = [
+    recencyFactor(metadata.daysSinceLastPurchase),
+    failureTrendFactor(recent, prior),
+    pastDueFactor(subscriptionHealth.statusCounts.past_due),
+    pendingCancellationFactor(subscriptionHealth.items),
+    refundsFactor(refunds),
+    spendTrendFactor(netSpend(recent, convert), netSpend(prior, convert)),
+  ];
+
+  const score = Math.max(0, 100 - factors.reduce((sum, factor) => sum + factor.impact, 0));
+  const churnRisk =
+    score < HEALTH_CHURN_RISK_THRESHOLDS.high
+      ? 'high'
+      : score < HEALTH_CHURN_RISK_THRESHOLDS.medium
+      ? 'medium'
+      : 'low';
+
+  return { score, churnRisk, factors };
+}
+
+function recencyFactor(daysSinceLastPurchase: number | null): HealthFactor {
+  const signal = 'recency';
+  if (daysSinceLastPurchase === null) return { signal, impact: 0, description: 'No purchases yet' };
+
+  const days = `${daysSinceLastPurchase} day${daysSinceLastPurchase === 1 ? '' : 's'}`;
+  if (daysSinceLastPurchase > DORMANT_AFTER_DAYS) {
+    return { signal, impact: 30, description: `No purchase in ${days} - dormant` };
+  }
+  if (daysSinceLastPurchase > 60) return { signal, impact: 20, description: `Last purchase ${days} ago` };
+  if (daysSinceLastPurchase > 30) return { signal, impact: 10, description: `Last purchase ${days} ago` };
+  return { signal, impact: 0, description: `Purchased ${days} ago` };
+}
+
+/**
+ * Failure rate in the recent window, worse when it's rising
+ *
+ * Per payment, like the payment pattern: a renewal that went through on a
+ * retry isn't a failure.
+ */
+function failureTrendFactor(recentCharges: Stripe.Charge[], priorCharges: Stripe.Charge[]): HealthFactor {
+  const signal = 'payment_failure_trend';
+  const window = `the last ${HEALTH_TREND_WINDOW_DAYS} days`;
+  if (recentCharges.length === 0) return { signal, impact: 0, description: `No payment attempts in ${window}` };
+
+  const recent = groupPaymentAttempts(recentCharges);
+  const prior = groupPaymentAttempts(priorCharges);
+  const failed = recent.filter(isFailedPayment).length;
+  const rate = failed / recent.length;
+  const priorRate = prior.length > 0 ? prior.filter(isFailedPayment).length / prior.length : null;
+  const rising = rate > 0 && (priorRate === null || rate > priorRate);
+
+  let impact = rate >= 0.5 ? 20 : rate >= 0.25 ? 10 : 0;
+  if (rising) impact = Math.max(impact, 5);
+
+  const was = priorRate !== null ? ` (was ${(priorRate * 100).toFixed(0)}%)` : '';
+  return {
+    signal,
+    impact,
+    description: `${failed} of ${recent.length} payments failed in ${window}${was}`,
+  };
+}
+
+function pastDueFactor(pastDue: number): HealthFactor {
+  return pastDue > 0
+    ? {
+        signal: 'past_due',
+        impact: 20,
+        description: `${pastDue} subscription${pastDue === 1 ? '' : 's'} past due - renewal payment failing`,
+      }
+    : { signal: 'past_due', impact: 0, description: 'No subscriptions past due' };
+}
+
+/**
+ * cancel_at_period_end: the customer already decided to leave
+ *
+ * Canceling everything is the strongest churn signal there is; canceling
+ * one of several subscriptions is a downgrade.
+ */
+function pendingCancellationFactor(subscriptions: CustomerInsights['subscriptionHealth']['items']): HealthFactor {
+  const signal = 'pending_cancellation';
+  const live = subscriptions.filter(s => s.status !== 'canceled' && s.status !== 'incomplete_expired');
+  const pending = live.filter(s => s.cancelAtPeriodEnd).length;
+
+  if (pending === 0) return { signal, impact: 0, description: 'No pending cancellations' };
+  if (pending === live.length) {
+    const all = pending === 1 ? 'The only subscription is' : `All ${pending} subscriptions are`;
+    return { signal, impact: 25, description: `${all} set to cancel at period end` };
+  }
+  return {
+    signal,
+    impact: 15,
+    description: `${pending} of ${live.length} subscriptions set to cancel at period end`,
+  };
+}
+
+function refundsFactor(refunds: CustomerInsights['refunds']): HealthFactor {
+  const impact = refunds.refundRate >= 50 ? 10 : refunds.refundRate >= 20 ? 5 : 0;
+  return {
+    signal: 'refunds',
+    impact,
+    description: `${refunds.refundRate.toFixed(0)}% of payments refunded`,
+  };
+}
+
+/**
+ * Spend in the recent window vs the one before
+ */
+function spendTrendFactor(recentSpend: number, priorSpend: number): HealthFactor {
+  const signal = 'spend_trend';
+  const previous = `the previous ${HEALTH_TREND_WINDOW_DAYS} days`;
+  if (priorSpend <= 0) {
+    return { signal, impact: 0, description: `No spend in ${previous} to compare with` };
+  }
+
+  const change = ((recentSpend - priorSpend) / priorSpend) * 100;
+  const impact = change <= -50 ? 15 : change <= -25 ? 8 : 0;
+  if (Math.abs(change) < 1) return { signal, impact, description: `Spend unchanged vs ${previous}` };
+
+  const direction = change < 0 ? 'down' : 'up';
+  return { signal, impact, description: `Spend ${direction} ${Math.abs(change).toFixed(0)}% vs ${previous}` };
+}
+
+/**
+ * Collected minus refunded, in the reporting currency
+ */
+function netSpend(charges: Stripe.Charge[], convert: CurrencyConverter): number {
+  return charges
+    .filter(c => c.status === 'succeeded')
+    .reduce(
+      (sum, c) =>
+        sum + (convert(moneyFromMinorUnits(c.amount - (c.amount_refunded || 0), c.currency))?.amount ?? 0),
+      0
+    );
+}
+
 /**
  * Format currency for display
  *
  * DX NOTE: Helper functions like this improve code readability
+ * Decimal places follow the currency's exponent (¥1,000 / $10.50 / KWD 1.500)
  */
-export function formatCurrency(amount: number, currency: string): string {
+export function formatCurrency(value: Money): string {
+  const digits = getCurrencyExponent(value.currency);
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
-    currency: currency.toUpperCase(),
-  }).format(amount);
+    currency: value.currency.toUpperCase(),
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(value.amount);
 }
 
 /**
@@ -319,3 +1160,21 @@ export function formatDate(dateString: string | null): string {
     day: 'numeric',
   });
 }
+
+/**
+ * Format how long ago something happened ("just now", "3 min ago", "2 hr ago")
+ *
+ * UX: Relative times answer "can I trust this number?" faster than timestamps
+ */
+export function formatRelativeTime(dateString: string | null, now: number = Date.now()): string {
+  if (!dateString) return 'never';
+
+  const minutes = Math.floor((now - new Date(dateString).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hr ago`;
+
+  return formatDate(dateString);
+}
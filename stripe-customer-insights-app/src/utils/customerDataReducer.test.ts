@@ -0,0 +1,223 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import Stripe from 'stripe';
+import { StripeCustomerData } from '../types';
+import { calculateCustomerInsights } from './calculations';
+import { reduceCustomerData } from './customerDataReducer';
+
+const NOW = Date.UTC(2025, 5, 1) / 1000;
+const DAY = 86400;
+const CUSTOMER_ID = 'cus_123';
+
+function customer(overrides: Partial<Stripe.Customer> = {}): Stripe.Customer {
+  return {
+    id: CUSTOMER_ID,
+    object: 'customer',
+    created: NOW - 400 * DAY,
+    currency: 'usd',
+    email: 'jane@example.com',
+    ...overrides,
+  } as Stripe.Customer;
+}
+
+function charge(id: string, daysAgo: number, overrides: Partial<Stripe.Charge> = {}): Stripe.Charge {
+  return {
+    id,
+    object: 'charge',
+    customer: CUSTOMER_ID,
+    amount: 2500,
+    amount_refunded: 0,
+    currency: 'usd',
+    status: 'succeeded',
+    created: NOW - daysAgo * DAY,
+    disputed: false,
+    invoice: null,
+    payment_method_details: { type: 'card' },
+    ...overrides,
+  } as Stripe.Charge;
+}
+
+function subscription(
+  id: string,
+  daysAgo: number,
+  overrides: Partial<Stripe.Subscription> = {}
+): Stripe.Subscription {
+  return {
+    id,
+    object: 'subscription',
+    customer: CUSTOMER_ID,
+    status: 'active',
+    currency: 'usd',
+    created: NOW - daysAgo * DAY,
+    current_period_end: NOW + 10 * DAY,
+    cancel_at_period_end: false,
+    items: {
+      data: [{ price: { unit_amount: 4900, recurring: { interval: 'month', interval_count: 1 } } }],
+    },
+    ...overrides,
+  } as unknown as Stripe.Subscription;
+}
+
+function dispute(id: string, chargeId: string, daysAgo: number): Stripe.Dispute {
+  return {
+    id,
+    object: 'dispute',
+    charge: chargeId,
+    amount: 75000,
+    currency: 'usd',
+    status: 'needs_response',
+    reason: 'fraudulent',
+    created: NOW - daysAgo * DAY,
+    evidence_details: { due_by: NOW + 5 * DAY },
+  } as unknown as Stripe.Dispute;
+}
+
+function event(type: string, object: { id: string }): Stripe.Event {
+  return {
+    id: `evt_${type}_${object.id}`,
+    object: 'event',
+    type,
+    created: NOW,
+    data: { object },
+  } as unknown as Stripe.Event;
+}
+
+/**
+ * Simulates a full refetch: the latest version of every object, returned in
+ * Stripe's list order (newest first)
+ */
+function refetch(customerObject: Stripe.Customer, objects: Array<{ id: string; created: number; object: string }>) {
+  const latest = new Map(objects.map(object => [object.id, object]));
+  const sorted = [...latest.values()].sort((a, b) => b.created - a.created || (b.id > a.id ? 1 : -1));
+  const ofType = <T,>(type: string) => sorted.filter(object => object.object === type) as unknown as T[];
+
+  return {
+    customer: customerObject,
+    charges: ofType<Stripe.Charge>('charge'),
+    paymentIntents: ofType<Stripe.PaymentIntent>('payment_intent'),
+    subscriptions: ofType<Stripe.Subscription>('subscription'),
+    invoices: ofType<Stripe.Invoice>('invoice'),
+    disputes: ofType<Stripe.Dispute>('dispute'),
+    paymentMethods: ofType<Stripe.PaymentMethod>('payment_method'),
+    truncated: {
+      charges: false,
+      paymentIntents: false,
+      subscriptions: false,
+      invoices: false,
+      disputes: false,
+      paymentMethods: false,
+    },
+  } satisfies StripeCustomerData;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW * 1000);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('reduceCustomerData', () => {
+  it('matches a full refetch + recompute after a sequence of events', () => {
+    const initialObjects = [
+      charge('ch_1', 120),
+      charge('ch_2', 90, { invoice: 'in_1' }),
+      charge('ch_3', 60, {
+        status: 'failed',
+        payment_method_details: { type: 'sepa_debit' } as unknown as Stripe.Charge.PaymentMethodDetails,
+      }),
+      subscription('sub_1', 90),
+      subscription('sub_2', 30, { status: 'trialing' }),
+    ];
+    const initial = refetch(customer(), initialObjects);
+
+    const updates = [
+      charge('ch_4', 5, { amount: 75000 }),
+      charge('ch_5', 3, { status: 'failed' }),
+      charge('ch_1', 120, { amount_refunded: 1000, refunded: false }),
+      subscription('sub_2', 30, { status: 'active' }),
+      subscription('sub_1', 90, { status: 'canceled' }),
+      charge('ch_6', 1, { currency: 'eur', amount: 1800 }),
+      dispute('dp_1', 'ch_4', 2),
+    ];
+    const events = [
+      event('charge.succeeded', updates[0]),
+      event('charge.failed', updates[1]),
+      event('charge.refunded', updates[2]),
+      event('customer.subscription.updated', updates[3]),
+      event('customer.subscription.deleted', updates[4]),
+      event('charge.succeeded', updates[5]),
+      event('charge.dispute.created', updates[6]),
+      event('customer.updated', customer({ currency: 'eur' })),
+    ];
+
+    const reduced = events.reduce(reduceCustomerData, initial);
+    const refetched = refetch(customer({ currency: 'eur' }), [
+      ...initialObjects,
+      ...updates,
+      charge('ch_4', 5, { amount: 75000, disputed: true }),
+    ]);
+
+    expect(reduced).toEqual(refetched);
+    expect(calculateCustomerInsights(reduced)).toEqual(calculateCustomerInsights(refetched));
+  });
+
+  it('keeps the expanded discounts and price tiers a subscription payload leaves out', () => {
+    const discount = {
+      id: 'di_1',
+      object: 'discount',
+      coupon: { id: 'TEN', percent_off: 10, duration: 'forever' },
+      end: null,
+    } as unknown as Stripe.Discount;
+    const tieredPrice = {
+      id: 'price_tiered',
+      billing_scheme: 'tiered',
+      tiers_mode: 'volume',
+      tiers: [
+        { up_to: 10, unit_amount: 1000, flat_amount: null },
+        { up_to: null, unit_amount: 800, flat_amount: null },
+      ],
+      recurring: { interval: 'month', interval_count: 1 },
+    } as unknown as Stripe.Price;
+    const items = (price: Stripe.Price) =>
+      ({
+        data: [{ id: 'si_1', price, quantity: 5, discounts: [] }],
+      }) as unknown as Stripe.ApiList<Stripe.SubscriptionItem>;
+
+    const fetched = subscription('sub_1', 90, { discounts: [discount], items: items(tieredPrice) });
+    const initial = refetch(customer(), [fetched]);
+
+    // Webhook payloads aren't expanded: discount IDs, and no tiers
+    const payload = subscription('sub_1', 90, {
+      cancel_at_period_end: true,
+      discounts: ['di_1', 'di_new'],
+      items: items({ ...tieredPrice, tiers: undefined } as unknown as Stripe.Price),
+    });
+    const reduced = reduceCustomerData(initial, event('customer.subscription.updated', payload));
+
+    const [patched] = reduced.subscriptions;
+    expect(patched.cancel_at_period_end).toBe(true);
+    // A discount the cache has never seen stays an ID until the next fetch
+    expect(patched.discounts).toEqual([discount, 'di_new']);
+    expect(patched.items.data[0].price.tiers).toEqual(tieredPrice.tiers);
+    // 5 units at $10, 10% off
+    expect(calculateCustomerInsights(reduced).subscriptionHealth.monthlyRecurringRevenue.amount).toBe(45);
+  });
+
+  it('ignores events for other customers', () => {
+    const initial = refetch(customer(), [charge('ch_1', 10)]);
+    const otherCustomersCharge = charge('ch_other', 1, { customer: 'cus_other' });
+
+    expect(reduceCustomerData(initial, event('charge.succeeded', otherCustomersCharge))).toBe(initial);
+  });
+
+  it('does not mutate the previous state', () => {
+    const initial = refetch(customer(), [charge('ch_1', 10)]);
+    const snapshot = structuredClone(initial);
+
+    reduceCustomerData(initial, event('charge.succeeded', charge('ch_2', 1)));
+
+    expect(initial).toEqual(snapshot);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Incremental Customer Data Updates from Webhook Events
+ *
+ * PROBLEM: Invalidating the cache on every webhook means the next dashboard
+ * view re-downloads every charge, invoice and subscription - for one new charge.
+ *
+ * APPROACH: Treat the cached StripeCustomerData as state and each webhook
+ * event as an action:
+ *
+ *   newData = reduceCustomerData(data, event)
+ *   insights = calculateCustomerInsights(newData)
+ *
+ * WHY PATCH THE RAW DATA (not the insights)?
+ * Insights like risk factors or the preferred payment method can't be
+ * updated from a single event without the full history. Patching the raw
+ * objects and re-running the pure calculation guarantees the result is
+ * identical to a full refetch + recompute (see customerDataReducer.test.ts).
+ *
+ * ROUTING: By the event's object type (charge, subscription, ...) rather than
+ * the event name, so new event types for a known object need no changes here.
+ */
+
+import Stripe from 'stripe';
+import { StripeCustomerData } from '../types';
+
+/**
+ * Apply one webhook event to a customer's data
+ *
+ * Pure: returns a new object and never mutates `data`.
+ * Events for other customers or unknown object types return `data` unchanged.
+ */
+export function reduceCustomerData(data: StripeCustomerData, event: Stripe.Event): StripeCustomerData {
+  const object = event.data.object as { object?: string; id?: string };
+  const customerId = data.customer.id;
+
+  switch (object.object) {
+    case 'customer': {
+      const customer = object as Stripe.Customer;
+      return customer.id === customerId ? { ...data, customer } : data;
+    }
+
+    case 'charge': {
+      const charge = object as Stripe.Charge;
+      return customerIdOf(charge.customer) === customerId
+        ? { ...data, charges: upsertByCreated(data.charges, charge) }
+        : data;
+    }
+
+    case 'payment_intent': {
+      const paymentIntent = object as Stripe.PaymentIntent;
+      return customerIdOf(paymentIntent.customer) === customerId
+        ? { ...data, paymentIntents: upsertByCreated(data.paymentIntents, paymentIntent) }
+        : data;
+    }
+
+    case 'subscription': {
+      // customer.subscription.deleted carries the subscription with status "canceled",
+      // so an upsert keeps it in the list for churn analysis
+      const subscription = object as Stripe.Subscription;
+      return customerIdOf(subscription.customer) === customerId
+        ? {
+            ...data,
+            subscriptions: upsertByCreated(
+              data.subscriptions,
+              withCachedExpansions(subscription, data.subscriptions)
+            ),
+          }
+        : data;
+    }
+
+    case 'invoice': {
+      const invoice = object as Stripe.Invoice;
+      return customerIdOf(invoice.customer) === customerId
+        ? { ...data, invoices: upsertByCreated(data.invoices, invoice) }
+        : data;
+    }
+
+    case 'dispute': {
+      // Disputes don't reference the customer - they belong to this customer
+      // when their charge does. A refetch also shows the charge as `disputed`.
+      const dispute = object as Stripe.Dispute;
+      const chargeId = typeof dispute.charge === 'string' ? dispute.charge : dispute.charge.id;
+      const disputedCharge = data.charges.find(charge => charge.id === chargeId);
+      if (!disputedCharge) return data;
+
+      return {
+        ...data,
+        charges: disputedCharge.disputed
+          ? data.charges
+          : upsertByCreated(data.charges, { ...disputedCharge, disputed: true }),
+        disputes: upsertByCreated(data.disputes, dispute),
+      };
+    }
+
+    default:
+      return data;
+  }
+}
+
+/**
+ * Customer id from an expandable customer field
+ */
+export function customerIdOf(
+  customer: string | Stripe.Customer | Stripe.DeletedCustomer | null | undefined
+): string | null {
+  if (!customer) return null;
+  return typeof customer === 'string' ? customer : customer.id;
+}
+
+/**
+ * Restore what fetchSubscriptions expanded and a webhook payload leaves bare
+ *
+ * STRIPE API DETAIL: Payloads are never expanded - discounts arrive as IDs
+ * and tiered prices without their tiers, which MRR needs. The cached copies
+ * fill them back in: a discount by id, and a price's tiers by price id (tiers
+ * can't change once a price is created). A discount or tiered price the
+ * cache has never seen stays bare until the next fetch.
+ */
+function withCachedExpansions(
+  subscription: Stripe.Subscription,
+  cached: Stripe.Subscription[]
+): Stripe.Subscription {
+  const discounts = new Map<string, Stripe.Discount>();
+  const tieredPrices = new Map<string, Stripe.Price>();
+  for (const existing of cached) {
+    const items = existing.items?.data ?? [];
+    for (const discount of [...(existing.discounts ?? []), ...items.flatMap(item => item.discounts ?? [])]) {
+      if (typeof discount !== 'string') discounts.set(discount.id, discount);
+    }
+    for (const item of items) {
+      if (item.price?.tiers) tieredPrices.set(item.price.id, item.price);
+    }
+  }
+  if (discounts.size === 0 && tieredPrices.size === 0) return subscription;
+
+  // Payloads built by hand (tests, fixtures) may leave the lists out
+  const expand = (list: Array<string | Stripe.Discount>) =>
+    list?.map(discount => (typeof discount === 'string' ? discounts.get(discount) ?? discount : discount));
+
+  return {
+    ...subscription,
+    discounts: expand(subscription.discounts),
+    items: subscription.items && {
+      ...subscription.items,
+      data: subscription.items.data.map(item => {
+        const tiers = item.price && !item.price.tiers ? tieredPrices.get(item.price.id)?.tiers : undefined;
+        return {
+          ...item,
+          discounts: expand(item.discounts),
+          price: tiers ? { ...item.price, tiers } : item.price,
+        };
+      }),
+    },
+  };
+}
+
+/**
+ * Insert or replace an object, keeping Stripe's list order (newest first)
+ *
+ * ORDER MATTERS: Calculations such as the velocity check read the first and
+ * last elements, so patched lists must match what the API would return.
+ * Ties on `created` are broken by id (descending) so the order is deterministic.
+ */
+function upsertByCreated<T extends { id: string; created: number }>(list: T[], item: T): T[] {
+  const rest = list.filter(existing => existing.id !== item.id);
+  const index = rest.findIndex(
+    existing => existing.created < item.created || (existing.created === item.created && existing.id < item.id)
+  );
+
+  return index === -1 ? [...rest, item] : [...rest.slice(0, index), item, ...rest.slice(index)];
+}
@@ -0,0 +1,27 @@
+/**
+ * Dispute Status Helpers
+ *
+ * STRIPE API DETAIL: Inquiries (retrievals) use warning_* statuses and
+ * become chargebacks if left unanswered, so "open" and "needs a response"
+ * include them. Shared by the dispute analytics and the risk rules so both
+ * agree on what is still open.
+ */
+
+import Stripe from 'stripe';
+
+// Still waiting on the merchant (needs_response) or the bank (under_review)
+export const OPEN_DISPUTE_STATUSES: readonly Stripe.Dispute.Status[] = [
+  'needs_response',
+  'under_review',
+  'warning_needs_response',
+  'warning_under_review',
+];
+
+export const NEEDS_RESPONSE_STATUSES: readonly Stripe.Dispute.Status[] = [
+  'needs_response',
+  'warning_needs_response',
+];
+
+export function isOpenDispute(dispute: Stripe.Dispute): boolean {
+  return OPEN_DISPUTE_STATUSES.includes(dispute.status);
+}
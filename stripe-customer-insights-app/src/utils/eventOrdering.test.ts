@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import Stripe from 'stripe';
+import { StripeCustomerData } from '../types';
+import { reduceCustomerData } from './customerDataReducer';
+import { EMPTY_EVENT_VERSIONS, isStaleEvent, recordAppliedEvent } from './eventOrdering';
+
+const CUSTOMER_ID = 'cus_123';
+
+function event(id: string, type: string, created: number, object: Record<string, unknown>): Stripe.Event {
+  return { id, object: 'event', type, created, data: { object } } as unknown as Stripe.Event;
+}
+
+function subscription(status: string) {
+  return { id: 'sub_1', object: 'subscription', customer: CUSTOMER_ID, created: 100, status };
+}
+
+function customer(email: string) {
+  return { id: CUSTOMER_ID, object: 'customer', created: 1, email };
+}
+
+function charge(amountRefunded: number) {
+  return { id: 'ch_1', object: 'charge', customer: CUSTOMER_ID, created: 120, amount: 5000, amount_refunded: amountRefunded };
+}
+
+/**
+ * Chronological history; several events share a second
+ */
+const HISTORY = [
+  event('evt_1', 'customer.subscription.created', 100, subscription('trialing')),
+  event('evt_2', 'customer.subscription.updated', 100, subscription('active')),
+  event('evt_3', 'charge.succeeded', 120, charge(0)),
+  event('evt_4', 'customer.updated', 150, customer('old@example.com')),
+  event('evt_5', 'customer.subscription.updated', 200, subscription('past_due')),
+  event('evt_6', 'customer.updated', 250, customer('new@example.com')),
+  event('evt_7', 'customer.subscription.updated', 300, subscription('active')),
+  event('evt_8', 'charge.refunded', 300, charge(5000)),
+  event('evt_9', 'customer.subscription.deleted', 400, subscription('canceled')),
+];
+
+const INITIAL: StripeCustomerData = {
+  customer: customer('initial@example.com') as unknown as Stripe.Customer,
+  charges: [],
+  paymentIntents: [],
+  subscriptions: [],
+  invoices: [],
+  disputes: [],
+  paymentMethods: [],
+  truncated: {
+    charges: false,
+    paymentIntents: false,
+    subscriptions: false,
+    invoices: false,
+    disputes: false,
+    paymentMethods: false,
+  },
+};
+
+/**
+ * Apply events in arrival order, discarding stale ones
+ */
+function replay(events: Stripe.Event[]) {
+  let data = INITIAL;
+  let versions = EMPTY_EVENT_VERSIONS;
+  let discarded = 0;
+
+  for (const e of events) {
+    if (isStaleEvent(versions, e)) {
+      discarded++;
+      continue;
+    }
+    data = reduceCustomerData(data, e);
+    versions = recordAppliedEvent(versions, e);
+  }
+
+  return { data, versions, discarded };
+}
+
+/**
+ * Deterministic Fisher-Yates shuffle (mulberry32) so failures are reproducible
+ */
+function shuffle<T>(items: T[], seed: number): T[] {
+  let state = seed;
+  const random = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+describe('out-of-order event replay', () => {
+  const expected = replay(HISTORY);
+
+  it('ends in the latest state of every object when replayed in order', () => {
+    expect(expected.discarded).toBe(0);
+    expect(expected.data.customer.email).toBe('new@example.com');
+    expect(expected.data.subscriptions.map(s => s.status)).toEqual(['canceled']);
+    expect(expected.data.charges.map(c => c.amount_refunded)).toEqual([5000]);
+    // customer.subscription.deleted at 400: the deleted phase wins ties
+    expect(expected.versions.objects['subscription:sub_1']).toBe(400 * 10 + 2);
+  });
+
+  it.each(Array.from({ length: 25 }, (_, seed) => seed + 1))('converges to the same state (seed %i)', seed => {
+    const shuffled = replay(shuffle(HISTORY, seed));
+
+    expect(shuffled.data).toEqual(expected.data);
+    expect(shuffled.versions).toEqual(expected.versions);
+  });
+
+  it('discards every event older than one already applied', () => {
+    const reversed = replay([...HISTORY].reverse());
+
+    expect(reversed.data).toEqual(expected.data);
+    // Only the newest event per object (subscription, customer, charge) is applied
+    expect(reversed.discarded).toBe(HISTORY.length - 3);
+  });
+
+  it('orders a created event before an update from the same second', () => {
+    const { data } = replay([HISTORY[1], HISTORY[0]]);
+
+    expect(data.subscriptions.map(s => s.status)).toEqual(['active']);
+  });
+});
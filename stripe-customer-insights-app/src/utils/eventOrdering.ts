@@ -0,0 +1,75 @@
+/**
+ * Out-of-Order Webhook Protection
+ *
+ * INTERVIEW TOPIC: "Events might arrive out of order. How do you handle this?"
+ *
+ * STRIPE DOES NOT GUARANTEE ORDER: A retried customer.updated from an hour
+ * ago can arrive after the latest one. Applying it would overwrite fresher
+ * state with an older snapshot of the object.
+ *
+ * APPROACH: Remember, per object, the version of the newest event applied:
+ *
+ *   version = event.created (seconds) + lifecycle phase as a tie-breaker
+ *
+ * An event whose version is older than the one already applied to the same
+ * object is stale and must be discarded.
+ *
+ * TIE-BREAKING: event.created has one-second resolution, and a subscription
+ * is often created and updated within the same second. Within a second,
+ * `*.created` sorts before updates and `*.deleted` after them; otherwise the
+ * later arrival wins.
+ *
+ * STORAGE: Versions live next to the cached data in the CacheStore, so they
+ * can be evicted like any entry. Once a customer's versions are gone, the
+ * next event for each object is accepted whatever its age - a late retry
+ * could then patch in an older snapshot. That error is bounded: the part is
+ * refetched when its TTL runs out (minutes), and the LRU usually evicts the
+ * versions together with the data they protect.
+ */
+
+import Stripe from 'stripe';
+
+export interface EventVersions {
+  objects: Record<string, number>; // "charge:ch_123" → version of the newest applied event
+}
+
+export const EMPTY_EVENT_VERSIONS: EventVersions = { objects: {} };
+
+/**
+ * Identifies the object an event describes, e.g. "subscription:sub_123"
+ */
+export function eventObjectKey(event: Stripe.Event): string {
+  const object = event.data.object as { object?: string; id?: string };
+  return `${object.object}:${object.id}`;
+}
+
+/**
+ * Sortable version of the object state an event carries
+ */
+export function eventVersion(event: Stripe.Event): number {
+  return event.created * 10 + lifecyclePhase(event.type);
+}
+
+function lifecyclePhase(type: string): number {
+  if (type.endsWith('.created')) return 0;
+  if (type.endsWith('.deleted')) return 2;
+  return 1;
+}
+
+/**
+ * True when a newer event for the same object has already been applied
+ */
+export function isStaleEvent(versions: EventVersions, event: Stripe.Event): boolean {
+  const applied = versions.objects[eventObjectKey(event)];
+  return applied !== undefined && eventVersion(event) < applied;
+}
+
+/**
+ * Record an applied event (pure: returns a new object)
+ */
+export function recordAppliedEvent(versions: EventVersions, event: Stripe.Event): EventVersions {
+  const key = eventObjectKey(event);
+  return {
+    objects: { ...versions.objects, [key]: Math.max(versions.objects[key] ?? 0, eventVersion(event)) },
+  };
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { StaticFxRateProvider, convertAmount, defaultFxRateProvider } from './fx';
+
+describe('StaticFxRateProvider', () => {
+  const provider = new StaticFxRateProvider({ usd: 1, eur: 0.5, gbp: 0.8 });
+
+  it('converts from and to the base currency', () => {
+    expect(provider.getRate('usd', 'eur')).toBe(0.5);
+    expect(provider.getRate('eur', 'usd')).toBe(2);
+  });
+
+  it('derives cross rates through the base currency', () => {
+    expect(provider.getRate('eur', 'gbp')).toBeCloseTo(1.6);
+  });
+
+  it('ignores the case of currency codes', () => {
+    expect(new StaticFxRateProvider({ USD: 1, EUR: 0.5 }).getRate('Usd', 'eUr')).toBe(0.5);
+  });
+
+  it('converts a currency into itself without a rate', () => {
+    expect(provider.getRate('xyz', 'XYZ')).toBe(1);
+  });
+
+  it('has no rate for unknown currencies', () => {
+    expect(provider.getRate('usd', 'xyz')).toBeNull();
+    expect(provider.getRate('xyz', 'usd')).toBeNull();
+  });
+});
+
+describe('convertAmount', () => {
+  const provider = new StaticFxRateProvider({ usd: 1, eur: 0.5 });
+
+  it('applies the provider rate', () => {
+    expect(convertAmount(10, 'eur', 'usd', provider)).toBe(20);
+  });
+
+  it('returns null when the provider has no rate', () => {
+    expect(convertAmount(10, 'xyz', 'usd', provider)).toBeNull();
+  });
+
+  it('uses the default rate table', () => {
+    expect(convertAmount(151, 'jpy', 'usd')).toBeCloseTo(1);
+    expect(defaultFxRateProvider.getRate('usd', 'usd')).toBe(1);
+  });
+});
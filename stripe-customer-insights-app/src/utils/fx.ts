@@ -0,0 +1,100 @@
+/**
+ * Foreign Exchange (FX) Rate Utilities
+ *
+ * PROBLEM: A customer can pay in EUR, GBP and USD over their lifetime.
+ * Summing raw amounts across currencies produces a meaningless number.
+ *
+ * APPROACH: Convert every amount into a single "reporting currency"
+ * through a pluggable rate provider.
+ * - Default: static offline rate table (no network, deterministic)
+ * - Production: plug in a provider backed by your treasury / FX feed
+ *
+ * TRADE-OFFS:
+ * - Static rates drift over time → fine for insights, NOT for accounting
+ * - Converting at today's rate (not the rate on the charge date) keeps the
+ *   provider interface simple; historical rates can be added behind it later
+ */
+
+/**
+ * FX rate provider interface
+ *
+ * EXTENSION POINT: Implement this to source rates from anywhere.
+ * Returns null when no rate is known so callers can degrade gracefully.
+ */
+export interface FxRateProvider {
+  getRate(fromCurrency: string, toCurrency: string): number | null;
+}
+
+/**
+ * Approximate offline rates, expressed as units of currency per 1 USD
+ *
+ * NOTE: Snapshot values for display purposes only.
+ */
+export const DEFAULT_USD_RATES: Record<string, number> = {
+  usd: 1,
+  eur: 0.92,
+  gbp: 0.79,
+  cad: 1.36,
+  aud: 1.52,
+  nzd: 1.65,
+  chf: 0.88,
+  sek: 10.6,
+  nok: 10.8,
+  dkk: 6.88,
+  pln: 3.98,
+  czk: 23.1,
+  jpy: 151,
+  krw: 1360,
+  inr: 83.4,
+  sgd: 1.35,
+  hkd: 7.82,
+  mxn: 17.1,
+  brl: 5.05,
+  bhd: 0.376,
+  kwd: 0.308,
+};
+
+/**
+ * Static rate table provider
+ *
+ * Rates are stored relative to a single base currency and cross rates are
+ * derived from them (EUR→GBP = USD→GBP / USD→EUR).
+ */
+export class StaticFxRateProvider implements FxRateProvider {
+  private readonly rates: Map<string, number>;
+
+  constructor(ratesPerBase: Record<string, number> = DEFAULT_USD_RATES) {
+    this.rates = new Map(
+      Object.entries(ratesPerBase).map(([currency, rate]) => [currency.toLowerCase(), rate])
+    );
+  }
+
+  getRate(fromCurrency: string, toCurrency: string): number | null {
+    const from = fromCurrency.toLowerCase();
+    const to = toCurrency.toLowerCase();
+    if (from === to) return 1;
+
+    const fromRate = this.rates.get(from);
+    const toRate = this.rates.get(to);
+    if (!fromRate || !toRate) return null;
+
+    return toRate / fromRate;
+  }
+}
+
+export const defaultFxRateProvider: FxRateProvider = new StaticFxRateProvider();
+
+/**
+ * Convert an amount between currencies
+ *
+ * Returns null when the provider has no rate for the pair.
+ */
+export function convertAmount(
+  amount: number,
+  fromCurrency: string,
+  toCurrency: string,
+  provider: FxRateProvider = defaultFxRateProvider
+): number | null {
+  const rate = provider.getRate(fromCurrency, toCurrency);
+  return rate === null ? null : amount * rate;
+}
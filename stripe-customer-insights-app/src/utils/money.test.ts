@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { formatCurrency } from './calculations';
+import { getCurrencyExponent, money, moneyFromMinorUnits, toMajorUnits, toMinorUnits } from './money';
+
+describe('getCurrencyExponent', () => {
+  it.each([
+    ['usd', 2],
+    ['eur', 2],
+    ['jpy', 0],
+    ['krw', 0],
+    ['kwd', 3],
+    ['bhd', 3],
+    ['JPY', 0],
+  ])('%s has %i decimals', (currency, exponent) => {
+    expect(getCurrencyExponent(currency)).toBe(exponent);
+  });
+});
+
+describe('minor units', () => {
+  it.each([
+    [1050, 'usd', 10.5],
+    [1000, 'jpy', 1000],
+    [50000, 'krw', 50000],
+    [1500, 'kwd', 1.5],
+    [1234, 'bhd', 1.234],
+  ])('%i %s is %f in major units', (minor, currency, major) => {
+    expect(toMajorUnits(minor, currency)).toBe(major);
+    expect(toMinorUnits(major, currency)).toBe(minor);
+  });
+
+  it('rounds to a whole minor unit', () => {
+    // 0.1 + 0.2 = 0.30000000000000004
+    expect(toMinorUnits(0.1 + 0.2, 'usd')).toBe(30);
+    expect(toMinorUnits(999.6, 'jpy')).toBe(1000);
+  });
+
+  it('builds Money with a lowercase currency', () => {
+    expect(money(10, 'USD')).toEqual({ amount: 10, currency: 'usd' });
+    expect(moneyFromMinorUnits(1000, 'JPY')).toEqual({ amount: 1000, currency: 'jpy' });
+    expect(moneyFromMinorUnits(1500, 'kwd')).toEqual({ amount: 1.5, currency: 'kwd' });
+  });
+});
+
+describe('formatCurrency', () => {
+  it('shows each currency with its own number of decimals', () => {
+    expect(formatCurrency(money(1234.5, 'usd'))).toBe('$1,234.50');
+    expect(formatCurrency(moneyFromMinorUnits(1000, 'jpy'))).toBe('¥1,000');
+    // Intl separates the code with a non-breaking space
+    expect(formatCurrency(moneyFromMinorUnits(1500, 'kwd'))).toMatch(/^KWD\s1\.500$/);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Money & Currency Minor-Unit Utilities
+ *
+ * STRIPE API DETAIL: Amounts are integers in the currency's smallest unit
+ * - USD 10.00 → 1000 (two decimals, "cents")
+ * - JPY 1000  → 1000 (zero-decimal, no minor unit)
+ * - KWD 1.500 → 1500 (three decimals, "fils")
+ *
+ * COMMON BUG: Dividing everything by 100 shows ¥1,000 as ¥10
+ * and KWD 1.500 as KWD 15.00.
+ *
+ * Reference: https://stripe.com/docs/currencies#zero-decimal
+ */
+
+import { Money } from '../types';
+
+/**
+ * Currencies Stripe treats as zero-decimal
+ */
+const ZERO_DECIMAL_CURRENCIES = new Set([
+  'bif', 'clp', 'djf', 'gnf', 'jpy', 'kmf', 'krw', 'mga',
+  'pyg', 'rwf', 'ugx', 'vnd', 'vuv', 'xaf', 'xof', 'xpf',
+]);
+
+/**
+ * Currencies Stripe treats as three-decimal
+ */
+const THREE_DECIMAL_CURRENCIES = new Set(['bhd', 'jod', 'kwd', 'omr', 'tnd']);
+
+/**
+ * Number of decimal places in a currency's minor unit
+ */
+export function getCurrencyExponent(currency: string): number {
+  const code = currency.toLowerCase();
+  if (ZERO_DECIMAL_CURRENCIES.has(code)) return 0;
+  if (THREE_DECIMAL_CURRENCIES.has(code)) return 3;
+  return 2;
+}
+
+/**
+ * Stripe integer amount → display amount (e.g. 1050 usd → 10.5)
+ */
+export function toMajorUnits(minorAmount: number, currency: string): number {
+  return minorAmount / 10 ** getCurrencyExponent(currency);
+}
+
+/**
+ * Display amount → Stripe integer amount (e.g. 10.5 usd → 1050)
+ */
+export function toMinorUnits(majorAmount: number, currency: string): number {
+  return Math.round(majorAmount * 10 ** getCurrencyExponent(currency));
+}
+
+/**
+ * Build a Money value from a major-unit amount
+ */
+export function money(amount: number, currency: string): Money {
+  return { amount, currency: currency.toLowerCase() };
+}
+
+/**
+ * Build a Money value from a Stripe integer amount
+ */
+export function moneyFromMinorUnits(minorAmount: number, currency: string): Money {
+  return money(toMajorUnits(minorAmount, currency), currency);
+}
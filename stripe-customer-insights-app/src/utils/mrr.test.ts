@@ -0,0 +1,310 @@
+import { describe, expect, it } from 'vitest';
+import Stripe from 'stripe';
+import { monthlyFactor, subscriptionMrr } from './mrr';
+
+const NOW = Date.UTC(2025, 5, 1) / 1000;
+const DAY = 86400;
+
+type PriceFields = Partial<Omit<Stripe.Price, 'recurring'>> & {
+  recurring?: Partial<Stripe.Price.Recurring> | null;
+};
+
+function price(fields: PriceFields = {}): Stripe.Price {
+  const { recurring, ...rest } = fields;
+  return {
+    id: 'price_basic',
+    object: 'price',
+    product: 'prod_basic',
+    currency: 'usd',
+    billing_scheme: 'per_unit',
+    unit_amount: 4900,
+    unit_amount_decimal: null,
+    tiers_mode: null,
+    transform_quantity: null,
+    ...rest,
+    recurring:
+      recurring === null ? null : { interval: 'month', interval_count: 1, usage_type: 'licensed', ...recurring },
+  } as Stripe.Price;
+}
+
+function item(fields: PriceFields = {}, quantity = 1, discounts: Stripe.Discount[] = []): Stripe.SubscriptionItem {
+  return {
+    id: `si_${fields.id ?? 'basic'}`,
+    object: 'subscription_item',
+    price: price(fields),
+    quantity,
+    discounts,
+  } as Stripe.SubscriptionItem;
+}
+
+function subscription(
+  items: Stripe.SubscriptionItem[],
+  fields: Partial<Stripe.Subscription> = {}
+): Stripe.Subscription {
+  return {
+    id: 'sub_1',
+    object: 'subscription',
+    currency: 'usd',
+    status: 'active',
+    items: { object: 'list', data: items, has_more: false, url: '' },
+    discounts: [],
+    discount: null,
+    ...fields,
+  } as Stripe.Subscription;
+}
+
+function discount(id: string, coupon: Partial<Stripe.Coupon>, end: number | null = null): Stripe.Discount {
+  return {
+    id,
+    object: 'discount',
+    end,
+    coupon: {
+      id: `co_${id}`,
+      object: 'coupon',
+      duration: 'forever',
+      percent_off: null,
+      amount_off: null,
+      currency: null,
+      ...coupon,
+    },
+  } as Stripe.Discount;
+}
+
+function mrrOf(sub: Stripe.Subscription): number {
+  return subscriptionMrr(sub, NOW).amount;
+}
+
+describe('monthlyFactor', () => {
+  it.each([
+    ['month', 1, 1],
+    ['month', 3, 1 / 3],
+    ['year', 1, 1 / 12],
+    ['year', 2, 1 / 24],
+    ['week', 1, 52 / 12],
+    ['week', 2, 26 / 12],
+    ['day', 1, 365 / 12],
+    ['day', 7, 365 / 12 / 7],
+  ] as const)('%s × %i → %f', (interval, count, expected) => {
+    expect(monthlyFactor(interval, count)).toBeCloseTo(expected, 10);
+  });
+
+  it('treats a missing or zero interval_count as 1', () => {
+    expect(monthlyFactor('year', 0)).toBeCloseTo(1 / 12, 10);
+    expect(monthlyFactor('month')).toBe(1);
+  });
+});
+
+describe('subscriptionMrr', () => {
+  describe('intervals', () => {
+    it.each([
+      ['monthly', { interval: 'month', interval_count: 1 }, 4900, 4900],
+      ['quarterly', { interval: 'month', interval_count: 3 }, 3000, 1000],
+      ['yearly', { interval: 'year', interval_count: 1 }, 12000, 1000],
+      ['every 2 years', { interval: 'year', interval_count: 2 }, 12000, 500],
+      ['weekly', { interval: 'week', interval_count: 1 }, 1200, 5200],
+      ['every 2 weeks', { interval: 'week', interval_count: 2 }, 1200, 2600],
+      ['daily', { interval: 'day', interval_count: 1 }, 1200, 36500],
+    ] as const)('%s', (_name, recurring, unitAmount, expected) => {
+      expect(mrrOf(subscription([item({ recurring, unit_amount: unitAmount })]))).toBeCloseTo(expected, 6);
+    });
+  });
+
+  describe('items and quantities', () => {
+    it('sums every item, not just the first', () => {
+      const sub = subscription([
+        item({ id: 'price_base', unit_amount: 2000 }),
+        item({ id: 'price_addon', product: 'prod_addon', unit_amount: 500 }),
+      ]);
+
+      expect(mrrOf(sub)).toBe(2500);
+    });
+
+    it('multiplies by quantity', () => {
+      const sub = subscription([
+        item({ id: 'price_base', unit_amount: 2000 }),
+        item({ id: 'price_seat', unit_amount: 800 }, 10),
+      ]);
+
+      expect(mrrOf(sub)).toBe(10000);
+    });
+
+    it('uses unit_amount_decimal for sub-cent prices', () => {
+      expect(mrrOf(subscription([item({ unit_amount: 1, unit_amount_decimal: '0.5' }, 3000)]))).toBe(1500);
+    });
+
+    it.each([
+      ['up', 3],
+      ['down', 2],
+    ] as const)('applies transform_quantity rounding %s', (round, units) => {
+      const emails = item({ unit_amount: 1000, transform_quantity: { divide_by: 1000, round } }, 2500);
+
+      expect(mrrOf(subscription([emails]))).toBe(units * 1000);
+    });
+  });
+
+  describe('tiered prices', () => {
+    const tiers: Stripe.Price.Tier[] = [
+      { up_to: 10, unit_amount: 500, unit_amount_decimal: null, flat_amount: null, flat_amount_decimal: null },
+      { up_to: 20, unit_amount: 400, unit_amount_decimal: null, flat_amount: null, flat_amount_decimal: null },
+      { up_to: null, unit_amount: 300, unit_amount_decimal: null, flat_amount: 1000, flat_amount_decimal: null },
+    ];
+    const tiered = (tiersMode: Stripe.Price.TiersMode, quantity: number) =>
+      item({ billing_scheme: 'tiered', tiers_mode: tiersMode, unit_amount: null, tiers }, quantity);
+
+    it('fills graduated tiers in turn, adding each reached tier flat amount', () => {
+      const sub = subscription([tiered('graduated', 25)]);
+
+      // 10 × 500 + 10 × 400 + 5 × 300 + 1000
+      expect(mrrOf(sub)).toBe(11500);
+    });
+
+    it('prices every unit at the volume tier the quantity falls in', () => {
+      const sub = subscription([tiered('volume', 15)]);
+
+      expect(mrrOf(sub)).toBe(6000);
+    });
+
+    it('adds the flat amount once for volume pricing', () => {
+      const sub = subscription([tiered('volume', 30)]);
+
+      expect(mrrOf(sub)).toBe(30 * 300 + 1000);
+    });
+
+    it('counts tiered prices without loaded tiers as usage-based', () => {
+      const sub = subscription([
+        item({ id: 'price_base', unit_amount: 2000 }),
+        item({ id: 'price_tiered', billing_scheme: 'tiered', tiers_mode: 'volume', unit_amount: null }, 15),
+      ]);
+
+      expect(subscriptionMrr(sub, NOW)).toEqual({ amount: 2000, currency: 'usd', usageBasedItems: 1 });
+    });
+  });
+
+  describe('usage-based items', () => {
+    it('excludes metered prices from the amount and counts them', () => {
+      const sub = subscription([
+        item({ id: 'price_base', unit_amount: 2000 }),
+        item({ id: 'price_api_calls', unit_amount: 1, recurring: { usage_type: 'metered' } }),
+      ]);
+
+      expect(subscriptionMrr(sub, NOW)).toEqual({ amount: 2000, currency: 'usd', usageBasedItems: 1 });
+    });
+
+    it('counts prices with no amount or no recurring interval', () => {
+      const sub = subscription([item({ unit_amount: null }), item({ id: 'price_one_off', recurring: null })]);
+
+      expect(subscriptionMrr(sub, NOW)).toEqual({ amount: 0, currency: 'usd', usageBasedItems: 2 });
+    });
+  });
+
+  describe('discounts', () => {
+    const base = () => item({ id: 'price_base', unit_amount: 2000 });
+    const addon = () => item({ id: 'price_addon', product: 'prod_addon', unit_amount: 1000 });
+
+    it('applies a percent-off subscription discount', () => {
+      const sub = subscription([base(), addon()], { discounts: [discount('di_1', { percent_off: 20 })] });
+
+      expect(mrrOf(sub)).toBe(2400);
+    });
+
+    it('applies an amount-off subscription discount per billing period', () => {
+      const monthly = subscription([base()], {
+        discounts: [discount('di_1', { amount_off: 500, currency: 'usd' })],
+      });
+      const yearly = subscription([item({ unit_amount: 24000, recurring: { interval: 'year' } })], {
+        discounts: [discount('di_1', { amount_off: 2400, currency: 'usd' })],
+      });
+
+      expect(mrrOf(monthly)).toBe(1500);
+      expect(mrrOf(yearly)).toBeCloseTo(1800, 6);
+    });
+
+    it('never discounts below zero', () => {
+      const sub = subscription([base()], { discounts: [discount('di_1', { amount_off: 5000, currency: 'usd' })] });
+
+      expect(mrrOf(sub)).toBe(0);
+    });
+
+    it('uses currency_options for amount-off coupons in another currency', () => {
+      const sub = subscription([item({ unit_amount: 2000, currency: 'eur' })], {
+        currency: 'eur',
+        discounts: [
+          discount('di_1', { amount_off: 500, currency: 'usd', currency_options: { eur: { amount_off: 400 } } }),
+        ],
+      });
+
+      expect(mrrOf(sub)).toBe(1600);
+    });
+
+    it('ignores amount-off coupons with no amount in the subscription currency', () => {
+      const sub = subscription([item({ unit_amount: 2000, currency: 'eur' })], {
+        currency: 'eur',
+        discounts: [discount('di_1', { amount_off: 500, currency: 'usd' })],
+      });
+
+      expect(mrrOf(sub)).toBe(2000);
+    });
+
+    it('applies item-level discounts to their item only', () => {
+      const discountedAddon = item({ id: 'price_addon', unit_amount: 1000 }, 1, [
+        discount('di_item', { percent_off: 50 }),
+      ]);
+
+      expect(mrrOf(subscription([base(), discountedAddon]))).toBe(2500);
+    });
+
+    it('limits coupons restricted to products to those items', () => {
+      const sub = subscription([base(), addon()], {
+        discounts: [
+          discount('di_1', { percent_off: 50, applies_to: { products: ['prod_addon'] } }),
+          discount('di_2', { amount_off: 5000, currency: 'usd', applies_to: { products: ['prod_addon'] } }),
+        ],
+      });
+
+      expect(mrrOf(sub)).toBe(2000);
+    });
+
+    it('applies item discounts before subscription discounts', () => {
+      const discounted = item({ unit_amount: 2000 }, 1, [
+        discount('di_item', { amount_off: 1000, currency: 'usd' }),
+      ]);
+      const sub = subscription([discounted], {
+        discounts: [discount('di_sub', { percent_off: 50 })],
+      });
+
+      expect(mrrOf(sub)).toBe(500);
+    });
+
+    it('ignores expired and one-time discounts', () => {
+      const sub = subscription([base()], {
+        discounts: [
+          discount('di_expired', { percent_off: 50, duration: 'repeating', duration_in_months: 3 }, NOW - DAY),
+          discount('di_once', { percent_off: 50, duration: 'once' }),
+        ],
+      });
+
+      expect(mrrOf(sub)).toBe(2000);
+    });
+
+    it('keeps repeating discounts until they end', () => {
+      const sub = subscription([base()], {
+        discounts: [
+          discount('di_1', { percent_off: 25, duration: 'repeating', duration_in_months: 3 }, NOW + 30 * DAY),
+        ],
+      });
+
+      expect(mrrOf(sub)).toBe(1500);
+    });
+
+    it('reads the legacy discount field without double-counting it', () => {
+      const legacy = discount('di_1', { percent_off: 10 });
+
+      expect(mrrOf(subscription([base()], { discount: legacy, discounts: ['di_1'] }))).toBe(1800);
+      expect(mrrOf(subscription([base()], { discount: legacy, discounts: [legacy] }))).toBe(1800);
+    });
+
+    it('skips discounts that were not expanded', () => {
+      expect(mrrOf(subscription([base()], { discounts: ['di_unexpanded'] }))).toBe(2000);
+    });
+  });
+});
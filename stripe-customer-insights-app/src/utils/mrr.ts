@@ -0,0 +1,254 @@
+/**
+ * MRR Normalization
+ *
+ * BUSINESS METRIC: MRR (Monthly Recurring Revenue) is "what this customer
+ * pays per month if nothing changes". Getting it right means handling
+ * everything a Stripe subscription can contain:
+ *
+ * - Several items (base plan + add-ons + seats)
+ * - Quantity (10 seats × $8), including transform_quantity ("per 1,000 emails")
+ * - Tiered prices (volume or graduated), priced from the tiers
+ * - Any interval: day, week, month, year, each with an interval_count
+ * - Discounts on the item or the whole subscription (percent or amount off)
+ *
+ * UNKNOWN / USAGE-BASED: Metered prices are billed on reported usage, so
+ * there is no amount to normalize up front. Such items (and tiered prices
+ * whose tiers weren't loaded) are counted separately rather than silently
+ * contributing 0 - a customer on a pure usage plan shows "$0 MRR + 1
+ * usage-based item", not just "$0".
+ *
+ * AMOUNTS are in the subscription currency's minor units and may be
+ * fractional (a $100 yearly plan is 833.33 cents a month).
+ */
+
+import Stripe from 'stripe';
+
+export interface SubscriptionMrr {
+  amount: number; // Minor units per month, after discounts
+  currency: string;
+  usageBasedItems: number; // Items with no fixed price (excluded from amount)
+}
+
+/**
+ * Average months per interval
+ *
+ * A year is 12 months, and 52 weeks / 365 days spread over 12 months, so a
+ * weekly $10 plan is $43.33/month rather than $40 (4 weeks) or $10.
+ */
+const MONTHS_PER_INTERVAL: Record<Stripe.Price.Recurring.Interval, number> = {
+  day: 12 / 365,
+  week: 12 / 52,
+  month: 1,
+  year: 12,
+};
+
+/**
+ * Factor that turns one billing period's amount into a monthly amount
+ *
+ * e.g. every 3 months → 1/3, every 2 years → 1/24, every 2 weeks → 12/104
+ */
+export function monthlyFactor(interval: Stripe.Price.Recurring.Interval, intervalCount: number = 1): number {
+  return 1 / (MONTHS_PER_INTERVAL[interval] * Math.max(intervalCount, 1));
+}
+
+/**
+ * Monthly recurring amount of one subscription
+ *
+ * ORDER OF OPERATIONS (same as Stripe invoices): price × quantity per item,
+ * item-level discounts, then subscription-level discounts on the subtotal.
+ *
+ * `now` (Unix seconds) decides which discounts are still running.
+ */
+export function subscriptionMrr(
+  subscription: Stripe.Subscription,
+  now: number = Date.now() / 1000
+): SubscriptionMrr {
+  const currency = subscription.currency.toLowerCase();
+  let usageBasedItems = 0;
+
+  const items: PricedItem[] = [];
+  for (const item of subscription.items.data) {
+    const price = item.price;
+    const perPeriod = price?.recurring ? itemAmountPerPeriod(price, item.quantity ?? 1) : null;
+    if (perPeriod === null) {
+      usageBasedItems++;
+      continue;
+    }
+
+    const productId = typeof price.product === 'string' ? price.product : price.product?.id ?? null;
+    // Item discounts apply per invoice, before converting to monthly
+    const [discounted] = applyCoupons(
+      [{ amount: perPeriod, productId }],
+      activeDiscounts(item.discounts, null, now),
+      currency,
+      1
+    );
+    const { interval, interval_count } = price.recurring!;
+    items.push({ amount: discounted.amount * monthlyFactor(interval, interval_count), productId });
+  }
+
+  // Amount-off coupons are per invoice - normalize them with the subscription's own interval
+  const recurring = subscription.items.data.find(item => item.price?.recurring)?.price.recurring;
+  const couponFactor = recurring ? monthlyFactor(recurring.interval, recurring.interval_count) : 1;
+
+  const discounted = applyCoupons(
+    items,
+    activeDiscounts(subscription.discounts, subscription.discount, now),
+    currency,
+    couponFactor
+  );
+
+  return {
+    amount: discounted.reduce((sum, item) => sum + item.amount, 0),
+    currency,
+    usageBasedItems,
+  };
+}
+
+interface PricedItem {
+  amount: number;
+  productId: string | null;
+}
+
+/**
+ * Amount for one billing period, or null when it depends on usage
+ */
+function itemAmountPerPeriod(price: Stripe.Price, quantity: number): number | null {
+  if (price.recurring?.usage_type === 'metered') return null;
+
+  const units = transformQuantity(quantity, price.transform_quantity);
+
+  if (price.billing_scheme === 'tiered') {
+    return price.tiers ? tieredAmount(price.tiers, price.tiers_mode, units) : null;
+  }
+
+  const unitAmount = decimalAmount(price.unit_amount, price.unit_amount_decimal);
+  return unitAmount === null ? null : unitAmount * units;
+}
+
+/**
+ * "Per 1,000 emails": 2,500 emails at divide_by 1000, round up → 3 units
+ */
+function transformQuantity(quantity: number, transform: Stripe.Price.TransformQuantity | null): number {
+  if (!transform || transform.divide_by <= 0) return quantity;
+  const divided = quantity / transform.divide_by;
+  return transform.round === 'up' ? Math.ceil(divided) : Math.floor(divided);
+}
+
+/**
+ * Tiered pricing
+ *
+ * - volume: every unit is priced at the tier the total quantity falls in
+ * - graduated: units fill each tier in turn (first 10 at $5, next 10 at $4, ...)
+ * flat_amount is added once for the volume tier, or for each tier reached.
+ */
+function tieredAmount(
+  tiers: Stripe.Price.Tier[],
+  mode: Stripe.Price.TiersMode | null,
+  units: number
+): number | null {
+  const unitPrice = (tier: Stripe.Price.Tier) => decimalAmount(tier.unit_amount, tier.unit_amount_decimal) ?? 0;
+  const flat = (tier: Stripe.Price.Tier) => decimalAmount(tier.flat_amount, tier.flat_amount_decimal) ?? 0;
+
+  if (mode === 'volume') {
+    const tier = tiers.find(candidate => candidate.up_to === null || units <= candidate.up_to);
+    return tier ? unitPrice(tier) * units + flat(tier) : null;
+  }
+
+  let amount = 0;
+  let previousUpTo = 0;
+  for (const tier of tiers) {
+    if (units <= previousUpTo) break;
+    const upTo = tier.up_to ?? Infinity;
+    amount += unitPrice(tier) * (Math.min(units, upTo) - previousUpTo) + flat(tier);
+    previousUpTo = upTo;
+  }
+  return amount;
+}
+
+/**
+ * Prefer the *_decimal field: it carries sub-cent prices (e.g. "0.25" cents)
+ */
+function decimalAmount(amount: number | null, decimal: string | null): number | null {
+  if (decimal !== null && decimal !== undefined && decimal !== '') {
+    const parsed = Number(decimal);
+    if (Number.isFinite(parsed)) return parsed;
+  }
+  return amount ?? null;
+}
+
+/**
+ * Discounts still in effect
+ *
+ * - Unexpanded discount IDs can't be evaluated and are skipped
+ * - The deprecated single `discount` field is merged in (webhook payloads
+ *   still carry it expanded), de-duplicated by id
+ * - "once" coupons only touch the next invoice, so they don't change the run rate
+ */
+function activeDiscounts(
+  discounts: Array<string | Stripe.Discount> | undefined,
+  legacy: Stripe.Discount | null | undefined,
+  now: number
+): Stripe.Discount[] {
+  const byId = new Map<string, Stripe.Discount>();
+  for (const discount of [...(discounts ?? []), legacy]) {
+    if (!discount || typeof discount === 'string') continue;
+    byId.set(discount.id, discount);
+  }
+
+  return [...byId.values()].filter(
+    discount => discount.coupon.duration !== 'once' && (!discount.end || discount.end > now)
+  );
+}
+
+/**
+ * Coupon's amount_off in the given currency, or null if it has none there
+ */
+function amountOff(coupon: Stripe.Coupon, currency: string): number | null {
+  if (!coupon.amount_off) return null;
+  if (coupon.currency?.toLowerCase() === currency) return coupon.amount_off;
+  return coupon.currency_options?.[currency]?.amount_off ?? null;
+}
+
+/**
+ * Whether a coupon restricted to some products applies to any of these
+ */
+function couponApplies(coupon: Stripe.Coupon, productIds: string[]): boolean {
+  const products = coupon.applies_to?.products;
+  return !products || productIds.some(id => products.includes(id));
+}
+
+/**
+ * Apply coupons in order to the items they cover
+ *
+ * - percent_off: reduces each covered item
+ * - amount_off: per invoice (× amountFactor), spread over the covered items
+ *   in proportion to their amounts, and never more than they total
+ */
+function applyCoupons(
+  items: PricedItem[],
+  discounts: Stripe.Discount[],
+  currency: string,
+  amountFactor: number
+): PricedItem[] {
+  let result = items;
+
+  for (const { coupon } of discounts) {
+    const covered = (item: PricedItem) => couponApplies(coupon, item.productId ? [item.productId] : []);
+
+    if (coupon.percent_off) {
+      const keep = 1 - coupon.percent_off / 100;
+      result = result.map(item => (covered(item) ? { ...item, amount: item.amount * keep } : item));
+      continue;
+    }
+
+    const coveredTotal = result.filter(covered).reduce((sum, item) => sum + item.amount, 0);
+    const off = Math.min((amountOff(coupon, currency) ?? 0) * amountFactor, coveredTotal);
+    if (off <= 0) continue;
+    result = result.map(item =>
+      covered(item) ? { ...item, amount: item.amount - off * (item.amount / coveredTotal) } : item
+    );
+  }
+
+  return result;
+}
@@ -0,0 +1,37 @@
+/**
+ * Payment Attempt Helpers
+ *
+ * STRIPE API DETAIL: Every retry of a PaymentIntent (a declined card tried
+ * again, a renewal retried by Smart Retries) creates a new charge. Counted
+ * per charge, a renewal that succeeds on the third try is 2 failures out of
+ * 3; counted per PaymentIntent it's 1 successful payment. Charges made
+ * without a PaymentIntent (legacy Charges API) are a payment each.
+ */
+
+import Stripe from 'stripe';
+
+export function paymentIntentId(charge: Stripe.Charge): string | null {
+  if (!charge.payment_intent) return null;
+  return typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent.id;
+}
+
+/**
+ * Charges grouped into payments, one group of attempts per PaymentIntent
+ */
+export function groupPaymentAttempts(charges: Stripe.Charge[]): Stripe.Charge[][] {
+  const payments = new Map<string, Stripe.Charge[]>();
+  charges.forEach(charge => {
+    const key = paymentIntentId(charge) ?? charge.id;
+    payments.set(key, [...(payments.get(key) ?? []), charge]);
+  });
+  return [...payments.values()];
+}
+
+export function isSuccessfulPayment(attempts: Stripe.Charge[]): boolean {
+  return attempts.some(charge => charge.status === 'succeeded');
+}
+
+// Still retrying counts as failed until an attempt succeeds
+export function isFailedPayment(attempts: Stripe.Charge[]): boolean {
+  return attempts.every(charge => charge.status === 'failed');
+}
@@ -0,0 +1,36 @@
+/**
+ * Refund Helpers
+ *
+ * STRIPE API DETAIL: A charge carries two views of its refunds:
+ * - amount_refunded / refunded: always present and always current
+ * - refunds: the Refund objects (reason, timing), only when the charge list
+ *   is fetched with expand[]=data.refunds, and only the first 10 of them
+ *
+ * Webhook payloads don't expand refunds either, so a patched charge may
+ * have an up-to-date amount_refunded but no (or fewer) Refund objects.
+ * Analyses use the objects when present and fall back to the amount.
+ */
+
+import Stripe from 'stripe';
+
+/**
+ * Refund objects that actually returned money (not failed or canceled)
+ */
+export function listedRefunds(charge: Stripe.Charge): Stripe.Refund[] {
+  return (charge.refunds?.data ?? []).filter(refund => refund.status !== 'failed' && refund.status !== 'canceled');
+}
+
+/**
+ * Refunded amount (minor units) not accounted for by listed Refund objects
+ */
+export function unlistedRefundAmount(charge: Stripe.Charge): number {
+  const listed = listedRefunds(charge).reduce((sum, refund) => sum + refund.amount, 0);
+  return Math.max((charge.amount_refunded || 0) - listed, 0);
+}
+
+/**
+ * Full refund: `refunded` is only set once the whole amount is returned
+ */
+export function isFullyRefunded(charge: Stripe.Charge): boolean {
+  return charge.refunded || (charge.amount > 0 && (charge.amount_refunded || 0) >= charge.amount);
+}
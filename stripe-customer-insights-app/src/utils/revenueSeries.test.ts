@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { periodStart, recentPeriodStarts, trendBetween } from './revenueSeries';
+
+const at = (year: number, month: number, day: number, hour = 0) => Date.UTC(year, month - 1, day, hour) / 1000;
+const iso = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+
+describe('periodStart', () => {
+  it('starts months on the 1st, in UTC', () => {
+    expect(iso(periodStart(at(2025, 5, 31, 23), 'month'))).toBe('2025-05-01');
+    expect(iso(periodStart(at(2025, 6, 1), 'month'))).toBe('2025-06-01');
+  });
+
+  it('starts weeks on Monday', () => {
+    // Sunday 1 June 2025 belongs to the week of Monday 26 May
+    expect(iso(periodStart(at(2025, 6, 1, 12), 'week'))).toBe('2025-05-26');
+    expect(iso(periodStart(at(2025, 6, 2), 'week'))).toBe('2025-06-02');
+    expect(iso(periodStart(at(2025, 1, 1), 'week'))).toBe('2024-12-30');
+  });
+});
+
+describe('recentPeriodStarts', () => {
+  it('lists months oldest first, across a year boundary', () => {
+    expect(recentPeriodStarts(at(2025, 2, 14), 'month', 3).map(iso)).toEqual([
+      '2024-12-01',
+      '2025-01-01',
+      '2025-02-01',
+    ]);
+  });
+
+  it('lists weeks oldest first, ending with the current week', () => {
+    expect(recentPeriodStarts(at(2025, 6, 1), 'week', 3).map(iso)).toEqual([
+      '2025-05-12',
+      '2025-05-19',
+      '2025-05-26',
+    ]);
+  });
+
+  it('returns nothing for a count of 0', () => {
+    expect(recentPeriodStarts(at(2025, 6, 1), 'month', 0)).toEqual([]);
+  });
+});
+
+describe('trendBetween', () => {
+  it.each([
+    [150, 100, { direction: 'up', percentage: 50 }],
+    [70, 150, { direction: 'down', percentage: 53.3 }],
+    [100.5, 100, { direction: 'neutral', percentage: 0.5 }],
+    [-20, 100, { direction: 'down', percentage: 120 }],
+  ])('%f vs %f', (current, previous, expected) => {
+    expect(trendBetween(current, previous)).toEqual(expected);
+  });
+
+  it('has no trend without an earlier amount to compare with', () => {
+    expect(trendBetween(100, 0)).toBeNull();
+    expect(trendBetween(100, -10)).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Revenue Time Series Helpers
+ *
+ * PM INSIGHT: Lifetime totals can't tell a growing customer from a shrinking
+ * one - $1,200 is the same whether it came in January or last week. Bucketing
+ * revenue by calendar period shows the shape, and comparing the last two
+ * complete periods gives the trend.
+ *
+ * DESIGN: Periods are calendar months and ISO weeks (Monday start) in UTC, so
+ * a charge lands in the same bucket whoever is looking at the dashboard.
+ * Series are contiguous: a month without charges is a 0 bucket, not a gap -
+ * otherwise a chart would hide exactly the quiet months that matter.
+ */
+
+import { Trend } from '../types';
+
+export type RevenueGranularity = 'month' | 'week';
+
+const DAY_MS = 86400 * 1000;
+
+/**
+ * Start of the period containing `timestamp` (Unix seconds), in ms
+ */
+export function periodStart(timestamp: number, granularity: RevenueGranularity): number {
+  const date = new Date(timestamp * 1000);
+
+  if (granularity === 'month') return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+
+  // getUTCDay: Sunday = 0 → 6 days after Monday
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - daysSinceMonday);
+}
+
+/**
+ * Starts (ms) of the last `count` periods up to and including the one containing `now`, oldest first
+ */
+export function recentPeriodStarts(now: number, granularity: RevenueGranularity, count: number): number[] {
+  const current = new Date(periodStart(now, granularity));
+
+  return Array.from({ length: count }, (_, index) => {
+    const periodsAgo = count - 1 - index;
+    return granularity === 'month'
+      ? Date.UTC(current.getUTCFullYear(), current.getUTCMonth() - periodsAgo, 1)
+      : current.getTime() - periodsAgo * 7 * DAY_MS;
+  });
+}
+
+/**
+ * Change from `previous` to `current`
+ *
+ * Returns null when there is nothing to compare against (previous is 0) -
+ * "up ∞%" isn't a trend. Changes under 1% are neutral.
+ */
+export function trendBetween(current: number, previous: number): Trend | null {
+  if (previous <= 0) return null;
+
+  const change = ((current - previous) / previous) * 100;
+  const percentage = Math.round(Math.abs(change) * 10) / 10;
+  if (percentage < 1) return { direction: 'neutral', percentage };
+
+  return { direction: change > 0 ? 'up' : 'down', percentage };
+}
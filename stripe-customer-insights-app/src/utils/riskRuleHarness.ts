@@ -0,0 +1,170 @@
+/**
+ * Risk Rule Set Harness
+ *
+ * USE CASE: Before shipping a tuned rule set ("flag failure rates above 20%
+ * instead of 30%"), run it against a table of synthetic customers and check
+ * which factors fire. Cases are plain data, so they can live next to a
+ * merchant's rule config as JSON.
+ *
+ * USAGE:
+ *   const results = runRiskRuleCases(ruleSet, [
+ *     {
+ *       name: 'half the payments fail',
+ *       charges: [{ daysAgo: 3, status: 'failed', count: 5 }, { daysAgo: 30, count: 5 }],
+ *       expect: { factors: ['payment_failures'], recommendation: 'medium_risk' },
+ *     },
+ *   ]);
+ *   results.filter(result => !result.passed)  // → failures with messages
+ */
+
+import Stripe from 'stripe';
+import { CustomerInsights, RiskFactor } from '../types';
+import { FxRateProvider } from './fx';
+import { toMinorUnits } from './money';
+import { RiskRuleSet, evaluateRiskRules } from './riskRules';
+
+const DAY = 86400;
+
+/**
+ * Synthetic charge; `count` repeats it (all other fields identical)
+ */
+export interface RiskCaseCharge {
+  daysAgo: number;
+  amount?: number; // Major units, default 25
+  currency?: string; // Default 'usd'
+  status?: Stripe.Charge.Status; // Default 'succeeded'
+  paymentIntent?: string; // Charges sharing one are attempts of the same payment
+  dispute?: Stripe.Dispute.Status; // Disputes the charge, in this status
+  outcome?: Partial<Stripe.Charge.Outcome>; // Radar: risk_level, risk_score, type
+  checks?: Partial<Stripe.Charge.PaymentMethodDetails.Card.Checks>; // cvc_check, address_*_check
+  cardCountry?: string;
+  billingCountry?: string;
+  refunded?: number; // Major units refunded, as one refund
+  refundReason?: Stripe.Refund.Reason;
+  count?: number;
+}
+
+export interface RiskRuleCase {
+  name: string;
+  customerAgeDays?: number; // Default 400
+  customerCountry?: string; // customer.address.country
+  charges: RiskCaseCharge[];
+  expect: {
+    factors?: RiskFactor['type'][]; // Exactly these, in rule order
+    recommendation?: CustomerInsights['riskAssessment']['recommendation'];
+    score?: number;
+  };
+}
+
+export interface RiskRuleCaseResult {
+  name: string;
+  passed: boolean;
+  failures: string[];
+  assessment: CustomerInsights['riskAssessment'];
+}
+
+/**
+ * Evaluate every case against a rule set
+ *
+ * `now` (Unix seconds) pins "days ago" and account age so results don't
+ * drift with the wall clock.
+ */
+export function runRiskRuleCases(
+  ruleSet: RiskRuleSet,
+  cases: RiskRuleCase[],
+  options: { now?: number; fxRateProvider?: FxRateProvider } = {}
+): RiskRuleCaseResult[] {
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+
+  return cases.map(testCase => {
+    const { charges, disputes } = buildCharges(testCase.charges, now);
+    const assessment = evaluateRiskRules(ruleSet, {
+      customer: buildCustomer(testCase, now),
+      charges,
+      paymentIntents: [],
+      disputes,
+      fxRateProvider: options.fxRateProvider,
+      now,
+    });
+
+    const failures: string[] = [];
+    const { factors, recommendation, score } = testCase.expect;
+    const actualFactors = assessment.factors.map(factor => factor.type);
+
+    if (factors && actualFactors.join(',') !== factors.join(',')) {
+      failures.push(`factors: expected [${factors.join(', ')}], got [${actualFactors.join(', ')}]`);
+    }
+    if (recommendation && assessment.recommendation !== recommendation) {
+      failures.push(`recommendation: expected ${recommendation}, got ${assessment.recommendation}`);
+    }
+    if (score !== undefined && assessment.score !== score) {
+      failures.push(`score: expected ${score}, got ${assessment.score}`);
+    }
+
+    return { name: testCase.name, passed: failures.length === 0, failures, assessment };
+  });
+}
+
+function buildCustomer(testCase: RiskRuleCase, now: number): Stripe.Customer {
+  return {
+    id: 'cus_risk_case',
+    object: 'customer',
+    created: now - (testCase.customerAgeDays ?? 400) * DAY,
+    address: testCase.customerCountry ? { country: testCase.customerCountry } : null,
+  } as Stripe.Customer;
+}
+
+// Newest first, like Stripe list responses; one dispute per disputed charge
+function buildCharges(
+  charges: RiskCaseCharge[],
+  now: number
+): { charges: Stripe.Charge[]; disputes: Stripe.Dispute[] } {
+  const built: Stripe.Charge[] = [];
+  const disputes: Stripe.Dispute[] = [];
+  for (const charge of charges) {
+    const currency = charge.currency ?? 'usd';
+    const amount = toMinorUnits(charge.amount ?? 25, currency);
+    const refunded = toMinorUnits(charge.refunded ?? 0, currency);
+    const created = now - charge.daysAgo * DAY;
+
+    for (let i = 0; i < (charge.count ?? 1); i++) {
+      const id = `ch_risk_case_${built.length + 1}`;
+      const refunds =
+        refunded > 0 ? [{ id: `re_${id}`, amount: refunded, reason: charge.refundReason ?? null, created }] : [];
+
+      built.push({
+        id,
+        object: 'charge',
+        amount,
+        amount_refunded: refunded,
+        refunded: refunded >= amount,
+        refunds: { object: 'list', data: refunds, has_more: false, url: '' },
+        currency,
+        status: charge.status ?? 'succeeded',
+        payment_intent: charge.paymentIntent ?? null,
+        disputed: charge.dispute !== undefined,
+        created,
+        outcome: charge.outcome ? { type: 'authorized', risk_level: 'normal', ...charge.outcome } : null,
+        billing_details: { address: charge.billingCountry ? { country: charge.billingCountry } : null },
+        payment_method_details: {
+          type: 'card',
+          card: { country: charge.cardCountry ?? null, checks: charge.checks ?? null },
+        },
+      } as Stripe.Charge);
+
+      if (charge.dispute) {
+        disputes.push({
+          id: `dp_${id}`,
+          object: 'dispute',
+          charge: id,
+          amount,
+          currency,
+          status: charge.dispute,
+          created,
+        } as Stripe.Dispute);
+      }
+    }
+  }
+  return { charges: built.sort((a, b) => b.created - a.created), disputes };
+}
+
@@ -0,0 +1,479 @@
+import { describe, expect, it } from 'vitest';
+import Stripe from 'stripe';
+import { defaultFxRateProvider } from './fx';
+import { RiskRuleCase, runRiskRuleCases } from './riskRuleHarness';
+import {
+  DEFAULT_RISK_RULE_SET,
+  RiskRuleSet,
+  computeRiskMetrics,
+  evaluateRiskRules,
+  loadRiskRuleSet,
+} from './riskRules';
+import defaultRuleSetConfig from './riskRules.default.json';
+
+const NOW = Date.UTC(2025, 5, 1) / 1000;
+
+// The behaviour of the original hard-coded assessRisk
+const DEFAULT_CASES: RiskRuleCase[] = [
+  {
+    name: 'healthy customer',
+    charges: [{ daysAgo: 10, count: 5 }, { daysAgo: 100, count: 5 }],
+    expect: { factors: [], recommendation: 'low_risk', score: 0 },
+  },
+  {
+    name: '40% of payments fail',
+    charges: [{ daysAgo: 10, status: 'failed', count: 4 }, { daysAgo: 100, count: 6 }],
+    expect: { factors: ['payment_failures'], recommendation: 'low_risk', score: 15 },
+  },
+  {
+    name: 'a renewal that goes through on the third try',
+    charges: [
+      { daysAgo: 10, paymentIntent: 'pi_renewal' },
+      { daysAgo: 11, status: 'failed', paymentIntent: 'pi_renewal', count: 2 },
+      { daysAgo: 100, count: 2 },
+    ],
+    expect: { factors: [], score: 0 },
+  },
+  {
+    // 1 of 3 payments, not 3 of 5 charges (which would be the high band)
+    name: 'a payment still failing after retries',
+    charges: [
+      { daysAgo: 10, status: 'failed', paymentIntent: 'pi_failing', count: 3 },
+      { daysAgo: 100, count: 2 },
+    ],
+    expect: { factors: ['payment_failures'], recommendation: 'low_risk', score: 15 },
+  },
+  {
+    name: '60% of payments fail',
+    charges: [{ daysAgo: 10, status: 'failed', count: 6 }, { daysAgo: 100, count: 4 }],
+    expect: { factors: ['payment_failures'], recommendation: 'medium_risk', score: 30 },
+  },
+  {
+    name: 'an open dispute',
+    charges: [{ daysAgo: 10, dispute: 'needs_response' }, { daysAgo: 100, count: 9 }],
+    expect: { factors: ['high_chargeback_rate'], recommendation: 'medium_risk', score: 20 },
+  },
+  {
+    name: 'a lost dispute',
+    charges: [{ daysAgo: 10, dispute: 'lost' }, { daysAgo: 100, count: 9 }],
+    expect: { factors: ['high_chargeback_rate'], recommendation: 'medium_risk', score: 40 },
+  },
+  {
+    name: 'an open inquiry',
+    charges: [{ daysAgo: 10, dispute: 'warning_needs_response' }, { daysAgo: 100, count: 9 }],
+    expect: { factors: ['high_chargeback_rate'], score: 20 },
+  },
+  {
+    name: 'only won disputes and closed inquiries',
+    charges: [
+      { daysAgo: 10, dispute: 'won' },
+      { daysAgo: 20, dispute: 'warning_closed' },
+      { daysAgo: 100, count: 8 },
+    ],
+    expect: { factors: [], recommendation: 'low_risk', score: 0 },
+  },
+  {
+    name: 'new customer with a large charge',
+    customerAgeDays: 10,
+    charges: [{ daysAgo: 2, amount: 600 }],
+    expect: { factors: ['new_customer_large_amount'], recommendation: 'low_risk', score: 15 },
+  },
+  {
+    name: 'new customer with small charges',
+    customerAgeDays: 10,
+    charges: [{ daysAgo: 2, amount: 400, count: 3 }],
+    expect: { factors: [], score: 0 },
+  },
+  {
+    name: '11 charges in 2 days',
+    charges: [{ daysAgo: 1, count: 6 }, { daysAgo: 3, count: 5 }],
+    expect: { factors: ['velocity_check'], recommendation: 'low_risk', score: 10 },
+  },
+  {
+    name: 'every rule fires',
+    customerAgeDays: 5,
+    charges: [
+      { daysAgo: 1, status: 'failed', count: 7 },
+      { daysAgo: 2, amount: 900, dispute: 'lost' },
+      { daysAgo: 2, count: 3 },
+    ],
+    expect: {
+      factors: ['payment_failures', 'high_chargeback_rate', 'new_customer_large_amount', 'velocity_check'],
+      recommendation: 'high_risk',
+      score: 95,
+    },
+  },
+];
+
+describe('default risk rules', () => {
+  it.each(runRiskRuleCases(DEFAULT_RISK_RULE_SET, DEFAULT_CASES, { now: NOW }))('$name', result => {
+    expect(result.failures).toEqual([]);
+  });
+
+  it('render descriptions and values from metrics', () => {
+    const everyRuleFires = DEFAULT_CASES[DEFAULT_CASES.length - 1];
+    const [result] = runRiskRuleCases(DEFAULT_RISK_RULE_SET, [everyRuleFires], { now: NOW });
+
+    expect(result.assessment.factors.map(factor => [factor.severity, factor.description])).toEqual([
+      ['high', '64% payment failure rate'],
+      ['high', '1 lost and 0 open chargebacks'],
+      ['medium', 'New customer (0.2 months) with large transactions'],
+      ['medium', '11 transactions in 1 days'],
+    ]);
+    expect(result.assessment.factors[3].value).toBe(11);
+  });
+
+  it('measure the charge span whatever order the charges are in', () => {
+    const charges = [5, 1, 9, 3].map(daysAgo => ({
+      id: `ch_${daysAgo}`,
+      amount: 1000,
+      currency: 'usd',
+      status: 'succeeded',
+      amount_refunded: 0,
+      created: NOW - daysAgo * 86400,
+    }));
+    const metrics = computeRiskMetrics({
+      customer: { id: 'cus_1', created: NOW - 365 * 86400 } as Stripe.Customer,
+      charges: charges as Stripe.Charge[],
+      paymentIntents: [],
+      disputes: [],
+      fxRateProvider: defaultFxRateProvider,
+      largeChargeThreshold: DEFAULT_RISK_RULE_SET.largeChargeThreshold,
+      now: NOW,
+    });
+
+    expect(metrics.chargeSpanDays).toBe(8);
+  });
+});
+
+describe('Radar and card-check rules', () => {
+  const cases: RiskRuleCase[] = [
+    {
+      name: 'Radar scores normal and checks pass',
+      customerCountry: 'US',
+      charges: [{ daysAgo: 3, outcome: { risk_score: 12 }, checks: { cvc_check: 'pass' }, cardCountry: 'US' }],
+      expect: { factors: [], score: 0 },
+    },
+    {
+      name: 'elevated Radar risk',
+      charges: [{ daysAgo: 3, outcome: { risk_level: 'elevated', risk_score: 68 } }, { daysAgo: 30 }],
+      expect: { factors: ['elevated_radar_risk'], recommendation: 'medium_risk', score: 20 },
+    },
+    {
+      name: 'charge blocked by Radar',
+      charges: [{ daysAgo: 3, status: 'failed', outcome: { type: 'blocked', risk_level: 'highest' } }, { daysAgo: 30, count: 4 }],
+      expect: { factors: ['elevated_radar_risk'], recommendation: 'medium_risk', score: 35 },
+    },
+    {
+      name: 'failed CVC check',
+      charges: [{ daysAgo: 3, checks: { cvc_check: 'fail', address_postal_code_check: 'pass' } }],
+      expect: { factors: ['failed_card_checks'], score: 20 },
+    },
+    {
+      name: 'failed postal code check only',
+      charges: [{ daysAgo: 3, checks: { cvc_check: 'pass', address_postal_code_check: 'fail' } }],
+      expect: { factors: ['failed_card_checks'], score: 10 },
+    },
+    {
+      name: 'unavailable checks are not failures',
+      charges: [{ daysAgo: 3, checks: { cvc_check: 'unavailable', address_line1_check: 'unchecked' } }],
+      expect: { factors: [] },
+    },
+    {
+      name: 'card issued outside the billing country',
+      charges: [{ daysAgo: 3, cardCountry: 'BR', billingCountry: 'US' }],
+      expect: { factors: ['geographic_mismatch'], score: 10 },
+    },
+    {
+      name: 'falls back to the customer address for the billing country',
+      customerCountry: 'gb',
+      charges: [{ daysAgo: 3, cardCountry: 'GB' }, { daysAgo: 4, cardCountry: 'NG' }],
+      expect: { factors: ['geographic_mismatch'] },
+    },
+    {
+      name: 'unknown billing country is not a mismatch',
+      charges: [{ daysAgo: 3, cardCountry: 'BR' }],
+      expect: { factors: [] },
+    },
+  ];
+
+  it.each(runRiskRuleCases(DEFAULT_RISK_RULE_SET, cases, { now: NOW }))('$name', result => {
+    expect(result.failures).toEqual([]);
+  });
+
+  it('attach the charges behind each factor as evidence', () => {
+    const [result] = runRiskRuleCases(
+      DEFAULT_RISK_RULE_SET,
+      [
+        {
+          name: 'all signals',
+          customerCountry: 'US',
+          charges: [
+            { daysAgo: 1, outcome: { type: 'manual_review', risk_level: 'elevated', risk_score: 71 } },
+            { daysAgo: 2, checks: { cvc_check: 'fail', address_line1_check: 'fail' }, cardCountry: 'FR' },
+            { daysAgo: 3, outcome: { risk_level: 'normal', risk_score: 20 }, cardCountry: 'us' },
+          ],
+          expect: {},
+        },
+      ],
+      { now: NOW }
+    );
+
+    expect(
+      result.assessment.factors.map(factor => [factor.type, factor.description, factor.value, factor.evidence])
+    ).toEqual([
+      [
+        'elevated_radar_risk',
+        '1 charges flagged by Radar',
+        1,
+        [{ chargeId: 'ch_risk_case_1', date: '2025-05-31T00:00:00.000Z', detail: 'Radar risk elevated, score 71, manual review' }],
+      ],
+      [
+        'failed_card_checks',
+        '1 charges failed CVC or address checks',
+        1,
+        [{ chargeId: 'ch_risk_case_2', date: '2025-05-30T00:00:00.000Z', detail: 'CVC check failed, Address line 1 check failed' }],
+      ],
+      [
+        'geographic_mismatch',
+        '1 charges with a card issued outside the billing country',
+        1,
+        [{ chargeId: 'ch_risk_case_2', date: '2025-05-30T00:00:00.000Z', detail: 'Card issued in FR, billing address in US' }],
+      ],
+    ]);
+  });
+
+  it('leave evidence off factors whose rule names no source', () => {
+    const [result] = runRiskRuleCases(DEFAULT_RISK_RULE_SET, [DEFAULT_CASES[1]], { now: NOW });
+
+    expect(result.assessment.factors[0]).not.toHaveProperty('evidence');
+  });
+});
+
+describe('serial refunder rule', () => {
+  const cases: RiskRuleCase[] = [
+    {
+      name: 'one goodwill refund',
+      charges: [{ daysAgo: 5, amount: 50, refunded: 50 }, { daysAgo: 40, count: 2 }],
+      expect: { factors: [] },
+    },
+    {
+      name: 'three refunds in twenty payments',
+      charges: [{ daysAgo: 5, amount: 50, refunded: 50, count: 3 }, { daysAgo: 60, count: 17 }],
+      expect: { factors: [] },
+    },
+    {
+      name: 'three refunds in ten payments',
+      charges: [{ daysAgo: 5, amount: 50, refunded: 20, count: 3 }, { daysAgo: 60, count: 7 }],
+      expect: { factors: ['serial_refunder'], score: 15 },
+    },
+    {
+      name: 'most payments refunded',
+      charges: [
+        { daysAgo: 5, amount: 80, refunded: 80, refundReason: 'requested_by_customer', count: 4 },
+        { daysAgo: 60 },
+        // Failed charges aren't purchases - they don't dilute the rate
+        { daysAgo: 70, status: 'failed', count: 2 },
+      ],
+      expect: { factors: ['serial_refunder'], recommendation: 'medium_risk', score: 25 },
+    },
+  ];
+
+  it.each(runRiskRuleCases(DEFAULT_RISK_RULE_SET, cases, { now: NOW }))('$name', result => {
+    expect(result.failures).toEqual([]);
+  });
+
+  it('lists the refunded payments as evidence', () => {
+    const [result] = runRiskRuleCases(
+      DEFAULT_RISK_RULE_SET,
+      [
+        {
+          name: 'refunds',
+          charges: [
+            { daysAgo: 1, amount: 40, refunded: 10, refundReason: 'requested_by_customer' },
+            { daysAgo: 2, amount: 40, refunded: 40, refundReason: 'duplicate' },
+            { daysAgo: 3, amount: 40, refunded: 40 },
+          ],
+          expect: { factors: ['serial_refunder'] },
+        },
+      ],
+      { now: NOW }
+    );
+
+    expect(result.assessment.factors[0].description).toBe('3 refunded payments (100% of successful payments)');
+    expect(result.assessment.factors[0].evidence?.map(item => item.detail)).toEqual([
+      '25% refunded (requested by customer)',
+      'Fully refunded (duplicate)',
+      'Fully refunded',
+    ]);
+  });
+});
+
+describe('custom rule sets', () => {
+  const strict: RiskRuleSet = loadRiskRuleSet({
+    recommendationThresholds: { medium: 10, high: 30 },
+    largeChargeThreshold: { amount: 100, currency: 'usd' },
+    rules: [
+      {
+        id: 'any_failures',
+        factor: 'payment_failures',
+        when: [{ metric: 'failedChargeCount', op: 'gte', value: 1 }],
+        severity: [
+          { when: [{ metric: 'failureRate', op: 'gte', value: 0.2 }], severity: 'high', weight: 80 },
+          { severity: 'low', weight: 10 },
+        ],
+        description: '{failedChargeCount} failed of {chargeCount}',
+        value: 'failedChargeCount',
+      },
+      ...defaultRuleSetConfig.rules.filter(rule => rule.id === 'new_customer_large_amount'),
+      {
+        id: 'another_heavy_rule',
+        factor: 'velocity_check',
+        when: [{ metric: 'chargeCount', op: 'gt', value: 0 }],
+        severity: [{ severity: 'medium', weight: 50 }],
+        description: '{chargeCount} charges',
+        value: 'chargeCount',
+      },
+    ],
+  });
+
+  it('use their own thresholds, weights and score cut-offs', () => {
+    const results = runRiskRuleCases(
+      strict,
+      [
+        {
+          name: 'one failure in ten is enough',
+          charges: [{ daysAgo: 1, status: 'failed' }, { daysAgo: 30, count: 9 }],
+          expect: { factors: ['payment_failures', 'velocity_check'], recommendation: 'high_risk', score: 60 },
+        },
+        {
+          name: '$150 is large for this merchant',
+          customerAgeDays: 3,
+          charges: [{ daysAgo: 1, amount: 150 }],
+          expect: { factors: ['new_customer_large_amount', 'velocity_check'], score: 65 },
+        },
+        {
+          name: 'score is capped at 100',
+          customerAgeDays: 3,
+          charges: [{ daysAgo: 1, amount: 150, status: 'failed' }],
+          expect: { recommendation: 'high_risk', score: 100 },
+        },
+      ],
+      { now: NOW }
+    );
+
+    expect(results.flatMap(result => result.failures.map(failure => `${result.name}: ${failure}`))).toEqual([]);
+  });
+
+  it('report mismatches through the harness', () => {
+    const [result] = runRiskRuleCases(
+      strict,
+      [{ name: 'wrong', charges: [{ daysAgo: 1 }], expect: { factors: [], recommendation: 'low_risk' } }],
+      { now: NOW }
+    );
+
+    expect(result.passed).toBe(false);
+    expect(result.failures).toEqual([
+      'factors: expected [], got [velocity_check]',
+      'recommendation: expected low_risk, got high_risk',
+    ]);
+  });
+
+  it('default now to the wall clock', () => {
+    const assessment = evaluateRiskRules(DEFAULT_RISK_RULE_SET, {
+      customer: { id: 'cus_1', created: Math.floor(Date.now() / 1000) - 86400 } as never,
+      charges: [{ id: 'ch_1', amount: 100000, currency: 'usd', status: 'succeeded', created: 0 } as never],
+      paymentIntents: [],
+    });
+
+    expect(assessment.factors.map(factor => factor.type)).toEqual(['new_customer_large_amount']);
+  });
+});
+
+describe('loadRiskRuleSet', () => {
+  it('accepts the default config', () => {
+    expect(loadRiskRuleSet(defaultRuleSetConfig)).toBe(defaultRuleSetConfig);
+  });
+
+  it('reports every problem at once', () => {
+    const invalid = {
+      recommendationThresholds: { medium: 60, high: 50 },
+      largeChargeThreshold: { amount: 500 },
+      rules: [
+        {
+          id: 'failures',
+          factor: 'payment_failures',
+          when: [{ metric: 'failRate', op: 'gt', value: 0.3 }],
+          severity: [{ severity: 'medium', weight: 15 }],
+          description: '{failureRate:percent} payment failure rate',
+          value: 'failureRate',
+        },
+        {
+          id: 'failures',
+          factor: 'lucky_guess',
+          when: [{ metric: 'chargeCount', op: 'between', value: '10' }],
+          severity: [{ when: [{ metric: 'chargeCount', op: 'gt', value: 20 }], severity: 'extreme', weight: -5 }],
+          description: '{chargeCount:money} in {days}',
+          value: 'chargeCount',
+          evidence: 'gut_feeling',
+        },
+      ],
+    };
+
+    expect(() => loadRiskRuleSet(invalid)).toThrow(
+      [
+        'Invalid risk rule set:',
+        '- recommendationThresholds: medium must not exceed high',
+        '- largeChargeThreshold: expected { amount, currency }',
+        '- rules[0].when[0].metric: unknown metric "failRate"',
+        '- rules[1].id: duplicate id "failures"',
+        '- rules[1].factor: unknown factor type "lucky_guess"',
+        '- rules[1].evidence: unknown evidence source "gut_feeling"',
+        '- rules[1].when[0].op: unknown operator "between"',
+        '- rules[1].when[0].value: expected a number',
+        '- rules[1].severity[0].severity: expected low, medium or high',
+        '- rules[1].severity[0].weight: expected a non-negative number',
+        '- rules[1].severity: the last band must have no "when" (it is the fallback)',
+        '- rules[1].description: unknown format "money" for chargeCount',
+        '- rules[1].description: unknown metric "days" in template',
+      ].join('\n')
+    );
+  });
+
+  it('rejects non-objects and missing rules', () => {
+    expect(() => loadRiskRuleSet(null)).toThrow('Invalid risk rule set: expected an object');
+    expect(() =>
+      loadRiskRuleSet({ recommendationThresholds: { medium: 1, high: 2 }, largeChargeThreshold: { amount: 1, currency: 'usd' } })
+    ).toThrow('- rules: expected an array');
+  });
+
+  it('rejects names inherited from Object.prototype', () => {
+    const inherited = {
+      ...defaultRuleSetConfig,
+      rules: [
+        {
+          id: 'prototype',
+          factor: 'toString',
+          when: [{ metric: 'constructor', op: 'toString', value: 1 }],
+          severity: [{ severity: 'valueOf', weight: 5 }],
+          description: '{hasOwnProperty}',
+          value: '__proto__',
+          evidence: 'constructor',
+        },
+      ],
+    };
+
+    expect(() => loadRiskRuleSet(inherited)).toThrow(
+      [
+        'Invalid risk rule set:',
+        '- rules[0].factor: unknown factor type "toString"',
+        '- rules[0].value: unknown metric "__proto__"',
+        '- rules[0].evidence: unknown evidence source "constructor"',
+        '- rules[0].when[0].metric: unknown metric "constructor"',
+        '- rules[0].when[0].op: unknown operator "toString"',
+        '- rules[0].severity[0].severity: expected low, medium or high',
+        '- rules[0].description: unknown metric "hasOwnProperty" in template',
+      ].join('\n')
+    );
+  });
+});
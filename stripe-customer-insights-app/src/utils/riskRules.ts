@@ -0,0 +1,512 @@
+/**
+ * Declarative Risk Rules Engine
+ *
+ * PM INSIGHT: "What counts as risky?" differs by merchant. A $500 charge is
+ * large for a coffee subscription and tiny for B2B software; a 30% failure
+ * rate is alarming for cards but normal for some bank debits. Thresholds
+ * belong in configuration, not in code.
+ *
+ * DESIGN:
+ *   metrics (code)  →  rules (config)  →  RiskFactor[] + score + recommendation
+ *
+ * - Metrics are computed in code (failureRate, chargeCount, ...): one place
+ *   that knows how to read Stripe objects
+ * - Rules are plain JSON: conditions on metrics, severity bands with
+ *   weights, and a description template. Loaded and validated with
+ *   loadRiskRuleSet(); the default set is riskRules.default.json
+ * - The output shape (RiskFactor[]) is unchanged, so the UI doesn't care
+ *   which rule set produced it
+ *
+ * EVIDENCE: a rule may name an evidence source ("radar", "cardChecks",
+ * "geography", "refunds") to list the charges behind its factor.
+ *
+ * TEMPLATES: "{failureRate:percent} payment failure rate"
+ *   {metric}          → the value as-is
+ *   {metric:percent}  → 0.42 → "42%"
+ *   {metric:N}        → N decimal places
+ */
+
+import Stripe from 'stripe';
+import { CustomerInsights, Money, RiskEvidence, RiskFactor } from '../types';
+import { isOpenDispute } from './disputes';
+import { FxRateProvider, convertAmount, defaultFxRateProvider } from './fx';
+import { toMajorUnits } from './money';
+import { groupPaymentAttempts, isFailedPayment } from './payments';
+import { isFullyRefunded, listedRefunds } from './refunds';
+import defaultRuleSetConfig from './riskRules.default.json';
+
+/**
+ * Everything a metric can look at
+ */
+export interface RiskContext {
+  customer: Stripe.Customer;
+  charges: Stripe.Charge[]; // Any order: webhook-patched lists aren't sorted
+  paymentIntents: Stripe.PaymentIntent[];
+  disputes: Stripe.Dispute[];
+  fxRateProvider: FxRateProvider;
+  largeChargeThreshold: Money;
+  now: number; // Unix seconds
+}
+
+/**
+ * Metrics rules can reference
+ *
+ * Adding a metric here makes it available to every rule set (and to the
+ * validator); rules themselves never need code changes.
+ */
+export const RISK_METRICS = {
+  chargeCount: context => context.charges.length,
+
+  // Per attempt: every retry of a payment is a charge
+  failedChargeCount: context => context.charges.filter(c => c.status === 'failed').length,
+
+  // Per payment (PaymentIntent): a renewal that went through on a retry isn't a failure
+  failedPaymentCount: context => groupPaymentAttempts(context.charges).filter(isFailedPayment).length,
+
+  failureRate: context => {
+    const payments = groupPaymentAttempts(context.charges);
+    return payments.length > 0 ? payments.filter(isFailedPayment).length / payments.length : 0;
+  },
+
+  disputedChargeCount: context => context.charges.filter(c => c.disputed).length,
+
+  lostDisputeCount: context => context.disputes.filter(d => d.status === 'lost').length,
+
+  openDisputeCount: context => context.disputes.filter(isOpenDispute).length,
+
+  // Open or lost: a won dispute or a closed inquiry isn't held against the customer
+  chargebackCount: context => context.disputes.filter(d => d.status === 'lost' || isOpenDispute(d)).length,
+
+  accountAgeMonths: context =>
+    context.customer.created ? (context.now - context.customer.created) / (86400 * 30) : 0,
+
+  // Compared in the threshold's currency; charges with no FX rate are skipped
+  largeChargeCount: context =>
+    context.charges.filter(c => {
+      const amount = convertAmount(
+        toMajorUnits(c.amount, c.currency),
+        c.currency,
+        context.largeChargeThreshold.currency,
+        context.fxRateProvider
+      );
+      return amount !== null && amount > context.largeChargeThreshold.amount;
+    }).length,
+
+  // Time between the oldest and newest charge
+  chargeSpanDays: context => {
+    if (context.charges.length === 0) return 0;
+    const created = context.charges.map(c => c.created);
+    return (Math.max(...created) - Math.min(...created)) / 86400;
+  },
+
+  // Radar: charges scored elevated/highest, or held for review / blocked
+  radarFlaggedChargeCount: context => context.charges.filter(c => radarFinding(c) !== null).length,
+
+  radarHighestRiskChargeCount: context =>
+    context.charges.filter(c => c.outcome?.risk_level === 'highest' || c.outcome?.type === 'blocked').length,
+
+  // Only present with Radar for Fraud Teams; 0 otherwise
+  maxRadarRiskScore: context => Math.max(0, ...context.charges.map(c => c.outcome?.risk_score ?? 0)),
+
+  failedCvcCheckCount: context => context.charges.filter(c => cardChecks(c)?.cvc_check === 'fail').length,
+
+  failedAddressCheckCount: context =>
+    context.charges.filter(c => {
+      const checks = cardChecks(c);
+      return checks?.address_line1_check === 'fail' || checks?.address_postal_code_check === 'fail';
+    }).length,
+
+  failedCardCheckCount: context => context.charges.filter(c => failedCardChecks(c).length > 0).length,
+
+  geographicMismatchCount: context =>
+    context.charges.filter(c => countryMismatch(c, context.customer) !== null).length,
+
+  // Refunded charges keep status "succeeded", so rates are over successful charges
+  refundedChargeCount: context => context.charges.filter(isRefundedPayment).length,
+
+  refundRate: context => {
+    const succeeded = context.charges.filter(c => c.status === 'succeeded').length;
+    return succeeded > 0 ? context.charges.filter(isRefundedPayment).length / succeeded : 0;
+  },
+} satisfies Record<string, (context: RiskContext) => number>;
+
+export type RiskMetric = keyof typeof RISK_METRICS;
+
+/**
+ * Per-charge evidence a rule can attach to its factor
+ *
+ * PM INSIGHT: "Elevated Radar risk" alone invites "says who?". Listing the
+ * charges and the exact signal (score, failed check, countries) lets the
+ * merchant verify it in one click instead of trusting an opaque score.
+ */
+export const RISK_EVIDENCE = {
+  radar: context =>
+    context.charges.flatMap(c => {
+      const finding = radarFinding(c);
+      return finding ? [evidenceFor(c, finding)] : [];
+    }),
+
+  cardChecks: context =>
+    context.charges.flatMap(c => {
+      const failed = failedCardChecks(c);
+      return failed.length > 0 ? [evidenceFor(c, failed.map(check => `${check} check failed`).join(', '))] : [];
+    }),
+
+  geography: context =>
+    context.charges.flatMap(c => {
+      const mismatch = countryMismatch(c, context.customer);
+      return mismatch
+        ? [evidenceFor(c, `Card issued in ${mismatch.cardCountry}, billing address in ${mismatch.billingCountry}`)]
+        : [];
+    }),
+
+  refunds: context =>
+    context.charges.filter(isRefundedPayment).map(c => {
+      const share = isFullyRefunded(c)
+        ? 'Fully refunded'
+        : `${Math.round((c.amount_refunded / c.amount) * 100)}% refunded`;
+      const reasons = [...new Set(listedRefunds(c).map(refund => refund.reason).filter(Boolean))];
+      return evidenceFor(c, reasons.length > 0 ? `${share} (${reasons.join(', ').replace(/_/g, ' ')})` : share);
+    }),
+} satisfies Record<string, (context: RiskContext) => RiskEvidence[]>;
+
+export type RiskEvidenceSource = keyof typeof RISK_EVIDENCE;
+
+/**
+ * Radar's verdict on a charge, or null when Radar saw nothing unusual
+ *
+ * outcome.risk_level: normal | elevated | highest | not_assessed | unknown
+ * outcome.type: authorized | manual_review | issuer_declined | blocked | invalid
+ */
+function radarFinding(charge: Stripe.Charge): string | null {
+  const outcome = charge.outcome;
+  if (!outcome) return null;
+
+  const elevated = outcome.risk_level === 'elevated' || outcome.risk_level === 'highest';
+  const held = outcome.type === 'manual_review' || outcome.type === 'blocked';
+  if (!elevated && !held) return null;
+
+  const parts = [`Radar risk ${outcome.risk_level ?? 'unknown'}`];
+  if (outcome.risk_score !== undefined) parts.push(`score ${outcome.risk_score}`);
+  if (held) parts.push(outcome.type.replace('_', ' '));
+  return parts.join(', ');
+}
+
+function cardChecks(charge: Stripe.Charge): Stripe.Charge.PaymentMethodDetails.Card.Checks | null {
+  return charge.payment_method_details?.card?.checks ?? null;
+}
+
+// 'unavailable' / 'unchecked' are not failures - many issuers never check addresses
+function failedCardChecks(charge: Stripe.Charge): string[] {
+  const checks = cardChecks(charge);
+  if (!checks) return [];
+
+  const failed: string[] = [];
+  if (checks.cvc_check === 'fail') failed.push('CVC');
+  if (checks.address_line1_check === 'fail') failed.push('Address line 1');
+  if (checks.address_postal_code_check === 'fail') failed.push('Postal code');
+  return failed;
+}
+
+/**
+ * Card issuing country vs billing country (the charge's billing details,
+ * falling back to the customer's address). Null when either is unknown.
+ */
+function countryMismatch(
+  charge: Stripe.Charge,
+  customer: Stripe.Customer
+): { cardCountry: string; billingCountry: string } | null {
+  const cardCountry = charge.payment_method_details?.card?.country;
+  const billingCountry = charge.billing_details?.address?.country ?? customer.address?.country;
+  if (!cardCountry || !billingCountry) return null;
+  if (cardCountry.toUpperCase() === billingCountry.toUpperCase()) return null;
+  return { cardCountry: cardCountry.toUpperCase(), billingCountry: billingCountry.toUpperCase() };
+}
+
+function isRefundedPayment(charge: Stripe.Charge): boolean {
+  return charge.status === 'succeeded' && (charge.amount_refunded || 0) > 0;
+}
+
+function evidenceFor(charge: Stripe.Charge, detail: string): RiskEvidence {
+  return { chargeId: charge.id, date: new Date(charge.created * 1000).toISOString(), detail };
+}
+
+export type RiskMetricValues = Record<RiskMetric, number>;
+
+export type ComparisonOperator = 'gt' | 'gte' | 'lt' | 'lte' | 'eq';
+
+export interface RiskCondition {
+  metric: RiskMetric;
+  op: ComparisonOperator;
+  value: number;
+}
+
+/**
+ * First band whose conditions all hold decides severity and weight
+ * (the last band must be unconditional)
+ */
+export interface SeverityBand {
+  when?: RiskCondition[];
+  severity: RiskFactor['severity'];
+  weight: number; // Points added to the risk score
+}
+
+export interface RiskRuleDefinition {
+  id: string;
+  factor: RiskFactor['type'];
+  when: RiskCondition[]; // Rule fires when ALL conditions hold
+  severity: SeverityBand[];
+  description: string; // Template, see header
+  value: RiskMetric; // Reported as RiskFactor.value
+  evidence?: RiskEvidenceSource; // Charges listed as RiskFactor.evidence
+}
+
+export interface RiskRuleSet {
+  rules: RiskRuleDefinition[];
+  recommendationThresholds: { medium: number; high: number }; // Score cut-offs
+  largeChargeThreshold: Money; // Used by the largeChargeCount metric
+}
+
+const OPERATORS: Record<ComparisonOperator, (actual: number, expected: number) => boolean> = {
+  gt: (actual, expected) => actual > expected,
+  gte: (actual, expected) => actual >= expected,
+  lt: (actual, expected) => actual < expected,
+  lte: (actual, expected) => actual <= expected,
+  eq: (actual, expected) => actual === expected,
+};
+
+// Record (not an array) so adding a RiskFactor type without listing it here is a compile error
+const RISK_FACTOR_TYPES: Record<RiskFactor['type'], true> = {
+  high_chargeback_rate: true,
+  payment_failures: true,
+  velocity_check: true,
+  new_customer_large_amount: true,
+  elevated_radar_risk: true,
+  failed_card_checks: true,
+  geographic_mismatch: true,
+  serial_refunder: true,
+};
+
+const SEVERITIES: Record<RiskFactor['severity'], true> = { low: true, medium: true, high: true };
+
+/**
+ * Validate an untrusted rule set (e.g. parsed from a merchant's JSON config)
+ *
+ * Reports every problem at once, e.g.
+ *   Invalid risk rule set:
+ *   - rules[1].when[0].metric: unknown metric "failRate"
+ */
+export function loadRiskRuleSet(input: unknown): RiskRuleSet {
+  const errors: string[] = [];
+  const config = input as Partial<RiskRuleSet> | null;
+
+  if (!isObject(config)) {
+    throw new Error('Invalid risk rule set: expected an object');
+  }
+
+  const thresholds = config.recommendationThresholds;
+  if (!isObject(thresholds) || !isNonNegative(thresholds.medium) || !isNonNegative(thresholds.high)) {
+    errors.push('recommendationThresholds: expected { medium, high } as non-negative numbers');
+  } else if (thresholds.medium > thresholds.high) {
+    errors.push('recommendationThresholds: medium must not exceed high');
+  }
+
+  const threshold = config.largeChargeThreshold;
+  if (!isObject(threshold) || !isNonNegative(threshold.amount) || typeof threshold.currency !== 'string') {
+    errors.push('largeChargeThreshold: expected { amount, currency }');
+  }
+
+  if (!Array.isArray(config.rules)) {
+    errors.push('rules: expected an array');
+  } else {
+    const ids = new Set<string>();
+    config.rules.forEach((rule, index) => {
+      const at = `rules[${index}]`;
+      if (!isObject(rule)) {
+        errors.push(`${at}: expected an object`);
+        return;
+      }
+
+      if (typeof rule.id !== 'string' || rule.id === '') errors.push(`${at}.id: expected a non-empty string`);
+      else if (ids.has(rule.id)) errors.push(`${at}.id: duplicate id "${rule.id}"`);
+      else ids.add(rule.id);
+
+      if (!isKeyOf(RISK_FACTOR_TYPES, rule.factor)) {
+        errors.push(`${at}.factor: unknown factor type "${rule.factor}"`);
+      }
+      if (!isMetric(rule.value)) errors.push(`${at}.value: unknown metric "${rule.value}"`);
+      if (rule.evidence !== undefined && !isKeyOf(RISK_EVIDENCE, rule.evidence)) {
+        errors.push(`${at}.evidence: unknown evidence source "${rule.evidence}"`);
+      }
+
+      validateConditions(rule.when, `${at}.when`, errors);
+      validateSeverityBands(rule.severity, `${at}.severity`, errors);
+      validateTemplate(rule.description, `${at}.description`, errors);
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid risk rule set:\n- ${errors.join('\n- ')}`);
+  }
+  return config as RiskRuleSet;
+}
+
+function validateConditions(conditions: unknown, at: string, errors: string[]): void {
+  if (!Array.isArray(conditions) || conditions.length === 0) {
+    errors.push(`${at}: expected a non-empty array of conditions`);
+    return;
+  }
+  conditions.forEach((condition, index) => {
+    if (!isObject(condition)) {
+      errors.push(`${at}[${index}]: expected an object`);
+      return;
+    }
+    if (!isMetric(condition.metric)) errors.push(`${at}[${index}].metric: unknown metric "${condition.metric}"`);
+    if (!isKeyOf(OPERATORS, condition.op)) errors.push(`${at}[${index}].op: unknown operator "${condition.op}"`);
+    if (typeof condition.value !== 'number' || !Number.isFinite(condition.value)) {
+      errors.push(`${at}[${index}].value: expected a number`);
+    }
+  });
+}
+
+function validateSeverityBands(bands: unknown, at: string, errors: string[]): void {
+  if (!Array.isArray(bands) || bands.length === 0) {
+    errors.push(`${at}: expected a non-empty array of severity bands`);
+    return;
+  }
+  bands.forEach((band, index) => {
+    if (!isObject(band)) {
+      errors.push(`${at}[${index}]: expected an object`);
+      return;
+    }
+    if (!isKeyOf(SEVERITIES, band.severity)) errors.push(`${at}[${index}].severity: expected low, medium or high`);
+    if (!isNonNegative(band.weight)) errors.push(`${at}[${index}].weight: expected a non-negative number`);
+    if (band.when !== undefined) validateConditions(band.when, `${at}[${index}].when`, errors);
+  });
+  if (isObject(bands[bands.length - 1]) && bands[bands.length - 1].when !== undefined) {
+    errors.push(`${at}: the last band must have no "when" (it is the fallback)`);
+  }
+}
+
+function validateTemplate(template: unknown, at: string, errors: string[]): void {
+  if (typeof template !== 'string') {
+    errors.push(`${at}: expected a string`);
+    return;
+  }
+  for (const [, metric, format] of template.matchAll(PLACEHOLDER)) {
+    if (!isMetric(metric)) errors.push(`${at}: unknown metric "${metric}" in template`);
+    if (format !== undefined && format !== 'percent' && !/^\d$/.test(format)) {
+      errors.push(`${at}: unknown format "${format}" for ${metric}`);
+    }
+  }
+}
+
+const PLACEHOLDER = /\{(\w+)(?::(\w+))?\}/g;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonNegative(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function isMetric(value: unknown): value is RiskMetric {
+  return isKeyOf(RISK_METRICS, value);
+}
+
+/**
+ * Own keys only: `in` would also accept "toString" or "constructor" from the
+ * prototype, and the lookup would then hand back a function
+ */
+function isKeyOf<T extends object>(table: T, key: unknown): key is keyof T {
+  return typeof key === 'string' && Object.prototype.hasOwnProperty.call(table, key);
+}
+
+/**
+ * The built-in rules (riskRules.default.json)
+ */
+export const DEFAULT_RISK_RULE_SET: RiskRuleSet = loadRiskRuleSet(defaultRuleSetConfig);
+
+/**
+ * Compute every metric once per assessment
+ */
+export function computeRiskMetrics(context: RiskContext): RiskMetricValues {
+  const values = {} as RiskMetricValues;
+  for (const metric of Object.keys(RISK_METRICS) as RiskMetric[]) {
+    values[metric] = RISK_METRICS[metric](context);
+  }
+  return values;
+}
+
+/**
+ * Run a rule set against a customer's data
+ *
+ * Factors appear in rule order; the score is the sum of the matching bands'
+ * weights (capped at 100), and the recommendation uses the rule set's cut-offs.
+ */
+export function evaluateRiskRules(
+  ruleSet: RiskRuleSet,
+  data: {
+    customer: Stripe.Customer;
+    charges: Stripe.Charge[];
+    paymentIntents: Stripe.PaymentIntent[];
+    disputes?: Stripe.Dispute[];
+    fxRateProvider?: FxRateProvider;
+    now?: number;
+  }
+): CustomerInsights['riskAssessment'] {
+  const context: RiskContext = {
+    customer: data.customer,
+    charges: data.charges,
+    paymentIntents: data.paymentIntents,
+    disputes: data.disputes ?? [],
+    fxRateProvider: data.fxRateProvider ?? defaultFxRateProvider,
+    largeChargeThreshold: ruleSet.largeChargeThreshold,
+    now: data.now ?? Date.now() / 1000,
+  };
+  const metrics = computeRiskMetrics(context);
+
+  const factors: RiskFactor[] = [];
+  let riskScore = 0;
+
+  for (const rule of ruleSet.rules) {
+    if (!allHold(rule.when, metrics)) continue;
+
+    const band = rule.severity.find(candidate => !candidate.when || allHold(candidate.when, metrics))!;
+    const factor: RiskFactor = {
+      type: rule.factor,
+      severity: band.severity,
+      description: renderTemplate(rule.description, metrics),
+      value: metrics[rule.value],
+    };
+    if (rule.evidence) factor.evidence = RISK_EVIDENCE[rule.evidence](context);
+    factors.push(factor);
+    riskScore += band.weight;
+  }
+
+  const { medium, high } = ruleSet.recommendationThresholds;
+  let recommendation: CustomerInsights['riskAssessment']['recommendation'];
+  if (riskScore < medium) recommendation = 'low_risk';
+  else if (riskScore < high) recommendation = 'medium_risk';
+  else recommendation = 'high_risk';
+
+  return {
+    score: Math.min(riskScore, 100),
+    factors,
+    recommendation,
+  };
+}
+
+function allHold(conditions: RiskCondition[], metrics: RiskMetricValues): boolean {
+  return conditions.every(condition => OPERATORS[condition.op](metrics[condition.metric], condition.value));
+}
+
+function renderTemplate(template: string, metrics: RiskMetricValues): string {
+  return template.replace(PLACEHOLDER, (_match, metric: RiskMetric, format?: string) => {
+    const value = metrics[metric];
+    if (format === 'percent') return `${(value * 100).toFixed(0)}%`;
+    if (format !== undefined) return value.toFixed(Number(format));
+    return String(value);
+  });
+}
@@ -15,10 +15,11 @@
  * - Handles theming (light/dark mode)
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import {
   Box,
   Badge,
+  BarChart,
   Button,
   Card,
   Divider,
@@ -27,13 +28,29 @@ import {
   Icon,
   Inline,
   Link,
+  Sparkline,
   Spinner,
   Text,
 } from '@stripe/ui-extension-sdk/ui';
 import { useCustomerId } from '@stripe/ui-extension-sdk/context';
-import { CustomerInsights, AppState } from '../types';
-import { formatCurrency, formatDate, calculateCustomerInsights } from '../utils/calculations';
-import { fetchCustomerDataWithCache } from '../api/stripeClient';
+import {
+  CustomerInsights,
+  AppState,
+  DisputeSummary,
+  MetricCardProps,
+  PaymentMethodSummary,
+  RevenueBucket,
+  RiskEvidence,
+  SubscriptionSummary,
+  Trend,
+} from '../types';
+import {
+  formatCurrency,
+  formatDate,
+  formatRelativeTime,
+  calculateCustomerInsights,
+} from '../utils/calculations';
+import { CachedCustomerData, fetchCustomerDataWithCache } from '../api/stripeClient';
 
 /**
  * Main Component
@@ -53,52 +70,95 @@ export default function CustomerInsights() {
     insights: null,
     loadingState: 'idle',
     error: null,
+    lastUpdatedAt: null,
+    isRefreshing: false,
   });
 
+  // Ignore results from loads that were superseded (customer changed, refresh clicked again)
+  const latestLoad = useRef(0);
+
   /**
    * Load customer insights
    *
-   * PERFORMANCE: useEffect with dependency array ensures we only fetch when customerId changes
-   * INTERVIEW POINT: Explain React hooks and component lifecycle
+   * STALE-WHILE-REVALIDATE:
+   * - Cached data (even expired) renders immediately
+   * - If it was stale, a background refresh updates the cards when it lands
+   * - The full-screen spinner only appears when there is nothing to show yet
    */
-  useEffect(() => {
-    if (!customerId) return;
+  const loadInsights = useCallback(
+    async (bypassCache: boolean = false) => {
+      if (!customerId) return;
+      const loadId = ++latestLoad.current;
+      const isCurrent = () => loadId === latestLoad.current;
 
-    async function loadInsights() {
-      setState(prev => ({ ...prev, loadingState: 'loading', error: null }));
-
-      try {
-        // Fetch data from Stripe API
-        const data = await fetchCustomerDataWithCache(customerId);
-
-        // Calculate insights
-        const insights = calculateCustomerInsights(data);
+      setState(prev => ({
+        ...prev,
+        // Keep showing existing insights during a manual refresh
+        loadingState: prev.insights ? prev.loadingState : 'loading',
+        isRefreshing: prev.insights !== null,
+        error: null,
+      }));
 
+      const applyResult = (result: CachedCustomerData) => {
         setState({
-          insights,
+          insights: calculateCustomerInsights(result.data),
           loadingState: 'success',
           error: null,
+          lastUpdatedAt: new Date(result.fetchedAt).toISOString(),
+          isRefreshing: result.refreshed !== null,
         });
+      };
+
+      try {
+        // Fetch data from Stripe API (or cache) and calculate insights
+        const result = await fetchCustomerDataWithCache(customerId, bypassCache);
+        if (!isCurrent()) return;
+        applyResult(result);
+
+        if (result.refreshed) {
+          const refreshed = await result.refreshed;
+          // Another customer or a manual refresh may have started meanwhile
+          if (!isCurrent()) return;
+          applyResult(refreshed);
+        }
       } catch (error) {
+        if (!isCurrent()) return;
         console.error('Failed to load insights:', error);
-        setState({
-          insights: null,
-          loadingState: 'error',
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
+        const message = error instanceof Error ? error.message : 'Unknown error';
+
+        setState(prev =>
+          prev.insights
+            ? // Keep the data we have; the freshness bar reports the failure
+              { ...prev, loadingState: 'success', isRefreshing: false, error: message }
+            : { ...prev, loadingState: 'error', isRefreshing: false, error: message }
+        );
       }
-    }
+    },
+    [customerId]
+  );
 
+  /**
+   * PERFORMANCE: useEffect with dependency array ensures we only fetch when customerId changes
+   * INTERVIEW POINT: Explain React hooks and component lifecycle
+   */
+  useEffect(() => {
+    setState({
+      insights: null,
+      loadingState: 'idle',
+      error: null,
+      lastUpdatedAt: null,
+      isRefreshing: false,
+    });
     loadInsights();
-  }, [customerId]);
+  }, [loadInsights]);
 
   /**
    * Render different states
    *
    * UX BEST PRACTICE: Clear feedback for each state
-   * - Loading: Skeleton/spinner
+   * - Loading: Skeleton/spinner (first load only)
    * - Error: Actionable error message with retry
-   * - Success: Full content
+   * - Success: Full content, with freshness + background refresh indicator
    */
   if (state.loadingState === 'loading') {
     return (
@@ -118,10 +178,7 @@ export default function CustomerInsights() {
           <Box padding="medium">
             <Heading level={3}>Error Loading Insights</Heading>
             <Text>{state.error}</Text>
-            <Button
-              onClick={() => setState({ ...state, loadingState: 'idle' })}
-              css={{ marginTop: 16 }}
-            >
+            <Button onClick={() => loadInsights(true)} css={{ marginTop: 16 }}>
               Retry
             </Button>
           </Box>
@@ -149,6 +206,7 @@ export default function CustomerInsights() {
       <Text color="subdued">
         Comprehensive analytics for customer {customerId}
       </Text>
+      <FreshnessBar state={state} onRefresh={() => loadInsights(true)} />
 
       <Divider />
 
@@ -157,6 +215,20 @@ export default function CustomerInsights() {
         <LifetimeValueCard insights={state.insights} />
       </Box>
 
+      {/* Revenue Trend Section */}
+      {state.insights.revenueTrend.monthly.some(
+        bucket => bucket.gross.amount > 0 || bucket.refunded.amount > 0
+      ) && (
+        <Box marginTop="medium">
+          <RevenueTrendCard insights={state.insights} />
+        </Box>
+      )}
+
+      {/* Customer Health Section */}
+      <Box marginTop="medium">
+        <HealthCard insights={state.insights} />
+      </Box>
+
       {/* Payment Pattern Section */}
       <Box marginTop="medium">
         <PaymentPatternCard insights={state.insights} />
@@ -167,6 +239,27 @@ export default function CustomerInsights() {
         <RiskAssessmentCard insights={state.insights} />
       </Box>
 
+      {/* Refunds Section */}
+      {state.insights.refunds.refundedCharges > 0 && (
+        <Box marginTop="medium">
+          <RefundsCard insights={state.insights} />
+        </Box>
+      )}
+
+      {/* Disputes Section */}
+      {state.insights.disputes.total > 0 && (
+        <Box marginTop="medium">
+          <DisputesCard insights={state.insights} />
+        </Box>
+      )}
+
+      {/* Invoices Section */}
+      {state.insights.invoices.total > 0 && (
+        <Box marginTop="medium">
+          <InvoicesCard insights={state.insights} />
+        </Box>
+      )}
+
       {/* Subscription Health Section */}
       {state.insights.subscriptionHealth.totalSubscriptions > 0 && (
         <Box marginTop="medium">
@@ -174,6 +267,13 @@ export default function CustomerInsights() {
         </Box>
       )}
 
+      {/* Payment Methods Section */}
+      {state.insights.paymentMethods.total > 0 && (
+        <Box marginTop="medium">
+          <PaymentMethodsCard insights={state.insights} />
+        </Box>
+      )}
+
       {/* Metadata Section */}
       <Box marginTop="medium">
         <MetadataCard insights={state.insights} />
@@ -182,6 +282,39 @@ export default function CustomerInsights() {
   );
 }
 
+/**
+ * Freshness Bar
+ *
+ * UX: "Updated 3 min ago · refreshing…" tells merchants how current the
+ * numbers are, and the Refresh button lets them skip the cache entirely.
+ * Re-renders every 30s so the relative time doesn't freeze.
+ */
+function FreshnessBar({ state, onRefresh }: { state: AppState; onRefresh: () => void }) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  return (
+    <Inline>
+      <Text color="subdued" size="small">
+        Updated {formatRelativeTime(state.lastUpdatedAt, now)}
+        {state.isRefreshing && ' · refreshing…'}
+        {!state.isRefreshing && state.error && ' · refresh failed'}
+      </Text>
+      {state.isRefreshing ? (
+        <Spinner size="small" />
+      ) : (
+        <Button type="secondary" size="small" onClick={onRefresh}>
+          Refresh
+        </Button>
+      )}
+    </Inline>
+  );
+}
+
 /**
  * Lifetime Value Card Component
  *
@@ -200,7 +333,7 @@ function LifetimeValueCard({ insights }: { insights: CustomerInsights }) {
 
         <Box marginTop="medium">
           <Text size="xlarge" weight="bold">
-            {formatCurrency(lifetimeValue.total, lifetimeValue.currency)}
+            {formatCurrency(lifetimeValue.total)}
           </Text>
         </Box>
 
@@ -208,22 +341,42 @@ function LifetimeValueCard({ insights }: { insights: CustomerInsights }) {
           <Box>
             <Text color="subdued" size="small">One-time</Text>
             <Text weight="medium">
-              {formatCurrency(lifetimeValue.breakdown.oneTime, lifetimeValue.currency)}
+              {formatCurrency(lifetimeValue.breakdown.oneTime)}
             </Text>
           </Box>
           <Box>
             <Text color="subdued" size="small">Subscription</Text>
             <Text weight="medium">
-              {formatCurrency(lifetimeValue.breakdown.subscription, lifetimeValue.currency)}
+              {formatCurrency(lifetimeValue.breakdown.subscription)}
             </Text>
           </Box>
           <Box>
             <Text color="subdued" size="small">Refunded</Text>
             <Text weight="medium">
-              {formatCurrency(lifetimeValue.breakdown.refunded, lifetimeValue.currency)}
+              {formatCurrency(lifetimeValue.breakdown.refunded)}
             </Text>
           </Box>
         </Grid>
+
+        {/* Per-currency breakdown: only worth showing when more than one currency was used */}
+        {lifetimeValue.byCurrency.length > 1 && (
+          <Box marginTop="medium">
+            <Text weight="medium">By Currency</Text>
+            {lifetimeValue.byCurrency.map(entry => (
+              <Box key={entry.currency} marginTop="small">
+                <Inline>
+                  <Badge>{entry.currency.toUpperCase()}</Badge>
+                  <Text size="small">{formatCurrency(entry.total)}</Text>
+                  <Text color="subdued" size="small">
+                    {entry.convertedTotal !== null
+                      ? `≈ ${formatCurrency(entry.convertedTotal)}`
+                      : 'No FX rate available'}
+                  </Text>
+                </Inline>
+              </Box>
+            ))}
+          </Box>
+        )}
       </Box>
     </Card>
   );
@@ -255,6 +408,12 @@ function PaymentPatternCard({ insights }: { insights: CustomerInsights }) {
               Success Rate
             </Badge>
           </Inline>
+          {paymentPattern.chargeAttempts > paymentPattern.totalPayments && (
+            <Text color="subdued" size="small">
+              {paymentPattern.attemptSuccessRate.toFixed(1)}% of {paymentPattern.chargeAttempts} charge attempts,
+              retries included
+            </Text>
+          )}
         </Box>
 
         <Grid columns={2} marginTop="medium">
@@ -277,7 +436,7 @@ function PaymentPatternCard({ insights }: { insights: CustomerInsights }) {
           <Box>
             <Text color="subdued" size="small">Avg Amount</Text>
             <Text weight="medium">
-              {formatCurrency(paymentPattern.averagePaymentAmount, 'usd')}
+              {formatCurrency(paymentPattern.averagePaymentAmount)}
             </Text>
           </Box>
         </Grid>
@@ -288,6 +447,211 @@ function PaymentPatternCard({ insights }: { insights: CustomerInsights }) {
             <Badge>{paymentPattern.preferredPaymentMethod}</Badge>
           </Box>
         )}
+
+        {insights.paymentIntents.total > 0 && <CheckoutFriction insights={insights} />}
+      </Box>
+    </Card>
+  );
+}
+
+/**
+ * Checkout friction from PaymentIntents
+ *
+ * UX: Part of the payment card rather than its own - it explains the
+ * success rate above (challenged by the bank, gave up, or declined).
+ */
+function CheckoutFriction({ insights }: { insights: CustomerInsights }) {
+  const { paymentIntents } = insights;
+  const percent = (value: number | null) => (value !== null ? `${value.toFixed(0)}%` : 'N/A');
+
+  return (
+    <Box marginTop="medium">
+      <Text weight="medium">Checkout Friction</Text>
+      <Grid columns={3} marginTop="small">
+        <Box>
+          <Text color="subdued" size="small">3DS Challenged</Text>
+          <Text weight="medium">
+            {percent(paymentIntents.challengeRate)} ({paymentIntents.challenged})
+          </Text>
+        </Box>
+        <Box>
+          <Text color="subdued" size="small">Challenges Completed</Text>
+          <Text weight="medium">{percent(paymentIntents.challengeCompletionRate)}</Text>
+        </Box>
+        <Box>
+          <Text color="subdued" size="small">Abandoned</Text>
+          <Text weight="medium">
+            {paymentIntents.abandoned} ({formatCurrency(paymentIntents.abandonedAmount)})
+          </Text>
+        </Box>
+      </Grid>
+
+      {paymentIntents.requiresAction > 0 && (
+        <Box marginTop="small">
+          <Inline>
+            <Badge type="warning">Awaiting authentication</Badge>
+            <Text size="small">
+              {paymentIntents.requiresAction} payment{paymentIntents.requiresAction === 1 ? '' : 's'} waiting
+              for the customer to complete 3D Secure
+            </Text>
+          </Inline>
+        </Box>
+      )}
+
+      {paymentIntents.declineCodes.length > 0 && (
+        <Box marginTop="small">
+          <Text color="subdued" size="small">Decline Codes</Text>
+          <Inline>
+            {paymentIntents.declineCodes.map(({ code, count }) => (
+              <Badge key={code}>
+                {code.replace(/_/g, ' ')} × {count}
+              </Badge>
+            ))}
+          </Inline>
+        </Box>
+      )}
+    </Box>
+  );
+}
+
+/**
+ * Revenue Trend Card
+ *
+ * UX: Last complete month up top with its month-over-month change, then
+ * the monthly net revenue as bars (refund-heavy months dip below zero).
+ * The weekly sparkline only shows when weekly buckets were requested.
+ */
+function RevenueTrendCard({ insights }: { insights: CustomerInsights }) {
+  const { monthly, weekly, monthOverMonth } = insights.revenueTrend;
+  const [previous, last] = monthly.slice(-3, -1);
+  const chartData = monthly.map(bucket => ({ month: monthLabel(bucket), net: bucket.net.amount }));
+
+  return (
+    <Card>
+      <Box padding="medium">
+        <Heading level={3}>Revenue Trend</Heading>
+
+        {last && (
+          <Grid columns={2} marginTop="medium">
+            <MetricCard
+              title={`Net revenue, ${monthLabel(last)}`}
+              value={formatCurrency(last.net)}
+              subtitle={previous && `vs ${formatCurrency(previous.net)} in ${monthLabel(previous)}`}
+              trend={monthOverMonth.net ?? undefined}
+            />
+            <MetricCard
+              title="Gross / Refunded"
+              value={formatCurrency(last.gross)}
+              subtitle={`${formatCurrency(last.refunded)} refunded`}
+              trend={monthOverMonth.gross ?? undefined}
+            />
+          </Grid>
+        )}
+
+        <Box marginTop="medium">
+          <Text color="subdued" size="small">Net revenue by month</Text>
+          <BarChart data={chartData} x="month" y="net" />
+        </Box>
+
+        {weekly.length > 0 && (
+          <Box marginTop="medium">
+            <Text color="subdued" size="small">Weekly net revenue</Text>
+            <Sparkline
+              data={weekly.map(bucket => ({ week: bucket.start, net: bucket.net.amount }))}
+              x="week"
+              y="net"
+            />
+          </Box>
+        )}
+      </Box>
+    </Card>
+  );
+}
+
+function monthLabel(bucket: RevenueBucket): string {
+  return new Date(bucket.start).toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+}
+
+/**
+ * Metric Card
+ *
+ * A single figure with an optional period-over-period trend badge.
+ */
+function MetricCard({ title, value, subtitle, trend }: MetricCardProps) {
+  return (
+    <Box>
+      <Text color="subdued" size="small">{title}</Text>
+      <Inline>
+        <Text size="large" weight="bold">{value}</Text>
+        {trend && <TrendBadge trend={trend} />}
+      </Inline>
+      {subtitle && <Text color="subdued" size="small">{subtitle}</Text>}
+    </Box>
+  );
+}
+
+const TREND_BADGES: Record<Trend['direction'], { type: 'positive' | 'negative' | 'neutral'; arrow: string }> = {
+  up: { type: 'positive', arrow: '▲' },
+  down: { type: 'negative', arrow: '▼' },
+  neutral: { type: 'neutral', arrow: '▶' },
+};
+
+function TrendBadge({ trend }: { trend: Trend }) {
+  const { type, arrow } = TREND_BADGES[trend.direction];
+  return (
+    <Badge type={type}>
+      {arrow} {trend.percentage.toFixed(0)}%
+    </Badge>
+  );
+}
+
+/**
+ * Customer Health Card
+ *
+ * UX: The score answers "should I worry?", the factors answer "why?".
+ * Signals that cost points come first; healthy ones stay listed (subdued)
+ * so the merchant sees what was checked, not just what went wrong.
+ */
+const CHURN_RISK_BADGES: Record<CustomerInsights['health']['churnRisk'], 'positive' | 'warning' | 'negative'> = {
+  low: 'positive',
+  medium: 'warning',
+  high: 'negative',
+};
+
+function HealthCard({ insights }: { insights: CustomerInsights }) {
+  const { health } = insights;
+  const factors = [...health.factors].sort((a, b) => b.impact - a.impact);
+
+  return (
+    <Card>
+      <Box padding="medium">
+        <Heading level={3}>Customer Health</Heading>
+
+        <Box marginTop="medium">
+          <Inline>
+            <Text size="xlarge" weight="bold">
+              {health.score}/100
+            </Text>
+            <Badge type={CHURN_RISK_BADGES[health.churnRisk]}>{health.churnRisk} churn risk</Badge>
+          </Inline>
+        </Box>
+
+        <Box marginTop="medium">
+          {factors.map(factor => (
+            <Box key={factor.signal} marginTop="small">
+              {factor.impact > 0 ? (
+                <Inline>
+                  <Badge type={factor.impact >= 20 ? 'negative' : 'warning'}>-{factor.impact}</Badge>
+                  <Text size="small">{factor.description}</Text>
+                </Inline>
+              ) : (
+                <Text color="subdued" size="small">
+                  {factor.description}
+                </Text>
+              )}
+            </Box>
+          ))}
+        </Box>
       </Box>
     </Card>
   );
@@ -338,6 +702,7 @@ function RiskAssessmentCard({ insights }: { insights: CustomerInsights }) {
                   </Badge>
                   <Text size="small">{factor.description}</Text>
                 </Inline>
+                {factor.evidence && <RiskEvidenceList evidence={factor.evidence} />}
               </Box>
             ))}
           </Box>
@@ -353,11 +718,284 @@ function RiskAssessmentCard({ insights }: { insights: CustomerInsights }) {
   );
 }
 
+/**
+ * Evidence behind a risk factor
+ *
+ * UX: Most recent few charges with the exact signal and charge ID, so the
+ * merchant can look the charge up and check the reasoning themselves.
+ */
+const MAX_EVIDENCE_SHOWN = 3;
+
+function RiskEvidenceList({ evidence }: { evidence: RiskEvidence[] }) {
+  const hidden = evidence.length - MAX_EVIDENCE_SHOWN;
+
+  return (
+    <Box marginTop="small">
+      {evidence.slice(0, MAX_EVIDENCE_SHOWN).map(item => (
+        <Text key={item.chargeId} color="subdued" size="small">
+          {formatDate(item.date)} · {item.chargeId} · {item.detail}
+        </Text>
+      ))}
+      {hidden > 0 && (
+        <Text color="subdued" size="small">
+          and {hidden} more
+        </Text>
+      )}
+    </Box>
+  );
+}
+
+/**
+ * Refunds Card
+ *
+ * PM DECISION: Show the rate next to the amount. "$400 refunded" means
+ * little on its own; "4 of 5 payments refunded" is what tells a merchant
+ * they're dealing with a habitual returner.
+ */
+function RefundsCard({ insights }: { insights: CustomerInsights }) {
+  const { refunds } = insights;
+
+  return (
+    <Card>
+      <Box padding="medium">
+        <Heading level={3}>Refunds</Heading>
+
+        <Box marginTop="medium">
+          <Text size="xlarge" weight="bold">
+            {formatCurrency(refunds.refundedAmount)}
+          </Text>
+          <Text color="subdued" size="small">
+            {refunds.amountRefundRate.toFixed(1)}% of collected revenue refunded
+          </Text>
+        </Box>
+
+        <Grid columns={2} marginTop="medium">
+          <Box>
+            <Text color="subdued" size="small">Refund Rate</Text>
+            <Text weight="medium">
+              {refunds.refundRate.toFixed(1)}% ({refunds.refundedCharges} payments)
+            </Text>
+          </Box>
+          <Box>
+            <Text color="subdued" size="small">Full / Partial</Text>
+            <Text weight="medium">
+              {refunds.fullRefunds} / {refunds.partialRefunds}
+            </Text>
+          </Box>
+          <Box>
+            <Text color="subdued" size="small">Median Time to Refund</Text>
+            <Text weight="medium">
+              {refunds.medianDaysToRefund !== null ? `${refunds.medianDaysToRefund.toFixed(1)} days` : 'N/A'}
+            </Text>
+          </Box>
+        </Grid>
+
+        {refunds.reasons.length > 0 && (
+          <Box marginTop="medium">
+            <Text color="subdued" size="small">Reasons</Text>
+            <Inline>
+              {refunds.reasons.map(({ reason, count }) => (
+                <Badge key={reason}>
+                  {reason.replace(/_/g, ' ')} × {count}
+                </Badge>
+              ))}
+            </Inline>
+          </Box>
+        )}
+      </Box>
+    </Card>
+  );
+}
+
+/**
+ * Disputes Card
+ *
+ * PM DECISION: Lead with the deadline, not the totals. A dispute with no
+ * evidence submitted by its due date is lost automatically, so the one
+ * actionable thing here is "respond by Friday".
+ */
+const DISPUTE_STATUS_BADGES: Record<DisputeSummary['status'], 'positive' | 'negative' | 'warning' | 'info'> = {
+  needs_response: 'negative',
+  warning_needs_response: 'negative',
+  under_review: 'warning',
+  warning_under_review: 'warning',
+  won: 'positive',
+  lost: 'negative',
+  warning_closed: 'info',
+};
+
+function DisputesCard({ insights }: { insights: CustomerInsights }) {
+  const { disputes } = insights;
+
+  return (
+    <Card>
+      <Box padding="medium">
+        <Heading level={3}>Disputes</Heading>
+
+        {disputes.nextEvidenceDueBy && (
+          <Box marginTop="medium">
+            <Inline>
+              <Badge type={disputes.responseDueSoon ? 'negative' : 'warning'}>
+                {disputes.responseDueSoon ? 'Response due soon' : 'Response needed'}
+              </Badge>
+              <Text size="small">Submit evidence by {formatDate(disputes.nextEvidenceDueBy)}</Text>
+            </Inline>
+          </Box>
+        )}
+
+        <Grid columns={3} marginTop="medium">
+          <Box>
+            <Text color="subdued" size="small">Open</Text>
+            <Text weight="medium">{disputes.open}</Text>
+          </Box>
+          <Box>
+            <Text color="subdued" size="small">Won</Text>
+            <Text weight="medium">{disputes.won}</Text>
+          </Box>
+          <Box>
+            <Text color="subdued" size="small">Lost</Text>
+            <Text weight="medium">{disputes.lost}</Text>
+          </Box>
+          <Box>
+            <Text color="subdued" size="small">Disputed Amount</Text>
+            <Text weight="medium">{formatCurrency(disputes.disputedAmount)}</Text>
+          </Box>
+          <Box>
+            <Text color="subdued" size="small">Win Rate</Text>
+            <Text weight="medium">
+              {disputes.winRate !== null ? `${disputes.winRate.toFixed(0)}%` : 'N/A'}
+            </Text>
+          </Box>
+        </Grid>
+
+        <Box marginTop="medium">
+          {disputes.items.map(dispute => (
+            <Box key={dispute.id} marginTop="small">
+              <Inline>
+                <Badge type={DISPUTE_STATUS_BADGES[dispute.status]}>{dispute.status.replace(/_/g, ' ')}</Badge>
+                <Text size="small">
+                  {formatCurrency(dispute.amount)} · {dispute.reason.replace(/_/g, ' ')}
+                </Text>
+              </Inline>
+              <Text color="subdued" size="small">
+                Opened {formatDate(dispute.created)}
+                {dispute.needsResponse &&
+                  dispute.evidenceDueBy &&
+                  ` · evidence due ${formatDate(dispute.evidenceDueBy)}`}
+              </Text>
+            </Box>
+          ))}
+        </Box>
+      </Box>
+    </Card>
+  );
+}
+
+/**
+ * Invoices Card
+ *
+ * PM DECISION: Money owed first - the overdue balance is what a merchant
+ * acts on (chase the customer, pause service). Payment speed and retries
+ * explain whether it's a one-off or a habit.
+ */
+function InvoicesCard({ insights }: { insights: CustomerInsights }) {
+  const { invoices } = insights;
+  const days = (value: number | null) => (value !== null ? `${value.toFixed(1)} days` : 'N/A');
+
+  return (
+    <Card>
+      <Box padding="medium">
+        <Heading level={3}>Invoices</Heading>
+
+        <Box marginTop="medium">
+          <Text size="xlarge" weight="bold">
+            {formatCurrency(invoices.openAmount)}
+          </Text>
+          <Text color="subdued" size="small">
+            Outstanding on {invoices.open} open invoice{invoices.open === 1 ? '' : 's'}
+          </Text>
+          {invoices.overdue > 0 && (
+            <Inline>
+              <Badge type="negative">Overdue</Badge>
+              <Text size="small">
+                {formatCurrency(invoices.overdueAmount)} on {invoices.overdue} invoice
+                {invoices.overdue === 1 ? '' : 's'}
+              </Text>
+            </Inline>
+          )}
+        </Box>
+
+        <Grid columns={3} marginTop="medium">
+          <Box>
+            <Text color="subdued" size="small">Average Days to Pay</Text>
+            <Text weight="medium">{days(invoices.averageDaysToPay)}</Text>
+          </Box>
+          <Box>
+            <Text color="subdued" size="small">Median Days to Pay</Text>
+            <Text weight="medium">{days(invoices.medianDaysToPay)}</Text>
+          </Box>
+          <Box>
+            <Text color="subdued" size="small">Needed Retries</Text>
+            <Text weight="medium">{invoices.retriedInvoices}</Text>
+          </Box>
+          <Box>
+            <Text color="subdued" size="small">Uncollectible</Text>
+            <Text weight="medium">
+              {invoices.uncollectible} ({formatCurrency(invoices.uncollectibleAmount)})
+            </Text>
+          </Box>
+          <Box>
+            <Text color="subdued" size="small">Void</Text>
+            <Text weight="medium">
+              {invoices.void} ({formatCurrency(invoices.voidAmount)})
+            </Text>
+          </Box>
+          <Box>
+            <Text color="subdued" size="small">Total</Text>
+            <Text weight="medium">{invoices.total}</Text>
+          </Box>
+        </Grid>
+
+        {invoices.attempts.length > 0 && (
+          <Box marginTop="medium">
+            <Text color="subdued" size="small">Payment attempts per paid invoice</Text>
+            <Inline>
+              {invoices.attempts.map(({ attempts, count }) => (
+                <Badge key={attempts} type={attempts > 1 ? 'warning' : 'neutral'}>
+                  {attempts} attempt{attempts === 1 ? '' : 's'} × {count}
+                </Badge>
+              ))}
+            </Inline>
+          </Box>
+        )}
+      </Box>
+    </Card>
+  );
+}
+
 /**
  * Subscription Health Card
+ *
+ * UX: Counts up top, then one row per subscription so a past_due renewal or
+ * a pending cancellation is visible without opening each subscription.
  */
+const SUBSCRIPTION_STATUS_BADGES: Record<
+  SubscriptionSummary['status'],
+  'positive' | 'negative' | 'warning' | 'info' | 'neutral'
+> = {
+  active: 'positive',
+  trialing: 'info',
+  past_due: 'warning',
+  incomplete: 'warning',
+  paused: 'neutral',
+  unpaid: 'negative',
+  canceled: 'neutral',
+  incomplete_expired: 'neutral',
+};
+
 function SubscriptionHealthCard({ insights }: { insights: CustomerInsights }) {
   const { subscriptionHealth } = insights;
+  const { statusCounts, trials } = subscriptionHealth;
 
   return (
     <Card>
@@ -366,9 +1004,22 @@ function SubscriptionHealthCard({ insights }: { insights: CustomerInsights }) {
 
         <Box marginTop="medium">
           <Text size="xlarge" weight="bold">
-            {formatCurrency(subscriptionHealth.monthlyRecurringRevenue, 'usd')}
+            {formatCurrency(subscriptionHealth.monthlyRecurringRevenue)}
           </Text>
           <Text color="subdued" size="small">Monthly Recurring Revenue</Text>
+          {subscriptionHealth.usageBasedItems > 0 && (
+            // Metered items have no fixed price, so they're not in the figure above
+            <Text color="subdued" size="small">
+              + {subscriptionHealth.usageBasedItems} usage-based item
+              {subscriptionHealth.usageBasedItems === 1 ? '' : 's'} (billed on usage)
+            </Text>
+          )}
+          {subscriptionHealth.atRiskMrr.amount > 0 && (
+            <Inline>
+              <Badge type="warning">At risk</Badge>
+              <Text size="small">{formatCurrency(subscriptionHealth.atRiskMrr)} past due, retrying payment</Text>
+            </Inline>
+          )}
         </Box>
 
         <Grid columns={3} marginTop="medium">
@@ -377,13 +1028,25 @@ function SubscriptionHealthCard({ insights }: { insights: CustomerInsights }) {
             <Text weight="medium">{subscriptionHealth.activeSubscriptions}</Text>
           </Box>
           <Box>
-            <Text color="subdued" size="small">Total</Text>
-            <Text weight="medium">{subscriptionHealth.totalSubscriptions}</Text>
+            <Text color="subdued" size="small">Trialing</Text>
+            <Text weight="medium">{statusCounts.trialing}</Text>
+          </Box>
+          <Box>
+            <Text color="subdued" size="small">Past Due</Text>
+            <Text weight="medium">{statusCounts.past_due}</Text>
+          </Box>
+          <Box>
+            <Text color="subdued" size="small">Incomplete / Paused</Text>
+            <Text weight="medium">{statusCounts.incomplete + statusCounts.paused}</Text>
           </Box>
           <Box>
             <Text color="subdued" size="small">Churned</Text>
             <Text weight="medium">{subscriptionHealth.churnedSubscriptions}</Text>
           </Box>
+          <Box>
+            <Text color="subdued" size="small">Total</Text>
+            <Text weight="medium">{subscriptionHealth.totalSubscriptions}</Text>
+          </Box>
         </Grid>
 
         {subscriptionHealth.nextBillingDate && (
@@ -392,11 +1055,116 @@ function SubscriptionHealthCard({ insights }: { insights: CustomerInsights }) {
             <Text weight="medium">{formatDate(subscriptionHealth.nextBillingDate)}</Text>
           </Box>
         )}
+
+        {(trials.active > 0 || trials.ended > 0) && (
+          <Box marginTop="medium">
+            <Text color="subdued" size="small">Trials</Text>
+            {trials.nextTrialEnd && <Text size="small">Trial ends {formatDate(trials.nextTrialEnd)}</Text>}
+            {trials.conversionRate !== null && (
+              <Text size="small">
+                {trials.converted} of {trials.ended} ended trials converted to paid (
+                {trials.conversionRate.toFixed(0)}%)
+              </Text>
+            )}
+          </Box>
+        )}
+
+        <Box marginTop="medium">
+          {subscriptionHealth.items.map(subscription => (
+            <Box key={subscription.id} marginTop="small">
+              <Inline>
+                <Badge type={SUBSCRIPTION_STATUS_BADGES[subscription.status]}>
+                  {subscription.status.replace(/_/g, ' ')}
+                </Badge>
+                {subscription.cancelAtPeriodEnd && (
+                  <Badge type="warning">Cancels {formatDate(subscription.currentPeriodEnd)}</Badge>
+                )}
+                <Text size="small">{formatCurrency(subscription.monthlyRecurringRevenue)}/mo</Text>
+              </Inline>
+              <Text color="subdued" size="small">
+                {subscription.id} · started {formatDate(subscription.created)}
+                {subscription.status === 'trialing' &&
+                  subscription.trialEnd &&
+                  ` · trial ends ${formatDate(subscription.trialEnd)}`}
+              </Text>
+            </Box>
+          ))}
+        </Box>
+      </Box>
+    </Card>
+  );
+}
+
+/**
+ * Payment Methods Card
+ *
+ * UX: The warning comes first and names the date - "update the card before
+ * Jul 11" is something the merchant can send the customer today. Each row
+ * reads like the card itself: brand, last 4, expiry.
+ */
+function PaymentMethodsCard({ insights }: { insights: CustomerInsights }) {
+  const { paymentMethods, subscriptionHealth } = insights;
+
+  return (
+    <Card>
+      <Box padding="medium">
+        <Heading level={3}>Payment Methods</Heading>
+
+        {paymentMethods.expiringBeforeNextBilling > 0 && subscriptionHealth.nextBillingDate && (
+          <Box marginTop="medium">
+            <Inline>
+              <Badge type="warning">Card expiring</Badge>
+              <Text size="small">
+                {paymentMethods.expiringBeforeNextBilling} card
+                {paymentMethods.expiringBeforeNextBilling === 1 ? '' : 's'} will expire before the next billing
+                date ({formatDate(subscriptionHealth.nextBillingDate)})
+              </Text>
+            </Inline>
+          </Box>
+        )}
+
+        {paymentMethods.defaultPaymentMethodId === null && (
+          <Box marginTop="medium">
+            <Text color="subdued" size="small">No default payment method set</Text>
+          </Box>
+        )}
+
+        <Box marginTop="medium">
+          {paymentMethods.items.map(paymentMethod => (
+            <Box key={paymentMethod.id} marginTop="small">
+              <Inline>
+                <Text weight="medium">{paymentMethodLabel(paymentMethod)}</Text>
+                {paymentMethod.isDefault && <Badge type="info">Default</Badge>}
+                {paymentMethod.wallet && <Badge type="neutral">{paymentMethod.wallet.replace(/_/g, ' ')}</Badge>}
+                {paymentMethod.expired && <Badge type="negative">Expired</Badge>}
+                {paymentMethod.expiresBeforeNextBilling && <Badge type="warning">Expires before renewal</Badge>}
+              </Inline>
+              <Text color="subdued" size="small">
+                {[
+                  paymentMethod.type.replace(/_/g, ' '),
+                  paymentMethod.funding,
+                  paymentMethod.expMonth !== null &&
+                    paymentMethod.expYear !== null &&
+                    `expires ${String(paymentMethod.expMonth).padStart(2, '0')}/${paymentMethod.expYear}`,
+                ]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </Text>
+            </Box>
+          ))}
+        </Box>
       </Box>
     </Card>
   );
 }
 
+// e.g. "Visa •••• 4242", "STRIPE TEST BANK •••• 6789"
+function paymentMethodLabel(paymentMethod: PaymentMethodSummary): string {
+  const brand = paymentMethod.brand ?? paymentMethod.type.replace(/_/g, ' ');
+  const name = brand.charAt(0).toUpperCase() + brand.slice(1);
+  return paymentMethod.last4 ? `${name} •••• ${paymentMethod.last4}` : name;
+}
+
 /**
  * Metadata Card
  */
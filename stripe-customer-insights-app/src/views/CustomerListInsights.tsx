@@ -0,0 +1,356 @@
+/**
+ * Customer List Insights Component
+ *
+ * VIEWPORT: stripe.dashboard.customer.list
+ *
+ * PRODUCT GOAL: Give merchants an account-level picture before they drill
+ * into a single customer:
+ * - Risk segments (low / medium / high)
+ * - Active subscribers vs dormant customers
+ * - Top customers by lifetime value
+ * - Aggregate MRR
+ *
+ * PERFORMANCE: Every customer needs several Stripe API calls, so we:
+ * 1. Walk the customer list one page at a time (shared paginator)
+ * 2. Analyze customers in small batches (avoids hammering rate limits)
+ * 3. Re-render the summary after each batch (partial results + progress)
+ * 4. Stop at MAX_CUSTOMERS and tell the merchant the summary is partial
+ * 5. Skip customers that fail to load (and say how many) instead of
+ *    failing the whole summary
+ */
+
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Badge,
+  Button,
+  Card,
+  Divider,
+  Grid,
+  Heading,
+  Inline,
+  Spinner,
+  Text,
+} from '@stripe/ui-extension-sdk/ui';
+import Stripe from 'stripe';
+import type { CustomerInsights, CustomerListState, CustomerListSummary } from '../types';
+import {
+  DORMANT_AFTER_DAYS,
+  calculateCustomerInsights,
+  formatCurrency,
+  summarizeCustomerList,
+} from '../utils/calculations';
+import { fetchCustomerDataWithCache, fetchCustomers } from '../api/stripeClient';
+
+/**
+ * All customers are reported in one currency so LTV ranking and MRR add up
+ */
+const LIST_REPORTING_CURRENCY = 'usd';
+
+/**
+ * Upper bound on customers analyzed per view load
+ */
+const MAX_CUSTOMERS = 500;
+
+/**
+ * Customers analyzed in parallel
+ *
+ * Each customer makes 7 calls (the customer and 6 lists), then a dispute
+ * lookup per disputed charge, a price lookup per tiered price and more pages
+ * for long histories. Every call shares the client's concurrency limiter
+ * (8 in flight), so 3 customers (~21 calls) keep it busy while one paginates,
+ * without queueing far ahead of an abort.
+ */
+const BATCH_SIZE = 3;
+
+const INITIAL_PROGRESS: CustomerListState['progress'] = {
+  customersAnalyzed: 0,
+  customersFailed: 0,
+  pagesLoaded: 0,
+  limitReached: false,
+};
+
+/**
+ * Main Component
+ */
+export default function CustomerListInsights() {
+  const [state, setState] = useState<CustomerListState>({
+    summary: null,
+    loadingState: 'idle',
+    error: null,
+    progress: INITIAL_PROGRESS,
+  });
+
+  // Bumped by the Retry button to re-run the effect
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    // Stops pagination (and state updates) if the merchant navigates away mid-analysis
+    const controller = new AbortController();
+
+    async function loadSummary() {
+      setState({
+        summary: null,
+        loadingState: 'loading',
+        error: null,
+        progress: INITIAL_PROGRESS,
+      });
+
+      const entries: Array<{ customer: Stripe.Customer; insights: CustomerInsights }> = [];
+      let customersFailed = 0;
+
+      try {
+        const result = await fetchCustomers({
+          maxItems: MAX_CUSTOMERS,
+          signal: controller.signal,
+          // Analyze each page before the next one is requested
+          onPage: async ({ items: customers, pageNumber }) => {
+            for (let i = 0; i < customers.length; i += BATCH_SIZE) {
+              const batch = customers.slice(i, i + BATCH_SIZE);
+              const results = await Promise.allSettled(
+                batch.map(async customer => {
+                  // Stale data is fine for an overview - no need to wait for revalidation
+                  const { data } = await fetchCustomerDataWithCache(customer.id, false, controller.signal);
+                  return {
+                    customer,
+                    insights: calculateCustomerInsights(data, {
+                      reportingCurrency: LIST_REPORTING_CURRENCY,
+                    }),
+                  };
+                })
+              );
+              controller.signal.throwIfAborted();
+
+              results.forEach((result, index) => {
+                if (result.status === 'fulfilled') {
+                  entries.push(result.value);
+                } else {
+                  // One missing customer (deleted, rate limited) shouldn't hide the other 499
+                  customersFailed++;
+                  console.warn(`Skipping customer ${batch[index].id} in the overview:`, result.reason);
+                }
+              });
+              setState(prev => ({
+                ...prev,
+                summary: summarizeCustomerList(entries, LIST_REPORTING_CURRENCY),
+                progress: {
+                  customersAnalyzed: entries.length,
+                  customersFailed,
+                  pagesLoaded: pageNumber,
+                  limitReached: false,
+                },
+              }));
+            }
+          },
+        });
+
+        setState({
+          summary: summarizeCustomerList(entries, LIST_REPORTING_CURRENCY),
+          loadingState: 'success',
+          error: null,
+          progress: {
+            customersAnalyzed: entries.length,
+            customersFailed,
+            pagesLoaded: result.pagesFetched,
+            limitReached: result.truncated,
+          },
+        });
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Failed to load customer list insights:', error);
+        setState(prev => ({
+          ...prev,
+          loadingState: 'error',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        }));
+      }
+    }
+
+    loadSummary();
+
+    return () => {
+      controller.abort();
+    };
+  }, [attempt]);
+
+  if (state.loadingState === 'error') {
+    return (
+      <Box padding="large">
+        <Card>
+          <Box padding="medium">
+            <Heading level={3}>Error Loading Customer Insights</Heading>
+            <Text>{state.error}</Text>
+            <Button onClick={() => setAttempt(attempt + 1)} css={{ marginTop: 16 }}>
+              Retry
+            </Button>
+          </Box>
+        </Card>
+      </Box>
+    );
+  }
+
+  // Nothing to show until the first batch is analyzed
+  if (!state.summary) {
+    return (
+      <Box padding="large">
+        <Inline alignment="center">
+          <Spinner size="large" />
+          <Text>Loading customers...</Text>
+        </Inline>
+      </Box>
+    );
+  }
+
+  return (
+    <Box padding="large">
+      <Heading level={2}>Customer Overview</Heading>
+      <ProgressBanner state={state} />
+      {state.progress.customersFailed > 0 && (
+        <Text color="subdued">
+          {state.progress.customersFailed} {state.progress.customersFailed === 1 ? 'customer' : 'customers'} could
+          not be loaded
+        </Text>
+      )}
+
+      <Divider />
+
+      <Box marginTop="large">
+        <SegmentsCard summary={state.summary} />
+      </Box>
+
+      <Box marginTop="medium">
+        <RecurringRevenueCard summary={state.summary} />
+      </Box>
+
+      <Box marginTop="medium">
+        <TopCustomersCard summary={state.summary} />
+      </Box>
+    </Box>
+  );
+}
+
+/**
+ * Progress Banner
+ *
+ * UX: Tell the merchant whether numbers are final, still loading, or capped
+ */
+function ProgressBanner({ state }: { state: CustomerListState }) {
+  const { progress } = state;
+
+  if (state.loadingState === 'loading') {
+    return (
+      <Inline>
+        <Spinner size="small" />
+        <Text color="subdued">
+          Analyzing customers... {progress.customersAnalyzed} analyzed
+          ({progress.pagesLoaded} {progress.pagesLoaded === 1 ? 'page' : 'pages'} loaded)
+        </Text>
+      </Inline>
+    );
+  }
+
+  if (progress.limitReached) {
+    return (
+      <Text color="subdued">
+        Showing the first {progress.customersAnalyzed} customers. Open a customer for full details.
+      </Text>
+    );
+  }
+
+  return <Text color="subdued">Based on all {progress.customersAnalyzed} customers</Text>;
+}
+
+/**
+ * Segments Card
+ */
+function SegmentsCard({ summary }: { summary: CustomerListSummary }) {
+  const { segments } = summary;
+
+  return (
+    <Card>
+      <Box padding="medium">
+        <Heading level={3}>Customer Segments</Heading>
+
+        <Grid columns={3} marginTop="medium">
+          <Box>
+            <Badge type="positive">Low risk</Badge>
+            <Text weight="medium">{segments.lowRisk}</Text>
+          </Box>
+          <Box>
+            <Badge type="warning">Medium risk</Badge>
+            <Text weight="medium">{segments.mediumRisk}</Text>
+          </Box>
+          <Box>
+            <Badge type="negative">High risk</Badge>
+            <Text weight="medium">{segments.highRisk}</Text>
+          </Box>
+        </Grid>
+
+        <Grid columns={2} marginTop="medium">
+          <Box>
+            <Text color="subdued" size="small">Active Subscribers</Text>
+            <Text weight="medium">{segments.activeSubscribers}</Text>
+          </Box>
+          <Box>
+            <Text color="subdued" size="small">
+              Dormant (no purchase in {DORMANT_AFTER_DAYS}+ days)
+            </Text>
+            <Text weight="medium">{segments.dormant}</Text>
+          </Box>
+        </Grid>
+      </Box>
+    </Card>
+  );
+}
+
+/**
+ * Recurring Revenue Card
+ */
+function RecurringRevenueCard({ summary }: { summary: CustomerListSummary }) {
+  return (
+    <Card>
+      <Box padding="medium">
+        <Heading level={3}>Recurring Revenue</Heading>
+
+        <Box marginTop="medium">
+          <Text size="xlarge" weight="bold">
+            {formatCurrency(summary.totalMonthlyRecurringRevenue)}
+          </Text>
+          <Text color="subdued" size="small">Aggregate Monthly Recurring Revenue</Text>
+        </Box>
+      </Box>
+    </Card>
+  );
+}
+
+/**
+ * Top Customers Card
+ *
+ * PRODUCT INSIGHT: The handful of customers who drive most revenue
+ * deserve proactive attention (renewals, support, upsell)
+ */
+function TopCustomersCard({ summary }: { summary: CustomerListSummary }) {
+  return (
+    <Card>
+      <Box padding="medium">
+        <Heading level={3}>Top Customers by Lifetime Value</Heading>
+
+        {summary.topCustomers.length === 0 && (
+          <Box marginTop="medium">
+            <Text color="subdued">No customers yet</Text>
+          </Box>
+        )}
+
+        {summary.topCustomers.map((customer, index) => (
+          <Box key={customer.customerId} marginTop="small">
+            <Inline>
+              <Text weight="medium">{index + 1}.</Text>
+              <Text>{customer.displayName}</Text>
+              <Text weight="bold">{formatCurrency(customer.lifetimeValue)}</Text>
+            </Inline>
+          </Box>
+        ))}
+      </Box>
+    </Card>
+  );
+}